@@ -2,9 +2,20 @@ import { pool } from './pool';
 import {
   OptionRow,
   AttributeRow,
+  AttributeTypeRow,
   WeightRow,
+  WeightProfileRow,
   IntegrationRow,
   OptionIntegrationRow,
+  OptionPricingRow,
+  ComparisonRecordRow,
+  DecisionSessionRow,
+  SessionParticipantRow,
+  Constraints,
+  UserRow,
+  UserRole,
+  SavedCompareRequest,
+  CompareResponse,
   AppError,
 } from '../types';
 
@@ -39,7 +50,8 @@ async function safeQuery<T>(
  */
 export async function getOptions(): Promise<OptionRow[]> {
   const query = `
-    SELECT id, name, description, category, created_at
+    SELECT id, name, description, category,
+           monthly_cost_min, monthly_cost_typical, monthly_cost_max, created_at
     FROM options
     ORDER BY category, name
   `;
@@ -51,7 +63,8 @@ export async function getOptions(): Promise<OptionRow[]> {
  */
 export async function getOptionById(id: string): Promise<OptionRow | null> {
   const query = `
-    SELECT id, name, description, category, created_at
+    SELECT id, name, description, category,
+           monthly_cost_min, monthly_cost_typical, monthly_cost_max, created_at
     FROM options
     WHERE id = $1
   `;
@@ -66,19 +79,33 @@ export async function getOptionsByIds(ids: string[]): Promise<OptionRow[]> {
   if (ids.length === 0) return [];
   
   const query = `
-    SELECT id, name, description, category, created_at
+    SELECT id, name, description, category,
+           monthly_cost_min, monthly_cost_typical, monthly_cost_max, created_at
     FROM options
     WHERE id = ANY($1)
   `;
   return safeQuery<OptionRow>(query, [ids as unknown as string]);
 }
 
+/**
+ * Retrieves the attribute type catalog in display order.
+ */
+export async function getAttributeTypes(): Promise<AttributeTypeRow[]> {
+  const query = `
+    SELECT key, name, description, icon, direction, strength_text, weakness_text, unit, tco_effort, sort_order, created_at
+    FROM attribute_types
+    ORDER BY sort_order, name
+  `;
+  return safeQuery<AttributeTypeRow>(query);
+}
+
 /**
  * Retrieves all attributes for a specific option.
  */
 export async function getAttributesByOptionId(optionId: string): Promise<AttributeRow[]> {
   const query = `
-    SELECT id, option_id, attribute_type, value, rating, description
+    SELECT id, option_id, attribute_type, value, rating, numeric_value,
+           confidence, rating_distribution, description
     FROM attributes
     WHERE option_id = $1
   `;
@@ -92,13 +119,28 @@ export async function getAttributesByOptionIds(optionIds: string[]): Promise<Att
   if (optionIds.length === 0) return [];
   
   const query = `
-    SELECT id, option_id, attribute_type, value, rating, description
+    SELECT id, option_id, attribute_type, value, rating, numeric_value,
+           confidence, rating_distribution, description
     FROM attributes
     WHERE option_id = ANY($1)
   `;
   return safeQuery<AttributeRow>(query, [optionIds as unknown as string]);
 }
 
+/**
+ * Retrieves the pricing formulas for specific options.
+ */
+export async function getPricingByOptionIds(optionIds: string[]): Promise<OptionPricingRow[]> {
+  if (optionIds.length === 0) return [];
+
+  const query = `
+    SELECT id, option_id, unit, unit_price, free_units, description
+    FROM option_pricing
+    WHERE option_id = ANY($1)
+  `;
+  return safeQuery<OptionPricingRow>(query, [optionIds as unknown as string]);
+}
+
 /**
  * Retrieves all attribute weights.
  */
@@ -111,6 +153,44 @@ export async function getWeights(): Promise<WeightRow[]> {
   return safeQuery<WeightRow>(query);
 }
 
+/**
+ * Retrieves all weight profiles, by name.
+ */
+export async function getWeightProfiles(): Promise<WeightProfileRow[]> {
+  const query = `
+    SELECT id, name, description, created_at
+    FROM weight_profiles
+    ORDER BY name
+  `;
+  return safeQuery<WeightProfileRow>(query);
+}
+
+/**
+ * Retrieves a single weight profile by ID.
+ */
+export async function getWeightProfileById(id: string): Promise<WeightProfileRow | null> {
+  const query = `
+    SELECT id, name, description, created_at
+    FROM weight_profiles
+    WHERE id = $1
+  `;
+  const rows = await safeQuery<WeightProfileRow>(query, [id]);
+  return rows[0] || null;
+}
+
+/**
+ * Retrieves the weights a profile sets, in the same shape as the default weights.
+ */
+export async function getWeightProfileWeights(profileId: string): Promise<WeightRow[]> {
+  const query = `
+    SELECT id, attribute_type, default_weight,
+           scalability_low_modifier, scalability_medium_modifier, scalability_high_modifier
+    FROM weight_profile_weights
+    WHERE profile_id = $1
+  `;
+  return safeQuery<WeightRow>(query, [profileId]);
+}
+
 /**
  * Retrieves all available integrations.
  */
@@ -172,3 +252,231 @@ export async function optionSupportsIntegrations(
   
   return parseInt(rows[0]?.count || '0', 10) === requiredIntegrationIds.length;
 }
+
+/**
+ * Stores a compare request together with the response it produced.
+ */
+export async function createComparisonRecord(
+  request: SavedCompareRequest,
+  response: CompareResponse
+): Promise<ComparisonRecordRow> {
+  const query = `
+    INSERT INTO comparisons (request, response)
+    VALUES ($1, $2)
+    RETURNING id, request, response, created_at
+  `;
+  const rows = await safeQuery<ComparisonRecordRow>(query, [
+    JSON.stringify(request),
+    JSON.stringify(response),
+  ]);
+  return rows[0];
+}
+
+/**
+ * Retrieves a saved comparison by ID.
+ */
+export async function getComparisonRecordById(id: string): Promise<ComparisonRecordRow | null> {
+  const query = `
+    SELECT id, request, response, created_at
+    FROM comparisons
+    WHERE id = $1
+  `;
+  const rows = await safeQuery<ComparisonRecordRow>(query, [id]);
+  return rows[0] || null;
+}
+
+/**
+ * Creates a decision session for a group comparing the given options.
+ */
+export async function createDecisionSession(
+  title: string,
+  optionIds: string[],
+  constraints: Constraints
+): Promise<DecisionSessionRow> {
+  const query = `
+    INSERT INTO decision_sessions (title, option_ids, constraints)
+    VALUES ($1, $2, $3)
+    RETURNING id, title, option_ids, constraints, created_at
+  `;
+  const rows = await safeQuery<DecisionSessionRow>(query, [
+    title,
+    optionIds as unknown as string,
+    JSON.stringify(constraints),
+  ]);
+  return rows[0];
+}
+
+/**
+ * Retrieves a decision session by ID.
+ */
+export async function getDecisionSessionById(id: string): Promise<DecisionSessionRow | null> {
+  const query = `
+    SELECT id, title, option_ids, constraints, created_at
+    FROM decision_sessions
+    WHERE id = $1
+  `;
+  const rows = await safeQuery<DecisionSessionRow>(query, [id]);
+  return rows[0] || null;
+}
+
+/**
+ * Retrieves a session's participants, by name.
+ */
+export async function getSessionParticipants(sessionId: string): Promise<SessionParticipantRow[]> {
+  const query = `
+    SELECT id, session_id, name, attribute_weights, scalability_priority, updated_at
+    FROM session_participants
+    WHERE session_id = $1
+    ORDER BY name
+  `;
+  return safeQuery<SessionParticipantRow>(query, [sessionId]);
+}
+
+/**
+ * Adds a participant and their ratings to a session. Returns null if the
+ * name is already taken in that session.
+ */
+export async function addSessionParticipant(
+  sessionId: string,
+  name: string,
+  attributeWeights: Record<string, number>,
+  scalabilityPriority: Constraints['scalabilityPriority'] | null
+): Promise<SessionParticipantRow | null> {
+  const query = `
+    INSERT INTO session_participants (session_id, name, attribute_weights, scalability_priority)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (session_id, name) DO NOTHING
+    RETURNING id, session_id, name, attribute_weights, scalability_priority, updated_at
+  `;
+  const rows = await safeQuery<SessionParticipantRow>(query, [
+    sessionId,
+    name,
+    JSON.stringify(attributeWeights),
+    scalabilityPriority,
+  ]);
+  return rows[0] ?? null;
+}
+
+/**
+ * Replaces a participant's ratings. Returns null if the session has no
+ * participant with that id.
+ */
+export async function updateSessionParticipant(
+  sessionId: string,
+  participantId: string,
+  attributeWeights: Record<string, number>,
+  scalabilityPriority: Constraints['scalabilityPriority'] | null
+): Promise<SessionParticipantRow | null> {
+  const query = `
+    UPDATE session_participants SET
+      attribute_weights = $3,
+      scalability_priority = $4,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE session_id = $1 AND id = $2
+    RETURNING id, session_id, name, attribute_weights, scalability_priority, updated_at
+  `;
+  const rows = await safeQuery<SessionParticipantRow>(query, [
+    sessionId,
+    participantId,
+    JSON.stringify(attributeWeights),
+    scalabilityPriority,
+  ]);
+  return rows[0] ?? null;
+}
+
+/**
+ * Retrieves all users, oldest first.
+ */
+export async function getUsers(): Promise<UserRow[]> {
+  const query = `
+    SELECT id, username, password_hash, role, created_at
+    FROM users
+    ORDER BY created_at
+  `;
+  return safeQuery<UserRow>(query);
+}
+
+/**
+ * Retrieves a user by username.
+ */
+export async function getUserByUsername(username: string): Promise<UserRow | null> {
+  const query = `
+    SELECT id, username, password_hash, role, created_at
+    FROM users
+    WHERE username = $1
+  `;
+  const rows = await safeQuery<UserRow>(query, [username]);
+  return rows[0] || null;
+}
+
+/**
+ * Counts users, to tell whether the first admin still needs creating.
+ */
+export async function countUsers(): Promise<number> {
+  const rows = await safeQuery<{ count: string }>('SELECT COUNT(*) as count FROM users');
+  return parseInt(rows[0]?.count || '0', 10);
+}
+
+/**
+ * Creates a user. The password must already be hashed.
+ */
+export async function createUser(
+  username: string,
+  passwordHash: string,
+  role: UserRole
+): Promise<UserRow> {
+  const query = `
+    INSERT INTO users (username, password_hash, role)
+    VALUES ($1, $2, $3)
+    RETURNING id, username, password_hash, role, created_at
+  `;
+  const rows = await safeQuery<UserRow>(query, [username, passwordHash, role]);
+  return rows[0];
+}
+
+/**
+ * Deletes a user (and, by cascade, their sessions). Returns false if none existed.
+ */
+export async function deleteUser(id: string): Promise<boolean> {
+  const rows = await safeQuery<{ id: string }>('DELETE FROM users WHERE id = $1 RETURNING id', [id]);
+  return rows.length > 0;
+}
+
+/**
+ * Stores a session for a user under the hash of its token.
+ * Returns when the session expires.
+ */
+export async function createSession(
+  tokenHash: string,
+  userId: string,
+  ttlHours: number
+): Promise<Date> {
+  const query = `
+    INSERT INTO sessions (token_hash, user_id, expires_at)
+    VALUES ($1, $2, NOW() + make_interval(hours => $3))
+    RETURNING expires_at
+  `;
+  const rows = await safeQuery<{ expires_at: Date }>(query, [tokenHash, userId, ttlHours]);
+  return rows[0].expires_at;
+}
+
+/**
+ * Retrieves the user behind an unexpired session.
+ */
+export async function getUserBySessionToken(tokenHash: string): Promise<UserRow | null> {
+  const query = `
+    SELECT u.id, u.username, u.password_hash, u.role, u.created_at
+    FROM sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = $1 AND s.expires_at > NOW()
+  `;
+  const rows = await safeQuery<UserRow>(query, [tokenHash]);
+  return rows[0] || null;
+}
+
+/**
+ * Deletes a session, and any sessions that have expired.
+ */
+export async function deleteSession(tokenHash: string): Promise<void> {
+  await safeQuery('DELETE FROM sessions WHERE token_hash = $1 OR expires_at <= NOW()', [tokenHash]);
+}
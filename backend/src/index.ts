@@ -6,7 +6,14 @@ import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import healthRoutes from './routes/health';
 import optionsRoutes from './routes/options';
 import compareRoutes from './routes/compare';
+import recommendRoutes from './routes/recommend';
+import costRoutes from './routes/cost';
+import paretoRoutes from './routes/pareto';
 import adminRoutes from './routes/admin';
+import comparisonsRoutes from './routes/comparisons';
+import sessionsRoutes from './routes/sessions';
+import authRoutes from './routes/auth';
+import { ensureBootstrapAdmin } from './services/auth';
 
 // Load environment variables
 dotenv.config();
@@ -68,19 +75,26 @@ const PORT = config.PORT;
 const FRONTEND_URL = config.FRONTEND_URL;
 const corsOptions: cors.CorsOptions = {
   origin: FRONTEND_URL,
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true,
 };
 
 // Middleware
 app.use(cors(corsOptions));
-app.use(express.json());
+// Saved comparisons carry a full compare response, so allow larger bodies
+app.use(express.json({ limit: '1mb' }));
 
 // API Routes
 app.use('/api/health', healthRoutes);
 app.use('/api/options', optionsRoutes);
 app.use('/api/compare', compareRoutes);
+app.use('/api/recommend', recommendRoutes);
+app.use('/api/cost', costRoutes);
+app.use('/api/pareto', paretoRoutes);
+app.use('/api/comparisons', comparisonsRoutes);
+app.use('/api/sessions', sessionsRoutes);
+app.use('/api/auth', authRoutes);
 app.use('/api/admin', adminRoutes);
 
 // Error handling
@@ -101,6 +115,7 @@ async function start(): Promise<void> {
 
   // Validate database connection before starting server
   await validateDatabaseConnection();
+  await ensureBootstrapAdmin();
 
   app.listen(PORT, () => {
     console.log(`✓ Server running on port ${PORT}`);
@@ -110,7 +125,22 @@ async function start(): Promise<void> {
     console.log(`  GET  /api/health       - Health check`);
     console.log(`  GET  /api/options      - List all options`);
     console.log(`  GET  /api/options/integrations - List all integrations`);
-    console.log(`  POST /api/compare      - Compare two options`);
+    console.log(`  GET  /api/options/attribute-types - List attribute types`);
+    console.log(`  GET  /api/options/weight-profiles - List weight profiles`);
+    console.log(`  POST /api/compare      - Compare 2-6 options`);
+    console.log(`  POST /api/compare/sensitivity - Weight tipping points`);
+    console.log(`  POST /api/compare/scenarios - Compare under several constraint sets`);
+    console.log(`  POST /api/compare/export - Export a decision record`);
+    console.log(`  POST /api/recommend    - Shortlist catalog options`);
+    console.log(`  POST /api/cost         - Monthly cost for a usage profile`);
+    console.log(`  GET  /api/pareto?category= - Pareto-optimal options in a category`);
+    console.log(`  POST /api/comparisons  - Save a comparison`);
+    console.log(`  GET  /api/comparisons/:id - Load a saved comparison`);
+    console.log(`  POST /api/sessions     - Start a group decision`);
+    console.log(`  POST /api/sessions/:id/participants - Submit a participant's weights`);
+    console.log(`  GET  /api/sessions/:id/result - Aggregated group result`);
+    console.log(`  POST /api/auth/login   - Sign in for admin access`);
+    console.log(`  *    /api/admin/*      - Admin routes (sign-in required)`);
     console.log('═══════════════════════════════════════════════════════════');
   });
 }
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, hasRole } from '../services/auth';
+import { AppError, AuthUser, UserRole } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      authToken?: string;
+    }
+  }
+}
+
+/**
+ * Reads the bearer token from the Authorization header.
+ */
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+}
+
+/**
+ * Requires a valid session token and attaches the signed-in user to the request.
+ */
+export function authenticate(req: Request, _res: Response, next: NextFunction): void {
+  const token = getBearerToken(req);
+  if (!token) {
+    next(new AppError('Authentication required', 401, 'UNAUTHORIZED'));
+    return;
+  }
+
+  authenticateToken(token)
+    .then((user) => {
+      if (!user) {
+        throw new AppError('Session is invalid or has expired', 401, 'UNAUTHORIZED');
+      }
+      req.user = user;
+      req.authToken = token;
+      next();
+    })
+    .catch(next);
+}
+
+/**
+ * Requires the signed-in user to hold at least the given role.
+ * Must run after authenticate.
+ */
+export function requireRole(role: UserRole) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new AppError('Authentication required', 401, 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!hasRole(req.user, role)) {
+      next(new AppError(`This action requires the ${role} role`, 403, 'FORBIDDEN'));
+      return;
+    }
+
+    next();
+  };
+}
@@ -7,7 +7,10 @@ import { AppError, ErrorResponse } from '../types';
 const ERROR_STATUS_CODES: Record<string, number> = {
   VALIDATION_ERROR: 400,
   PARSE_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
   NOT_FOUND: 404,
+  RATE_LIMITED: 429,
   DATABASE_ERROR: 500,
   DATABASE_CONNECTION_ERROR: 503,
   INTERNAL_ERROR: 500,
@@ -19,7 +22,10 @@ const ERROR_STATUS_CODES: Record<string, number> = {
 const ERROR_MESSAGES: Record<string, string> = {
   VALIDATION_ERROR: 'The request contains invalid data',
   PARSE_ERROR: 'Unable to parse request body',
+  UNAUTHORIZED: 'You need to sign in to do that',
+  FORBIDDEN: 'You do not have permission to do that',
   NOT_FOUND: 'The requested resource was not found',
+  RATE_LIMITED: 'Too many requests; try again later',
   DATABASE_ERROR: 'A database error occurred',
   DATABASE_CONNECTION_ERROR: 'Unable to connect to the database',
   INTERNAL_ERROR: 'An unexpected error occurred',
@@ -87,7 +93,7 @@ export function errorHandler(
     const response = createErrorResponse(
       err.message,
       err.code,
-      undefined
+      err.details
     );
     res.status(err.statusCode).json(response);
     return;
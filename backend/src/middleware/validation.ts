@@ -2,6 +2,99 @@ import { Request, Response, NextFunction } from 'express';
 import { z, ZodError, ZodSchema } from 'zod';
 import { ErrorResponse } from '../types';
 
+/**
+ * Scale of the user-supplied importance for each attribute.
+ */
+export const MIN_ATTRIBUTE_IMPORTANCE = 0;
+export const MAX_ATTRIBUTE_IMPORTANCE = 10;
+
+/**
+ * Zod schema for a hard rule. Attribute rules compare a rating unless the
+ * value is a number; category rules only test equality.
+ */
+const HardRuleSchema = z
+  .object({
+    field: z.string().min(1, 'Rule field is required'),
+    operator: z.enum(['eq', 'neq', 'lt', 'lte', 'gt', 'gte'], {
+      invalid_type_error: 'Rule operator must be one of: eq, neq, lt, lte, gt, gte',
+    }),
+    value: z.union([z.string().min(1), z.number().finite()]),
+  })
+  .refine(
+    (rule) =>
+      rule.field !== 'category' ||
+      (typeof rule.value === 'string' && ['eq', 'neq'].includes(rule.operator)),
+    { message: 'Category rules need a text value and the eq or neq operator' }
+  )
+  .refine(
+    (rule) =>
+      rule.field === 'category' ||
+      typeof rule.value === 'number' ||
+      ['low', 'medium', 'high'].includes(rule.value),
+    { message: 'Attribute rules need a rating (low, medium, high) or a number' }
+  );
+
+export const MAX_HARD_RULES = 20;
+
+/**
+ * Zod schema for importance ratings keyed by attribute type.
+ */
+const AttributeWeightsSchema = z.record(
+  z.string(),
+  z
+    .number()
+    .min(MIN_ATTRIBUTE_IMPORTANCE, `Attribute weights must be at least ${MIN_ATTRIBUTE_IMPORTANCE}`)
+    .max(MAX_ATTRIBUTE_IMPORTANCE, `Attribute weights must be at most ${MAX_ATTRIBUTE_IMPORTANCE}`)
+);
+
+const ScalabilityPrioritySchema = z.enum(['low', 'medium', 'high'], {
+  required_error: 'scalabilityPriority is required',
+  invalid_type_error: 'scalabilityPriority must be one of: low, medium, high',
+});
+
+const usageAmount = (field: string) =>
+  z.number().finite().min(0, `${field} must be non-negative`).optional();
+
+/**
+ * Zod schema for a monthly usage profile options are priced against.
+ */
+const UsageProfileSchema = z
+  .object({
+    requestsPerMonth: usageAmount('requestsPerMonth'),
+    storageGb: usageAmount('storageGb'),
+    hoursPerMonth: usageAmount('hoursPerMonth'),
+    seats: usageAmount('seats'),
+  })
+  .strict();
+
+/**
+ * Bounds on the total cost of ownership assumptions. Growth rates are
+ * fractions per year, so -0.5 halves infrastructure cost each year.
+ */
+export const MAX_HOURLY_RATE = 1000;
+export const MIN_ANNUAL_GROWTH_RATE = -0.5;
+export const MAX_ANNUAL_GROWTH_RATE = 2;
+
+/**
+ * Zod schema for the total cost of ownership assumptions.
+ */
+const TcoSettingsSchema = z
+  .object({
+    hourlyRate: z
+      .number()
+      .finite()
+      .min(0, 'hourlyRate must be non-negative')
+      .max(MAX_HOURLY_RATE, `hourlyRate must be at most ${MAX_HOURLY_RATE}`)
+      .optional(),
+    annualGrowthRate: z
+      .number()
+      .finite()
+      .min(MIN_ANNUAL_GROWTH_RATE, `annualGrowthRate must be at least ${MIN_ANNUAL_GROWTH_RATE}`)
+      .max(MAX_ANNUAL_GROWTH_RATE, `annualGrowthRate must be at most ${MAX_ANNUAL_GROWTH_RATE}`)
+      .optional(),
+  })
+  .strict();
+
 /**
  * Zod schema for constraint validation.
  */
@@ -12,29 +105,49 @@ export const ConstraintsSchema = z.object({
   budgetMax: z
     .number({ required_error: 'budgetMax is required' })
     .min(0, 'budgetMax must be non-negative'),
-  scalabilityPriority: z.enum(['low', 'medium', 'high'], {
-    required_error: 'scalabilityPriority is required',
-    invalid_type_error: 'scalabilityPriority must be one of: low, medium, high',
-  }),
+  scalabilityPriority: ScalabilityPrioritySchema,
   requiredIntegrations: z
     .array(z.string().uuid('Each integration ID must be a valid UUID'))
     .default([]),
+  integrationMode: z
+    .enum(['strict', 'lenient'], {
+      invalid_type_error: 'integrationMode must be one of: strict, lenient',
+    })
+    .optional(),
+  scoringMethod: z
+    .enum(['weighted_sum', 'topsis', 'ahp'], {
+      invalid_type_error: 'scoringMethod must be one of: weighted_sum, topsis, ahp',
+    })
+    .optional(),
+  weightProfileId: z.string().uuid('weightProfileId must be a valid UUID').optional(),
+  attributeWeights: AttributeWeightsSchema.optional(),
+  usage: UsageProfileSchema.optional(),
+  tco: TcoSettingsSchema.optional(),
+  rules: z
+    .array(HardRuleSchema)
+    .max(MAX_HARD_RULES, `At most ${MAX_HARD_RULES} rules are allowed`)
+    .optional(),
 }).refine((data) => data.budgetMax >= data.budgetMin, {
   message: 'budgetMax must be greater than or equal to budgetMin',
   path: ['budgetMax'],
 });
 
+/**
+ * Bounds on how many options a single comparison may include.
+ */
+export const MIN_COMPARE_OPTIONS = 2;
+export const MAX_COMPARE_OPTIONS = 6;
+
 /**
  * Zod schema for compare request validation.
  */
 export const CompareRequestSchema = z.object({
   constraints: ConstraintsSchema,
   optionIds: z
-    .tuple([
-      z.string().uuid('First option ID must be a valid UUID'),
-      z.string().uuid('Second option ID must be a valid UUID'),
-    ])
-    .refine((ids) => ids[0] !== ids[1], {
+    .array(z.string().uuid('Each option ID must be a valid UUID'))
+    .min(MIN_COMPARE_OPTIONS, `At least ${MIN_COMPARE_OPTIONS} options are required`)
+    .max(MAX_COMPARE_OPTIONS, `At most ${MAX_COMPARE_OPTIONS} options can be compared at once`)
+    .refine((ids) => new Set(ids).size === ids.length, {
       message: 'Option IDs must be different',
     }),
 });
@@ -44,6 +157,182 @@ export const CompareRequestSchema = z.object({
  */
 export type ValidatedCompareRequest = z.infer<typeof CompareRequestSchema>;
 
+/**
+ * Bounds on how many constraint scenarios one request may compare.
+ */
+export const MIN_SCENARIOS = 2;
+export const MAX_SCENARIOS = 6;
+
+/**
+ * Zod schema for comparing one option set under several named constraint
+ * scenarios, in the order given.
+ */
+export const ScenarioCompareRequestSchema = z.object({
+  optionIds: CompareRequestSchema.shape.optionIds,
+  scenarios: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .trim()
+          .min(1, 'Scenario name is required')
+          .max(100, 'Scenario name must be at most 100 characters'),
+        constraints: ConstraintsSchema,
+      })
+    )
+    .min(MIN_SCENARIOS, `At least ${MIN_SCENARIOS} scenarios are required`)
+    .max(MAX_SCENARIOS, `At most ${MAX_SCENARIOS} scenarios can be compared at once`)
+    .refine((scenarios) => new Set(scenarios.map((s) => s.name)).size === scenarios.length, {
+      message: 'Scenario names must be different',
+    }),
+});
+
+export type ValidatedScenarioCompareRequest = z.infer<typeof ScenarioCompareRequestSchema>;
+
+/**
+ * Bounds on the recommendation shortlist length.
+ */
+export const DEFAULT_RECOMMENDATION_LIMIT = 5;
+export const MAX_RECOMMENDATION_LIMIT = 20;
+
+/**
+ * Zod schema for recommendation request validation.
+ */
+export const RecommendRequestSchema = z.object({
+  constraints: ConstraintsSchema,
+  category: z.string().trim().min(1, 'category must not be empty').optional(),
+  limit: z
+    .number()
+    .int('limit must be a whole number')
+    .min(1, 'limit must be at least 1')
+    .max(MAX_RECOMMENDATION_LIMIT, `limit must be at most ${MAX_RECOMMENDATION_LIMIT}`)
+    .default(DEFAULT_RECOMMENDATION_LIMIT),
+});
+
+export type ValidatedRecommendRequest = z.infer<typeof RecommendRequestSchema>;
+
+/**
+ * Zod schema for a cost estimate request. Without optionIds the whole
+ * catalog is priced.
+ */
+export const CostRequestSchema = z.object({
+  usage: UsageProfileSchema,
+  optionIds: z
+    .array(z.string().uuid('Each option ID must be a valid UUID'))
+    .min(1, 'optionIds must not be empty')
+    .optional(),
+});
+
+export type ValidatedCostRequest = z.infer<typeof CostRequestSchema>;
+
+/**
+ * Zod schema for a compare response sent back by the client. The response
+ * was produced by POST /api/compare, so only the fields other endpoints
+ * read are checked; everything else passes through untouched.
+ */
+export const CompareResponseSchema = z
+  .object({
+    comparison: z
+      .object({
+        options: z
+          .array(
+            z
+              .object({
+                id: z.string(),
+                name: z.string(),
+                score: z.number(),
+                rank: z.number(),
+                attributes: z.record(z.string(), z.unknown()),
+                budgetFit: z.object({ status: z.string(), reason: z.string() }).passthrough(),
+                integrationFit: z
+                  .object({
+                    score: z.number().nullable(),
+                    integrations: z.array(
+                      z.object({ name: z.string(), supportLevel: z.string() }).passthrough()
+                    ),
+                  })
+                  .passthrough(),
+                disqualified: z.boolean().optional(),
+                disqualifications: z.array(z.string()).optional(),
+              })
+              .passthrough()
+          )
+          .min(MIN_COMPARE_OPTIONS, 'comparison must contain the compared options'),
+        attributeTypes: z.array(z.object({ key: z.string(), name: z.string() }).passthrough()),
+      })
+      .passthrough(),
+    explanation: z
+      .object({
+        summary: z.string(),
+        optionAnalysis: z.array(
+          z
+            .object({
+              optionId: z.string(),
+              strengths: z.array(z.string()),
+              weaknesses: z.array(z.string()),
+              fitReason: z.string(),
+            })
+            .passthrough()
+        ),
+        constraintImpact: z.array(z.object({ constraint: z.string(), impact: z.string() })),
+      })
+      .passthrough(),
+    pivot: z
+      .object({
+        statement: z.string(),
+        factorWinners: z.array(
+          z.object({ factor: z.string(), winners: z.array(z.string()) }).passthrough()
+        ),
+        pairwise: z.array(
+          z.object({ optionA: z.string(), optionB: z.string(), statement: z.string() })
+        ),
+      })
+      .passthrough(),
+    aiEnhanced: z.boolean().optional(),
+    aiAnalysis: z.object({}).passthrough().optional(),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for saving a comparison. The request is held to the same rules
+ * as POST /api/compare; the response is stored as the server returned it.
+ */
+export const SaveComparisonSchema = z.object({
+  request: CompareRequestSchema.extend({
+    additionalContext: z.string().optional(),
+    useAI: z.boolean().optional(),
+  }),
+  response: CompareResponseSchema,
+});
+
+/**
+ * Zod schema for starting a group decision session. The constraints are
+ * shared by everyone; participants supply their own importance ratings.
+ */
+export const CreateSessionSchema = CompareRequestSchema.extend({
+  title: z.string().min(1, 'title is required').max(200, 'title must be at most 200 characters'),
+});
+
+export type ValidatedCreateSessionRequest = z.infer<typeof CreateSessionSchema>;
+
+/**
+ * Zod schema for a participant's submission to a session.
+ */
+export const SessionParticipantSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100, 'name must be at most 100 characters'),
+  attributeWeights: AttributeWeightsSchema,
+  scalabilityPriority: ScalabilityPrioritySchema.optional(),
+});
+
+export type ValidatedSessionParticipant = z.infer<typeof SessionParticipantSchema>;
+
+/**
+ * Zod schema for a participant replacing their ratings; the name is fixed at join time.
+ */
+export const SessionRatingsSchema = SessionParticipantSchema.omit({ name: true });
+
+export type ValidatedSessionRatings = z.infer<typeof SessionRatingsSchema>;
+
 /**
  * Formats Zod validation errors into a readable structure.
  */
@@ -100,6 +389,46 @@ export function validateBody<T>(schema: ZodSchema<T>) {
  */
 export const validateCompareRequest = validateBody(CompareRequestSchema);
 
+/**
+ * Middleware to validate a scenario comparison request body.
+ */
+export const validateScenarioCompareRequest = validateBody(ScenarioCompareRequestSchema);
+
+/**
+ * Middleware to validate recommendation request body.
+ */
+export const validateRecommendRequest = validateBody(RecommendRequestSchema);
+
+/**
+ * Middleware to validate cost estimate request body.
+ */
+export const validateCostRequest = validateBody(CostRequestSchema);
+
+/**
+ * Middleware to validate a compare response body, as sent for export.
+ */
+export const validateCompareResponse = validateBody(CompareResponseSchema);
+
+/**
+ * Middleware to validate a save-comparison request body.
+ */
+export const validateSaveComparisonRequest = validateBody(SaveComparisonSchema);
+
+/**
+ * Middleware to validate a create-session request body.
+ */
+export const validateCreateSessionRequest = validateBody(CreateSessionSchema);
+
+/**
+ * Middleware to validate a session participant body.
+ */
+export const validateSessionParticipant = validateBody(SessionParticipantSchema);
+
+/**
+ * Middleware to validate a participant's replacement ratings.
+ */
+export const validateSessionRatings = validateBody(SessionRatingsSchema);
+
 /**
  * Validates query parameters for UUID format.
  */
@@ -1,54 +1,541 @@
 import { Router, Request, Response } from 'express';
+import { PoolClient } from 'pg';
 import { pool } from '../db/pool';
 import { asyncHandler } from '../middleware/errorHandler';
-import { AppError } from '../types';
+import { authenticate, requireRole } from '../middleware/auth';
+import {
+  ConstraintsSchema,
+  MAX_COMPARE_OPTIONS,
+  MIN_COMPARE_OPTIONS,
+  validateUuidParam,
+} from '../middleware/validation';
+import { AppError, Constraints, TcoEffort, WeightRow } from '../types';
+import {
+  getAttributeTypes,
+  getOptionsByIds,
+  getWeights,
+  getWeightProfiles,
+  getWeightProfileById,
+  getWeightProfileWeights,
+  getUsers,
+  getUserByUsername,
+  createUser,
+  deleteUser,
+} from '../db/queries';
+import { hashPassword, toAuthUser } from '../services/auth';
+import { loadComparisonInput } from '../services/comparisonInput';
+import { previewWeights } from '../services/weightPreview';
 import { z } from 'zod';
 import { generateOptionDetails } from '../services/aiGenerator';
 import { suggestIntegrations, generateOptionDetails as generateOptionDetailsAI } from '../services/aiComparison';
 
 const router = Router();
 
+// Every admin route needs a signed-in user; viewers may only read
+router.use(authenticate, requireRole('viewer'));
+
+const MIN_PASSWORD_LENGTH = 8;
+
 // Validation schemas
+const AttributeInputSchema = z.object({
+  value: z.string(),
+  rating: z.enum(['low', 'medium', 'high']),
+  // Measured value in the attribute type's unit
+  numericValue: z.number().finite().nullable().optional(),
+  // How sure the rating is; leave unset when it is certain
+  confidence: z.enum(['low', 'medium', 'high']).nullable().optional(),
+  // Probability of each rating; overrides confidence when sampling ratings
+  ratingDistribution: z
+    .object({
+      low: z.number().min(0).optional(),
+      medium: z.number().min(0).optional(),
+      high: z.number().min(0).optional(),
+    })
+    .strict()
+    .refine((d) => (d.low ?? 0) + (d.medium ?? 0) + (d.high ?? 0) > 0, {
+      message: 'Rating distribution needs a positive probability for at least one rating',
+    })
+    .nullable()
+    .optional(),
+  description: z.string().optional(),
+});
+
+const CostEstimateSchema = z
+  .object({
+    min: z.number().min(0),
+    typical: z.number().min(0),
+    max: z.number().min(0),
+  })
+  .refine((cost) => cost.min <= cost.typical && cost.typical <= cost.max, {
+    message: 'Cost estimate must satisfy min <= typical <= max',
+  });
+
+const PricingInputSchema = z.object({
+  unit: z.enum(['request', 'gb', 'hour', 'seat', 'month']),
+  // Bounded by the DECIMAL(14,8) and DECIMAL(16,2) columns
+  unitPrice: z.number().min(0).lt(1e6),
+  // Units included free each month
+  freeUnits: z.number().min(0).lt(1e14).optional(),
+  description: z.string().max(200).optional(),
+});
+
+// At most one formula per unit
+const PricingSchema = z
+  .array(PricingInputSchema)
+  .refine((pricing) => new Set(pricing.map((p) => p.unit)).size === pricing.length, {
+    message: 'Pricing can have only one formula per unit',
+  });
+
+type PricingInput = z.infer<typeof PricingInputSchema>;
+
+const IntegrationMappingSchema = z.object({
+  integrationId: z.string().uuid(),
+  supportLevel: z.enum(['native', 'plugin', 'custom']),
+});
+
+// At most one support level per integration
+const IntegrationMappingsSchema = z
+  .array(IntegrationMappingSchema)
+  .refine((mappings) => new Set(mappings.map((m) => m.integrationId)).size === mappings.length, {
+    message: 'Integrations can be listed only once',
+  });
+
+type IntegrationMapping = z.infer<typeof IntegrationMappingSchema>;
+
 const CreateOptionSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().min(1),
   category: z.string().min(1).max(50),
-  attributes: z.object({
-    cost_model: z.object({
-      value: z.string(),
-      rating: z.enum(['low', 'medium', 'high']),
-      description: z.string().optional(),
-    }),
-    scalability: z.object({
-      value: z.string(),
-      rating: z.enum(['low', 'medium', 'high']),
-      description: z.string().optional(),
-    }),
-    complexity: z.object({
-      value: z.string(),
-      rating: z.enum(['low', 'medium', 'high']),
-      description: z.string().optional(),
-    }),
-    maintenance: z.object({
-      value: z.string(),
-      rating: z.enum(['low', 'medium', 'high']),
-      description: z.string().optional(),
-    }),
-  }),
-  integrations: z.array(z.string().uuid()).optional(),
+  // Keyed by attribute type; keys are checked against the catalog on insert
+  attributes: z.record(z.string(), AttributeInputSchema),
+  costEstimate: CostEstimateSchema.optional(),
+  pricing: PricingSchema.optional(),
+  // Only the integrations listed are mapped to the option
+  integrations: IntegrationMappingsSchema.optional(),
+});
+
+// PUT replaces the option: attributes left out are removed, as are an omitted
+// cost estimate, omitted pricing and omitted integration mappings
+const ReplaceOptionSchema = CreateOptionSchema;
+
+// PATCH changes only what is sent: a null attribute removes it, a null cost
+// estimate clears it, and pricing or integrations (if sent) replace every
+// formula or mapping
+const PatchOptionSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().min(1).optional(),
+  category: z.string().min(1).max(50).optional(),
+  attributes: z.record(z.string(), AttributeInputSchema.nullable()).optional(),
+  costEstimate: CostEstimateSchema.nullable().optional(),
+  pricing: PricingSchema.nullable().optional(),
+  integrations: IntegrationMappingsSchema.nullable().optional(),
 });
 
+type OptionChanges = z.infer<typeof PatchOptionSchema>;
+
 const CreateIntegrationSchema = z.object({
   name: z.string().min(1).max(100),
   category: z.string().min(1).max(50),
 });
 
+const UpdateIntegrationSchema = CreateIntegrationSchema.partial();
+
+const AttributeTypeFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  icon: z.string().min(1).max(16).optional(),
+  direction: z.enum(['higher_is_better', 'lower_is_better']).optional(),
+  strengthText: z.string().max(200).optional(),
+  weaknessText: z.string().max(200).optional(),
+  unit: z.string().min(1).max(20).optional(),
+  // Effort its ratings stand for in the cost of ownership projection; null clears it
+  tcoEffort: z.enum(['maintenance', 'setup']).nullable().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const CreateAttributeTypeSchema = AttributeTypeFieldsSchema.extend({
+  key: z
+    .string()
+    .max(50)
+    .regex(/^[a-z][a-z0-9_]*$/, 'Key must be snake_case'),
+  // Base weight of the new attribute in the comparison score
+  defaultWeight: z.number().min(0).max(1).optional(),
+});
+
+const UpdateAttributeTypeSchema = AttributeTypeFieldsSchema.partial();
+
+// DECIMAL(3,2) columns hold at most 9.99
+const MAX_SCALABILITY_MODIFIER = 9.99;
+
+/**
+ * A non-negative number that fits a DECIMAL(3,2) column without rounding.
+ */
+function decimalSchema(max: number) {
+  return z
+    .number()
+    .min(0)
+    .max(max)
+    .refine((n) => Math.abs(n * 100 - Math.round(n * 100)) < 1e-9, {
+      message: 'At most two decimal places are allowed',
+    });
+}
+
+const WeightInputSchema = z.object({
+  defaultWeight: decimalSchema(1),
+  scalabilityLowModifier: decimalSchema(MAX_SCALABILITY_MODIFIER).optional(),
+  scalabilityMediumModifier: decimalSchema(MAX_SCALABILITY_MODIFIER).optional(),
+  scalabilityHighModifier: decimalSchema(MAX_SCALABILITY_MODIFIER).optional(),
+});
+
+const INVALID_WEIGHTS_MESSAGE =
+  `Invalid weights: weights must be between 0 and 1, modifiers between 0 and ${MAX_SCALABILITY_MODIFIER}, with at most two decimals`;
+
+const INVALID_WEIGHT_PROFILE_MESSAGE =
+  `Invalid weight profile data: name is required, weights must be between 0 and 1, modifiers between 0 and ${MAX_SCALABILITY_MODIFIER}, with at most two decimals`;
+
+const WeightProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  // Keyed by attribute type; attribute types left out use the default weights
+  weights: z.record(z.string(), WeightInputSchema),
+});
+
+const UpdateWeightsSchema = z.object({
+  // Keyed by attribute type; attribute types left out keep their weights
+  weights: z.record(z.string(), WeightInputSchema),
+});
+
+const PreviewWeightsSchema = UpdateWeightsSchema.extend({
+  // Sample comparison to score under the current and proposed weights
+  optionIds: z.array(z.string().uuid()).min(MIN_COMPARE_OPTIONS).max(MAX_COMPARE_OPTIONS),
+  constraints: ConstraintsSchema.optional(),
+});
+
+// Constraints for a weight preview that doesn't supply its own (the UI's defaults)
+const SAMPLE_CONSTRAINTS: Constraints = {
+  budgetMin: 0,
+  budgetMax: 5000,
+  scalabilityPriority: 'medium',
+  requiredIntegrations: [],
+  integrationMode: 'lenient',
+};
+
+const CreateUserSchema = z.object({
+  username: z.string().min(1).max(50),
+  password: z.string().min(MIN_PASSWORD_LENGTH),
+  role: z.enum(['viewer', 'editor', 'admin']),
+});
+
+// Weight given to newly created attribute types unless one is supplied
+const DEFAULT_ATTRIBUTE_WEIGHT = 0.25;
+
+/**
+ * Query parameters for an attribute row, after option ID and attribute type.
+ */
+function toAttributeParams(attr: z.infer<typeof AttributeInputSchema>) {
+  return [
+    attr.value,
+    attr.rating,
+    attr.numericValue ?? null,
+    attr.confidence ?? null,
+    attr.ratingDistribution ? JSON.stringify(attr.ratingDistribution) : null,
+    attr.description || null,
+  ];
+}
+
+/**
+ * Writes a weight profile and replaces its weights in one transaction.
+ * Creates the profile when no ID is given; returns the profile's ID.
+ */
+async function saveWeightProfile(
+  id: string | null,
+  profile: z.infer<typeof WeightProfileSchema>
+): Promise<string> {
+  await assertKnownAttributeTypes(Object.keys(profile.weights));
+
+  const existing = await pool.query(
+    'SELECT id FROM weight_profiles WHERE lower(name) = lower($1) AND id IS DISTINCT FROM $2',
+    [profile.name, id]
+  );
+  if (existing.rowCount && existing.rowCount > 0) {
+    throw new AppError(`Weight profile already exists: ${profile.name}`, 409, 'CONFLICT');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = id
+      ? await client.query(
+          'UPDATE weight_profiles SET name = $2, description = $3 WHERE id = $1 RETURNING id',
+          [id, profile.name, profile.description ?? null]
+        )
+      : await client.query(
+          'INSERT INTO weight_profiles (name, description) VALUES ($1, $2) RETURNING id',
+          [profile.name, profile.description ?? null]
+        );
+    if (result.rowCount === 0) {
+      throw new AppError('Weight profile not found', 404, 'NOT_FOUND');
+    }
+    const profileId: string = result.rows[0].id;
+
+    await client.query('DELETE FROM weight_profile_weights WHERE profile_id = $1', [profileId]);
+    for (const weight of toWeightRows(profile.weights)) {
+      await client.query(
+        `INSERT INTO weight_profile_weights (profile_id, attribute_type, default_weight,
+           scalability_low_modifier, scalability_medium_modifier, scalability_high_modifier)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          profileId,
+          weight.attribute_type,
+          weight.default_weight,
+          weight.scalability_low_modifier,
+          weight.scalability_medium_modifier,
+          weight.scalability_high_modifier,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+    return profileId;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Weight rows keyed by attribute type, in the shape the admin routes take them.
+ */
+function toWeightInputs(weights: WeightRow[]): Record<string, z.infer<typeof WeightInputSchema>> {
+  return Object.fromEntries(
+    weights.map((w) => [
+      w.attribute_type,
+      {
+        defaultWeight: Number(w.default_weight),
+        scalabilityLowModifier: Number(w.scalability_low_modifier),
+        scalabilityMediumModifier: Number(w.scalability_medium_modifier),
+        scalabilityHighModifier: Number(w.scalability_high_modifier),
+      },
+    ])
+  );
+}
+
+/**
+ * Weight inputs as weight rows. Omitted modifiers keep their value in
+ * `current`, or are 1, as in the database, for attribute types not in it.
+ */
+function toWeightRows(
+  weights: Record<string, z.infer<typeof WeightInputSchema>>,
+  current: WeightRow[] = []
+): WeightRow[] {
+  return Object.entries(weights).map(([attrType, weight]) => {
+    const existing = current.find((w) => w.attribute_type === attrType);
+    return {
+      id: '',
+      attribute_type: attrType,
+      default_weight: weight.defaultWeight,
+      scalability_low_modifier: weight.scalabilityLowModifier ?? Number(existing?.scalability_low_modifier ?? 1),
+      scalability_medium_modifier:
+        weight.scalabilityMediumModifier ?? Number(existing?.scalability_medium_modifier ?? 1),
+      scalability_high_modifier: weight.scalabilityHighModifier ?? Number(existing?.scalability_high_modifier ?? 1),
+    };
+  });
+}
+
+/**
+ * A weight profile with its weights keyed by attribute type, as the admin
+ * routes return it.
+ */
+async function toWeightProfileResponse(id: string) {
+  const [profile, weights] = await Promise.all([getWeightProfileById(id), getWeightProfileWeights(id)]);
+  if (!profile) {
+    throw new AppError('Weight profile not found', 404, 'NOT_FOUND');
+  }
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    weights: toWeightInputs(weights),
+  };
+}
+
+/**
+ * Inserts an option's pricing formulas within the caller's transaction.
+ */
+async function insertPricing(client: PoolClient, optionId: string, pricing: PricingInput[]): Promise<void> {
+  for (const p of pricing) {
+    await client.query(
+      `INSERT INTO option_pricing (option_id, unit, unit_price, free_units, description)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [optionId, p.unit, p.unitPrice, p.freeUnits ?? 0, p.description ?? null]
+    );
+  }
+}
+
+/**
+ * Maps an option to the given integrations within the caller's transaction.
+ */
+async function insertIntegrations(
+  client: PoolClient,
+  optionId: string,
+  mappings: IntegrationMapping[]
+): Promise<void> {
+  for (const m of mappings) {
+    await client.query(
+      `INSERT INTO option_integrations (option_id, integration_id, support_level)
+       VALUES ($1, $2, $3)`,
+      [optionId, m.integrationId, m.supportLevel]
+    );
+  }
+}
+
+/**
+ * Rejects integration mappings whose integration does not exist.
+ */
+async function assertKnownIntegrations(mappings: IntegrationMapping[]): Promise<void> {
+  const ids = mappings.map((m) => m.integrationId);
+  const result = await pool.query('SELECT id FROM integrations WHERE id = ANY($1)', [ids]);
+  const knownIds = result.rows.map((row: { id: string }) => row.id);
+  const unknownIds = ids.filter((id) => !knownIds.includes(id));
+  if (unknownIds.length > 0) {
+    throw new AppError(
+      `Unknown integration(s): ${unknownIds.join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+}
+
+/**
+ * Frees an effort held by another attribute type within the caller's
+ * transaction, so `key` can take it over.
+ */
+async function releaseTcoEffort(client: PoolClient, key: string, tcoEffort: TcoEffort): Promise<void> {
+  await client.query(
+    'UPDATE attribute_types SET tco_effort = NULL WHERE tco_effort = $1 AND key <> $2',
+    [tcoEffort, key]
+  );
+}
+
+/**
+ * Rejects attribute keys that are not in the attribute type catalog.
+ */
+async function assertKnownAttributeTypes(keys: string[]): Promise<void> {
+  const knownTypes = (await getAttributeTypes()).map((t) => t.key);
+  const unknownTypes = keys.filter((key) => !knownTypes.includes(key));
+  if (unknownTypes.length > 0) {
+    throw new AppError(
+      `Unknown attribute type(s): ${unknownTypes.join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+}
+
+/**
+ * Applies changes to an option, its attributes, pricing and integration
+ * mappings in one transaction. Attributes are upserted on
+ * (option_id, attribute_type); with replaceAttributes, attributes not in
+ * `changes.attributes` are deleted. Integration mappings are only touched
+ * when `changes.integrations` is sent.
+ */
+async function updateOption(
+  id: string,
+  changes: OptionChanges,
+  replaceAttributes: boolean
+): Promise<void> {
+  const attributes = changes.attributes ?? {};
+  await assertKnownAttributeTypes(Object.keys(attributes));
+  await assertKnownIntegrations(changes.integrations ?? []);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const optionResult = await client.query(
+      `UPDATE options SET
+         name = COALESCE($2, name),
+         description = COALESCE($3, description),
+         category = COALESCE($4, category)
+       WHERE id = $1 RETURNING id`,
+      [id, changes.name ?? null, changes.description ?? null, changes.category ?? null]
+    );
+    if (optionResult.rowCount === 0) {
+      throw new AppError('Option not found', 404, 'NOT_FOUND');
+    }
+
+    if (changes.costEstimate !== undefined) {
+      await client.query(
+        `UPDATE options SET monthly_cost_min = $2, monthly_cost_typical = $3, monthly_cost_max = $4
+         WHERE id = $1`,
+        [
+          id,
+          changes.costEstimate?.min ?? null,
+          changes.costEstimate?.typical ?? null,
+          changes.costEstimate?.max ?? null,
+        ]
+      );
+    }
+
+    if (changes.pricing !== undefined) {
+      await client.query('DELETE FROM option_pricing WHERE option_id = $1', [id]);
+      await insertPricing(client, id, changes.pricing ?? []);
+    }
+
+    if (changes.integrations !== undefined) {
+      await client.query('DELETE FROM option_integrations WHERE option_id = $1', [id]);
+      await insertIntegrations(client, id, changes.integrations ?? []);
+    }
+
+    for (const [attrType, attr] of Object.entries(attributes)) {
+      if (attr === null) {
+        await client.query(
+          'DELETE FROM attributes WHERE option_id = $1 AND attribute_type = $2',
+          [id, attrType]
+        );
+        continue;
+      }
+      await client.query(
+        `INSERT INTO attributes (option_id, attribute_type, value, rating, numeric_value,
+                                 confidence, rating_distribution, description)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (option_id, attribute_type) DO UPDATE SET
+           value = EXCLUDED.value,
+           rating = EXCLUDED.rating,
+           numeric_value = EXCLUDED.numeric_value,
+           confidence = EXCLUDED.confidence,
+           rating_distribution = EXCLUDED.rating_distribution,
+           description = EXCLUDED.description`,
+        [id, attrType, ...toAttributeParams(attr)]
+      );
+    }
+
+    if (replaceAttributes) {
+      await client.query(
+        'DELETE FROM attributes WHERE option_id = $1 AND NOT (attribute_type = ANY($2))',
+        [id, Object.keys(attributes)]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * POST /api/admin/generate
  * Generate option details using AI
  */
 router.post(
   '/generate',
+  requireRole('editor'),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { name } = req.body;
     
@@ -56,12 +543,21 @@ router.post(
       throw new AppError('Option name is required', 400, 'VALIDATION_ERROR');
     }
 
+    const attributeTypes = await getAttributeTypes();
+
     // Try aiComparison first (uses Groq), fallback to aiGenerator
-    let generated = await generateOptionDetailsAI(name);
+    let generated = await generateOptionDetailsAI(name, attributeTypes);
     if (!generated) {
-      generated = await generateOptionDetails(name);
+      generated = await generateOptionDetails(name, attributeTypes);
     }
-    res.json(generated);
+
+    // Generated ratings are guesses, so they start out with low confidence
+    res.json({
+      ...generated,
+      attributes: Object.fromEntries(
+        Object.entries(generated.attributes ?? {}).map(([key, attr]) => [key, { ...attr, confidence: 'low' }])
+      ),
+    });
   })
 );
 
@@ -71,6 +567,7 @@ router.post(
  */
 router.post(
   '/suggest-integrations',
+  requireRole('editor'),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { optionName, useCase } = req.body;
     
@@ -92,12 +589,34 @@ router.get(
   asyncHandler(async (_req: Request, res: Response): Promise<void> => {
     const optionsResult = await pool.query(`
       SELECT o.id, o.name, o.description, o.category, o.created_at,
+        o.monthly_cost_min, o.monthly_cost_typical, o.monthly_cost_max,
         json_agg(json_build_object(
           'type', a.attribute_type,
           'value', a.value,
           'rating', a.rating,
+          'numericValue', a.numeric_value,
+          'confidence', a.confidence,
+          'ratingDistribution', a.rating_distribution,
           'description', a.description
-        )) as attributes
+        )) as attributes,
+        COALESCE((
+          SELECT json_agg(json_build_object(
+            'unit', p.unit,
+            'unitPrice', p.unit_price,
+            'freeUnits', p.free_units,
+            'description', p.description
+          ) ORDER BY p.unit)
+          FROM option_pricing p
+          WHERE p.option_id = o.id
+        ), '[]') as pricing,
+        COALESCE((
+          SELECT json_agg(json_build_object(
+            'integrationId', oi.integration_id,
+            'supportLevel', oi.support_level
+          ))
+          FROM option_integrations oi
+          WHERE oi.option_id = o.id
+        ), '[]') as integrations
       FROM options o
       LEFT JOIN attributes a ON o.id = a.option_id
       GROUP BY o.id
@@ -114,13 +633,17 @@ router.get(
  */
 router.post(
   '/options',
+  requireRole('editor'),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const validation = CreateOptionSchema.safeParse(req.body);
     if (!validation.success) {
       throw new AppError('Invalid option data', 400, 'VALIDATION_ERROR');
     }
 
-    const { name, description, category, attributes, integrations } = validation.data;
+    const { name, description, category, attributes, costEstimate, pricing, integrations } = validation.data;
+
+    await assertKnownAttributeTypes(Object.keys(attributes));
+    await assertKnownIntegrations(integrations ?? []);
 
     const client = await pool.connect();
     try {
@@ -128,24 +651,31 @@ router.post(
 
       // Insert option
       const optionResult = await client.query(
-        'INSERT INTO options (name, description, category) VALUES ($1, $2, $3) RETURNING id',
-        [name, description, category]
+        `INSERT INTO options (name, description, category, monthly_cost_min, monthly_cost_typical, monthly_cost_max)
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+        [
+          name,
+          description,
+          category,
+          costEstimate?.min ?? null,
+          costEstimate?.typical ?? null,
+          costEstimate?.max ?? null,
+        ]
       );
       const optionId = optionResult.rows[0].id;
 
       // Insert attributes
       for (const [attrType, attr] of Object.entries(attributes)) {
         await client.query(
-          'INSERT INTO attributes (option_id, attribute_type, value, rating, description) VALUES ($1, $2, $3, $4, $5)',
-          [optionId, attrType, attr.value, attr.rating, attr.description || null]
+          `INSERT INTO attributes (option_id, attribute_type, value, rating, numeric_value,
+                                   confidence, rating_distribution, description)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [optionId, attrType, ...toAttributeParams(attr)]
         );
       }
 
-      // Auto-add ALL existing integrations to new option
-      await client.query(`
-        INSERT INTO option_integrations (option_id, integration_id, support_level)
-        SELECT $1, id, 'native' FROM integrations
-      `, [optionId]);
+      await insertPricing(client, optionId, pricing ?? []);
+      await insertIntegrations(client, optionId, integrations ?? []);
 
       await client.query('COMMIT');
 
@@ -159,12 +689,64 @@ router.post(
   })
 );
 
+/**
+ * PUT /api/admin/options/:id
+ * Replace an option's details and attributes
+ */
+router.put(
+  '/options/:id',
+  requireRole('editor'),
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = ReplaceOptionSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError('Invalid option data', 400, 'VALIDATION_ERROR');
+    }
+
+    const { costEstimate, pricing, integrations, ...rest } = validation.data;
+    await updateOption(
+      req.params.id,
+      {
+        ...rest,
+        costEstimate: costEstimate ?? null,
+        pricing: pricing ?? null,
+        integrations: integrations ?? null,
+      },
+      true
+    );
+
+    res.json({ id: req.params.id, message: 'Option updated successfully' });
+  })
+);
+
+/**
+ * PATCH /api/admin/options/:id
+ * Update some of an option's details or attributes
+ */
+router.patch(
+  '/options/:id',
+  requireRole('editor'),
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = PatchOptionSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError('Invalid option data', 400, 'VALIDATION_ERROR');
+    }
+
+    await updateOption(req.params.id, validation.data, false);
+
+    res.json({ id: req.params.id, message: 'Option updated successfully' });
+  })
+);
+
 /**
  * DELETE /api/admin/options/:id
  * Delete an option
  */
 router.delete(
   '/options/:id',
+  requireRole('editor'),
+  validateUuidParam('id'),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     
@@ -178,6 +760,380 @@ router.delete(
   })
 );
 
+/**
+ * GET /api/admin/attribute-types
+ * Get the attribute type catalog
+ */
+router.get(
+  '/attribute-types',
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const attributeTypes = await getAttributeTypes();
+    res.json({ attributeTypes });
+  })
+);
+
+/**
+ * POST /api/admin/attribute-types
+ * Add an attribute type to the catalog, along with its scoring weight
+ */
+router.post(
+  '/attribute-types',
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = CreateAttributeTypeSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError('Invalid attribute type data', 400, 'VALIDATION_ERROR');
+    }
+
+    const {
+      key,
+      name,
+      description,
+      icon,
+      direction,
+      strengthText,
+      weaknessText,
+      unit,
+      tcoEffort,
+      sortOrder,
+      defaultWeight,
+    } = validation.data;
+
+    const existing = await pool.query('SELECT key FROM attribute_types WHERE key = $1', [key]);
+    if (existing.rowCount && existing.rowCount > 0) {
+      throw new AppError(`Attribute type already exists: ${key}`, 409, 'CONFLICT');
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      if (tcoEffort) {
+        await releaseTcoEffort(client, key, tcoEffort);
+      }
+
+      const result = await client.query(
+        `INSERT INTO attribute_types (key, name, description, icon, direction, strength_text, weakness_text, unit,
+                                      tco_effort, sort_order)
+         VALUES ($1, $2, $3, COALESCE($4, '📊'), COALESCE($5, 'higher_is_better'), $6, $7, $8, $9,
+                 COALESCE($10, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM attribute_types)))
+         RETURNING *`,
+        [
+          key,
+          name,
+          description ?? null,
+          icon ?? null,
+          direction ?? null,
+          strengthText ?? null,
+          weaknessText ?? null,
+          unit ?? null,
+          tcoEffort ?? null,
+          sortOrder ?? null,
+        ]
+      );
+
+      await client.query(
+        `INSERT INTO weights (attribute_type, default_weight)
+         VALUES ($1, $2)
+         ON CONFLICT (attribute_type) DO NOTHING`,
+        [key, defaultWeight ?? DEFAULT_ATTRIBUTE_WEIGHT]
+      );
+
+      await client.query('COMMIT');
+
+      res.status(201).json({ attributeType: result.rows[0], message: 'Attribute type created successfully' });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+/**
+ * PUT /api/admin/attribute-types/:key
+ * Update an attribute type's display fields (the key itself is immutable)
+ */
+router.put(
+  '/attribute-types/:key',
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { key } = req.params;
+    const validation = UpdateAttributeTypeSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError('Invalid attribute type data', 400, 'VALIDATION_ERROR');
+    }
+
+    const { name, description, icon, direction, strengthText, weaknessText, unit, tcoEffort, sortOrder } =
+      validation.data;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      if (tcoEffort) {
+        await releaseTcoEffort(client, key, tcoEffort);
+      }
+
+      // tco_effort is only changed when sent, and null clears it
+      const result = await client.query(
+        `UPDATE attribute_types SET
+           name = COALESCE($2, name),
+           description = COALESCE($3, description),
+           icon = COALESCE($4, icon),
+           direction = COALESCE($5, direction),
+           strength_text = COALESCE($6, strength_text),
+           weakness_text = COALESCE($7, weakness_text),
+           unit = COALESCE($8, unit),
+           sort_order = COALESCE($9, sort_order),
+           tco_effort = CASE WHEN $10 THEN $11 ELSE tco_effort END
+         WHERE key = $1
+         RETURNING *`,
+        [
+          key,
+          name ?? null,
+          description ?? null,
+          icon ?? null,
+          direction ?? null,
+          strengthText ?? null,
+          weaknessText ?? null,
+          unit ?? null,
+          sortOrder ?? null,
+          tcoEffort !== undefined,
+          tcoEffort ?? null,
+        ]
+      );
+      if (result.rowCount === 0) {
+        throw new AppError('Attribute type not found', 404, 'NOT_FOUND');
+      }
+
+      await client.query('COMMIT');
+
+      res.json({ attributeType: result.rows[0], message: 'Attribute type updated successfully' });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  })
+);
+
+/**
+ * DELETE /api/admin/attribute-types/:key
+ * Delete an attribute type, its weight, and every option's value for it
+ */
+router.delete(
+  '/attribute-types/:key',
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { key } = req.params;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Option attribute values go with it via ON DELETE CASCADE
+      const result = await client.query(
+        'DELETE FROM attribute_types WHERE key = $1 RETURNING key',
+        [key]
+      );
+      if (result.rowCount === 0) {
+        throw new AppError('Attribute type not found', 404, 'NOT_FOUND');
+      }
+
+      await client.query('DELETE FROM weights WHERE attribute_type = $1', [key]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    res.json({ message: 'Attribute type deleted successfully' });
+  })
+);
+
+/**
+ * GET /api/admin/weights
+ * Get the default weight and scalability modifiers of every attribute type
+ */
+router.get(
+  '/weights',
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const weights = await getWeights();
+    res.json({ weights: toWeightInputs(weights) });
+  })
+);
+
+/**
+ * PUT /api/admin/weights
+ * Set the default weights of the attribute types sent; others are unchanged
+ */
+router.put(
+  '/weights',
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = UpdateWeightsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(INVALID_WEIGHTS_MESSAGE, 400, 'VALIDATION_ERROR');
+    }
+
+    const { weights } = validation.data;
+    await assertKnownAttributeTypes(Object.keys(weights));
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Modifiers left out keep their stored value, or default to 1 on insert
+      for (const [attrType, weight] of Object.entries(weights)) {
+        await client.query(
+          `INSERT INTO weights (attribute_type, default_weight,
+             scalability_low_modifier, scalability_medium_modifier, scalability_high_modifier)
+           VALUES ($1, $2, COALESCE($3::numeric, 1), COALESCE($4::numeric, 1), COALESCE($5::numeric, 1))
+           ON CONFLICT (attribute_type) DO UPDATE SET
+             default_weight = EXCLUDED.default_weight,
+             scalability_low_modifier = COALESCE($3, weights.scalability_low_modifier),
+             scalability_medium_modifier = COALESCE($4, weights.scalability_medium_modifier),
+             scalability_high_modifier = COALESCE($5, weights.scalability_high_modifier)`,
+          [
+            attrType,
+            weight.defaultWeight,
+            weight.scalabilityLowModifier ?? null,
+            weight.scalabilityMediumModifier ?? null,
+            weight.scalabilityHighModifier ?? null,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    res.json({ weights: toWeightInputs(await getWeights()), message: 'Weights updated successfully' });
+  })
+);
+
+/**
+ * POST /api/admin/weights/preview
+ * Score a sample comparison under the current and the proposed default
+ * weights without saving anything
+ */
+router.post(
+  '/weights/preview',
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = PreviewWeightsSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(
+        `${INVALID_WEIGHTS_MESSAGE}; preview ${MIN_COMPARE_OPTIONS}-${MAX_COMPARE_OPTIONS} options`,
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    const { weights, optionIds, constraints } = validation.data;
+    await assertKnownAttributeTypes(Object.keys(weights));
+
+    const options = await getOptionsByIds(optionIds);
+    if (options.length !== optionIds.length) {
+      throw new AppError('Option(s) not found', 404, 'NOT_FOUND');
+    }
+
+    // Profiles would mask the default weights being previewed
+    const input = await loadComparisonInput(
+      { ...(constraints ?? SAMPLE_CONSTRAINTS), weightProfileId: undefined },
+      options
+    );
+
+    res.json(previewWeights(input, toWeightRows(weights, input.weights)));
+  })
+);
+
+/**
+ * GET /api/admin/weight-profiles
+ * Get the weight profiles with their weights
+ */
+router.get(
+  '/weight-profiles',
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const profiles = await getWeightProfiles();
+    const weightProfiles = await Promise.all(profiles.map((p) => toWeightProfileResponse(p.id)));
+    res.json({ weightProfiles });
+  })
+);
+
+/**
+ * POST /api/admin/weight-profiles
+ * Create a weight profile
+ */
+router.post(
+  '/weight-profiles',
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = WeightProfileSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(INVALID_WEIGHT_PROFILE_MESSAGE, 400, 'VALIDATION_ERROR');
+    }
+
+    const id = await saveWeightProfile(null, validation.data);
+
+    res.status(201).json({
+      weightProfile: await toWeightProfileResponse(id),
+      message: 'Weight profile created successfully',
+    });
+  })
+);
+
+/**
+ * PUT /api/admin/weight-profiles/:id
+ * Replace a weight profile's name, description and weights
+ */
+router.put(
+  '/weight-profiles/:id',
+  requireRole('admin'),
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = WeightProfileSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(INVALID_WEIGHT_PROFILE_MESSAGE, 400, 'VALIDATION_ERROR');
+    }
+
+    await saveWeightProfile(req.params.id, validation.data);
+
+    res.json({
+      weightProfile: await toWeightProfileResponse(req.params.id),
+      message: 'Weight profile updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/admin/weight-profiles/:id
+ * Delete a weight profile and its weights
+ */
+router.delete(
+  '/weight-profiles/:id',
+  requireRole('admin'),
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await pool.query('DELETE FROM weight_profiles WHERE id = $1 RETURNING id', [req.params.id]);
+
+    if (result.rowCount === 0) {
+      throw new AppError('Weight profile not found', 404, 'NOT_FOUND');
+    }
+
+    res.json({ message: 'Weight profile deleted successfully' });
+  })
+);
+
 /**
  * GET /api/admin/integrations
  * Get all integrations
@@ -192,10 +1148,11 @@ router.get(
 
 /**
  * POST /api/admin/integrations
- * Create a new integration
+ * Create a new integration; options are mapped to it through the option routes
  */
 router.post(
   '/integrations',
+  requireRole('editor'),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const validation = CreateIntegrationSchema.safeParse(req.body);
     if (!validation.success) {
@@ -209,22 +1166,48 @@ router.post(
       [name, category]
     );
 
-    // Add this integration to all existing options
-    await pool.query(`
-      INSERT INTO option_integrations (option_id, integration_id, support_level)
-      SELECT id, $1, 'native' FROM options
-    `, [result.rows[0].id]);
-
     res.status(201).json({ id: result.rows[0].id, message: 'Integration created successfully' });
   })
 );
 
+/**
+ * PATCH /api/admin/integrations/:id
+ * Rename or recategorize an integration; option mappings are kept
+ */
+router.patch(
+  '/integrations/:id',
+  requireRole('editor'),
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = UpdateIntegrationSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError('Invalid integration data', 400, 'VALIDATION_ERROR');
+    }
+
+    const { name, category } = validation.data;
+
+    const result = await pool.query(
+      `UPDATE integrations SET name = COALESCE($2, name), category = COALESCE($3, category)
+       WHERE id = $1 RETURNING id, name, category`,
+      [req.params.id, name ?? null, category ?? null]
+    );
+
+    if (result.rowCount === 0) {
+      throw new AppError('Integration not found', 404, 'NOT_FOUND');
+    }
+
+    res.json({ integration: result.rows[0], message: 'Integration updated successfully' });
+  })
+);
+
 /**
  * DELETE /api/admin/integrations/:id
  * Delete an integration
  */
 router.delete(
   '/integrations/:id',
+  requireRole('editor'),
+  validateUuidParam('id'),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     
@@ -238,4 +1221,68 @@ router.delete(
   })
 );
 
+/**
+ * GET /api/admin/users
+ * List user accounts
+ */
+router.get(
+  '/users',
+  requireRole('admin'),
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const users = await getUsers();
+    res.json({ users: users.map(toAuthUser) });
+  })
+);
+
+/**
+ * POST /api/admin/users
+ * Create a user account
+ */
+router.post(
+  '/users',
+  requireRole('admin'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const validation = CreateUserSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw new AppError(
+        `Invalid user data: username is required, password needs at least ${MIN_PASSWORD_LENGTH} characters, role must be viewer, editor or admin`,
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    const { username, password, role } = validation.data;
+
+    if (await getUserByUsername(username)) {
+      throw new AppError(`User already exists: ${username}`, 409, 'CONFLICT');
+    }
+
+    const user = await createUser(username, await hashPassword(password), role);
+    res.status(201).json({ user: toAuthUser(user), message: 'User created successfully' });
+  })
+);
+
+/**
+ * DELETE /api/admin/users/:id
+ * Delete a user account and end its sessions
+ */
+router.delete(
+  '/users/:id',
+  requireRole('admin'),
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (id === req.user?.id) {
+      throw new AppError('You cannot delete your own account', 400, 'VALIDATION_ERROR');
+    }
+
+    if (!(await deleteUser(id))) {
+      throw new AppError('User not found', 404, 'NOT_FOUND');
+    }
+
+    res.json({ message: 'User deleted successfully' });
+  })
+);
+
 export default router;
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validation';
+import { authenticate } from '../middleware/auth';
+import { login, logout } from '../services/auth';
+import { clearLoginFailures, getLoginRetryAfter, recordLoginFailure } from '../services/loginThrottle';
+import { AppError } from '../types';
+
+const router = Router();
+
+const LoginSchema = z.object({
+  username: z.string().min(1, 'username is required'),
+  password: z.string().min(1, 'password is required'),
+});
+
+/**
+ * POST /api/auth/login
+ * Exchanges a username and password for a session token.
+ * Send the token as "Authorization: Bearer <token>" on admin requests.
+ * Repeated failures for a username or from an IP are refused with 429
+ * until the window passes.
+ */
+router.post(
+  '/login',
+  validateBody(LoginSchema),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { username, password } = req.body as z.infer<typeof LoginSchema>;
+    const ip = req.ip ?? 'unknown';
+
+    const retryAfter = getLoginRetryAfter(ip, username);
+    if (retryAfter !== null) {
+      res.set('Retry-After', String(retryAfter));
+      throw new AppError(
+        `Too many failed sign-in attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s)`,
+        429,
+        'RATE_LIMITED'
+      );
+    }
+
+    const session = await login(username, password);
+    if (!session) {
+      recordLoginFailure(ip, username);
+      throw new AppError('Invalid username or password', 401, 'UNAUTHORIZED');
+    }
+    clearLoginFailures(username);
+
+    res.json(session);
+  })
+);
+
+/**
+ * POST /api/auth/logout
+ * Ends the current session.
+ */
+router.post(
+  '/logout',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.authToken) {
+      throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
+    }
+    await logout(req.authToken);
+    res.status(204).end();
+  })
+);
+
+/**
+ * GET /api/auth/me
+ * Returns the signed-in user.
+ */
+router.get(
+  '/me',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    res.json({ user: req.user });
+  })
+);
+
+export default router;
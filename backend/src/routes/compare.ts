@@ -1,24 +1,71 @@
 import { Router, Request, Response } from 'express';
-import {
-  getOptionsByIds,
-  getAttributesByOptionIds,
-  getWeights,
-  getOptionIntegrationsByOptionIds,
-} from '../db/queries';
-import { compare } from '../services/comparisonEngine';
+import { getOptionsByIds } from '../db/queries';
+import { compare, ComparisonEngineInput } from '../services/comparisonEngine';
+import { assertIntegrationsMet, loadComparisonInput } from '../services/comparisonInput';
+import { analyzeSensitivity } from '../services/sensitivityAnalysis';
+import { simulate } from '../services/monteCarlo';
+import { projectTco } from '../services/tcoProjection';
+import { buildScenarioGrid, ScenarioRun } from '../services/scenarioComparison';
+import { renderDecisionRecord } from '../services/decisionRecord';
 import { generate, generatePivot } from '../services/explanationGenerator';
 import { enhanceWithAI, generateFullAIComparison } from '../services/aiComparison';
-import { validateCompareRequest, ValidatedCompareRequest } from '../middleware/validation';
+import {
+  validateCompareRequest,
+  validateCompareResponse,
+  validateScenarioCompareRequest,
+  ValidatedCompareRequest,
+  ValidatedScenarioCompareRequest,
+} from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
-import { AppError, CompareResponse } from '../types';
+import { AppError, CompareResponse, ComparisonResult, Constraints, ExportFormat } from '../types';
 
 const router = Router();
 
+const EXPORT_FORMATS: ExportFormat[] = ['adr', 'markdown'];
+
+/**
+ * Loads everything the comparison engine needs for the requested options,
+ * runs it, and returns the result with the input it was computed from.
+ * In strict integration mode, an option lacking any required integration
+ * fails the comparison with the missing integrations listed per option.
+ */
+async function runComparison(
+  constraints: Constraints,
+  optionIds: string[]
+): Promise<{ input: ComparisonEngineInput; comparisonResult: ComparisonResult }> {
+  // Fetch options from database
+  const options = await getOptionsByIds(optionIds);
+
+  // Validate that every requested option exists
+  if (options.length !== optionIds.length) {
+    const foundIds = options.map((o) => o.id);
+    const missingIds = optionIds.filter((id) => !foundIds.includes(id));
+    throw new AppError(
+      `Option(s) not found: ${missingIds.join(', ')}`,
+      404,
+      'NOT_FOUND'
+    );
+  }
+
+  // Load what the engine needs and run it
+  const input = await loadComparisonInput(constraints, options);
+  const comparisonResult = compare(input);
+
+  assertIntegrationsMet(comparisonResult, constraints);
+
+  return { input, comparisonResult };
+}
+
 /**
  * POST /api/compare
- * Compares two options based on user constraints.
+ * Compares two or more options based on user constraints.
+ * Options come back ranked by score, best first.
  * Query param: useAI=true for full AI comparison
- * Returns comparison matrix, trade-off explanation, and pivot statement.
+ * Query param: simulate=true to sample uncertain ratings and weights and
+ * add score distributions and win probabilities (always on with useAI,
+ * whose confidence score comes from the simulation)
+ * Returns comparison matrix, trade-off explanation, pivot statement, and a
+ * five-year total cost of ownership projection.
  */
 router.post(
   '/',
@@ -26,53 +73,25 @@ router.post(
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { constraints, optionIds, additionalContext } = req.body as ValidatedCompareRequest & { additionalContext?: string };
     const useAI = req.query.useAI === 'true';
+    const shouldSimulate = useAI || req.query.simulate === 'true';
 
-    // Fetch options from database
-    const options = await getOptionsByIds(optionIds);
-
-    // Validate that both options exist
-    if (options.length !== 2) {
-      const foundIds = options.map((o) => o.id);
-      const missingIds = optionIds.filter((id) => !foundIds.includes(id));
-      throw new AppError(
-        `Option(s) not found: ${missingIds.join(', ')}`,
-        404,
-        'NOT_FOUND'
-      );
-    }
-
-    // Fetch related data
-    const [attributes, weights, optionIntegrations] = await Promise.all([
-      getAttributesByOptionIds(optionIds),
-      getWeights(),
-      getOptionIntegrationsByOptionIds(optionIds),
-    ]);
-
-    // Run comparison engine
-    const comparisonResult = compare({
-      options,
-      attributes,
-      weights,
-      optionIntegrations,
-      constraints,
-    });
-
-    // Check if options were filtered out due to integration requirements
-    if (comparisonResult.options.length < 2) {
-      throw new AppError(
-        'One or both options do not support the required integrations',
-        400,
-        'VALIDATION_ERROR'
-      );
-    }
+    const { input, comparisonResult } = await runComparison(constraints, optionIds);
+    const { attributeTypes, weights } = input;
+    const uncertainty = shouldSimulate ? simulate(input, comparisonResult) : undefined;
+    const tco = projectTco(comparisonResult, constraints.tco);
 
     // Generate explanations
-    const explanation = generate(comparisonResult, constraints);
+    const explanation = generate(comparisonResult, constraints, attributeTypes);
     const pivot = generatePivot(comparisonResult, constraints, weights);
 
     // If useAI=true, do full AI comparison
     if (useAI) {
-      const aiResult = await generateFullAIComparison(comparisonResult, constraints, additionalContext);
+      const aiResult = await generateFullAIComparison(
+        comparisonResult,
+        constraints,
+        uncertainty?.confidence ?? 0,
+        additionalContext
+      );
       
       if (aiResult) {
         const response: CompareResponse = {
@@ -81,7 +100,9 @@ router.post(
             ...explanation,
             summary: aiResult.summary,
             optionAnalysis: explanation.optionAnalysis.map((analysis, index) => {
-              const aiAnalysis = aiResult.detailedAnalysis[index];
+              const aiAnalysis =
+                aiResult.detailedAnalysis.find((a) => a.optionName === analysis.optionName) ??
+                aiResult.detailedAnalysis[index];
               if (aiAnalysis) {
                 return {
                   ...analysis,
@@ -99,6 +120,8 @@ router.post(
           },
           aiEnhanced: true,
           aiAnalysis: aiResult,
+          uncertainty,
+          tco,
         };
         res.json(response);
         return;
@@ -111,10 +134,101 @@ router.post(
       explanation,
       pivot,
       aiEnhanced: false,
+      uncertainty,
+      tco,
     };
 
     res.json(response);
   })
 );
 
+/**
+ * POST /api/compare/sensitivity
+ * Takes the same body as POST /api/compare and reports, per attribute,
+ * the weight range over which the current winner holds and the weights
+ * at which another option takes over.
+ */
+router.post(
+  '/sensitivity',
+  validateCompareRequest,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { constraints, optionIds } = req.body as ValidatedCompareRequest;
+
+    const { input, comparisonResult } = await runComparison(constraints, optionIds);
+
+    res.json(analyzeSensitivity(input, comparisonResult));
+  })
+);
+
+/**
+ * POST /api/compare/scenarios
+ * Runs the same options through the engine once per named constraint
+ * scenario ("today", "10x growth", "budget cut", ...) and returns a
+ * scenario × option score grid, flagging each scenario whose winner
+ * differs from the one before it. A scenario the engine rejects fails the
+ * request with the scenario's name in the message.
+ */
+router.post(
+  '/scenarios',
+  validateScenarioCompareRequest,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { optionIds, scenarios } = req.body as ValidatedScenarioCompareRequest;
+
+    const runs: ScenarioRun[] = [];
+    for (const scenario of scenarios) {
+      try {
+        const { input, comparisonResult } = await runComparison(scenario.constraints, optionIds);
+        runs.push({
+          name: scenario.name,
+          constraints: scenario.constraints,
+          comparison: comparisonResult,
+          pivot: generatePivot(comparisonResult, scenario.constraints, input.weights),
+        });
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw new AppError(
+            `Scenario "${scenario.name}": ${error.message}`,
+            error.statusCode,
+            error.code,
+            error.details
+          );
+        }
+        throw error;
+      }
+    }
+
+    res.json(buildScenarioGrid(optionIds, runs));
+  })
+);
+
+/**
+ * POST /api/compare/export
+ * Takes a response from POST /api/compare and renders it as a Markdown
+ * document to download.
+ * Query param: format=adr (default) for an Architecture Decision Record,
+ * or format=markdown for a plain comparison report.
+ */
+router.post(
+  '/export',
+  validateCompareResponse,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const format = (req.query.format ?? 'adr') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new AppError(
+        `Unsupported export format: ${String(req.query.format)}. Use one of: ${EXPORT_FORMATS.join(', ')}`,
+        400,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    const document = renderDecisionRecord(req.body as CompareResponse, format);
+    const filename = format === 'adr' ? 'decision-record.md' : 'comparison.md';
+
+    res
+      .attachment(filename)
+      .type('text/markdown; charset=utf-8')
+      .send(document);
+  })
+);
+
 export default router;
@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import { createComparisonRecord, getComparisonRecordById } from '../db/queries';
+import { validateSaveComparisonRequest, validateUuidParam } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  AppError,
+  ComparisonRecordRow,
+  CompareResponse,
+  SavedCompareRequest,
+  SavedComparison,
+} from '../types';
+
+const router = Router();
+
+function toSavedComparison(row: ComparisonRecordRow): SavedComparison {
+  return {
+    id: row.id,
+    request: row.request,
+    response: row.response,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * POST /api/comparisons
+ * Saves a compare request and the full response it produced (including any
+ * AI analysis) so the result can be reopened later by ID.
+ */
+router.post(
+  '/',
+  validateSaveComparisonRequest,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { request, response } = req.body as {
+      request: SavedCompareRequest;
+      response: CompareResponse;
+    };
+
+    const row = await createComparisonRecord(request, response);
+
+    res.status(201).json(toSavedComparison(row));
+  })
+);
+
+/**
+ * GET /api/comparisons/:id
+ * Returns a saved comparison exactly as it was stored.
+ */
+router.get(
+  '/:id',
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const row = await getComparisonRecordById(req.params.id);
+
+    if (!row) {
+      throw new AppError(`Comparison not found: ${req.params.id}`, 404, 'NOT_FOUND');
+    }
+
+    res.json(toSavedComparison(row));
+  })
+);
+
+export default router;
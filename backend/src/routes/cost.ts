@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+import { getOptions, getOptionsByIds, getPricingByOptionIds } from '../db/queries';
+import { estimateUsageCost } from '../services/costCalculator';
+import { validateCostRequest, ValidatedCostRequest } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError, CostResponse } from '../types';
+
+const router = Router();
+
+/**
+ * POST /api/cost
+ * Prices options on a monthly usage profile using their pricing formulas,
+ * with a line item per formula. Cheapest first; options without pricing
+ * formulas come last with no cost.
+ */
+router.post(
+  '/',
+  validateCostRequest,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { usage, optionIds } = req.body as ValidatedCostRequest;
+
+    const options = optionIds ? await getOptionsByIds(optionIds) : await getOptions();
+    if (optionIds && options.length !== new Set(optionIds).size) {
+      const foundIds = options.map((o) => o.id);
+      const missingIds = optionIds.filter((id) => !foundIds.includes(id));
+      throw new AppError(`Option(s) not found: ${missingIds.join(', ')}`, 404, 'NOT_FOUND');
+    }
+
+    const pricing = await getPricingByOptionIds(options.map((o) => o.id));
+    const estimates = options
+      .map((option) => estimateUsageCost(option, pricing, usage))
+      .sort((a, b) => (a.monthlyCost ?? Infinity) - (b.monthlyCost ?? Infinity));
+
+    const response: CostResponse = { usage, estimates };
+    res.json(response);
+  })
+);
+
+export default router;
@@ -1,5 +1,11 @@
 import { Router, Request, Response } from 'express';
-import { getOptions, getIntegrations, getOptionIntegrationsByOptionIds } from '../db/queries';
+import {
+  getOptions,
+  getIntegrations,
+  getAttributeTypes,
+  getWeightProfiles,
+  getOptionIntegrationsByOptionIds,
+} from '../db/queries';
 import { asyncHandler } from '../middleware/errorHandler';
 
 const router = Router();
@@ -43,6 +49,48 @@ router.get(
   })
 );
 
+/**
+ * GET /api/options/attribute-types
+ * Returns the attribute type catalog options are rated on, with the
+ * direction and measurement unit of each type.
+ */
+router.get(
+  '/attribute-types',
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const attributeTypes = await getAttributeTypes();
+
+    res.json({
+      attributeTypes: attributeTypes.map((t) => ({
+        key: t.key,
+        name: t.name,
+        description: t.description,
+        icon: t.icon,
+        direction: t.direction,
+        unit: t.unit,
+      })),
+    });
+  })
+);
+
+/**
+ * GET /api/options/weight-profiles
+ * Returns the named weight profiles a comparison can be scored with.
+ */
+router.get(
+  '/weight-profiles',
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const profiles = await getWeightProfiles();
+
+    res.json({
+      weightProfiles: profiles.map((p) => ({
+        id: p.id,
+        name: p.name,
+        description: p.description,
+      })),
+    });
+  })
+);
+
 /**
  * GET /api/options/supported-integrations?optionIds=id1,id2
  * Returns integrations supported by ALL specified options.
@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import { getOptions } from '../db/queries';
+import { loadComparisonInput } from '../services/comparisonInput';
+import { findParetoFrontier } from '../services/paretoFrontier';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError, Constraints } from '../types';
+
+const router = Router();
+
+// Attribute scores don't depend on the constraints; these only let the
+// engine run without rejecting or penalizing anything
+const NEUTRAL_CONSTRAINTS: Constraints = {
+  budgetMin: 0,
+  budgetMax: 0,
+  scalabilityPriority: 'medium',
+  requiredIntegrations: [],
+  integrationMode: 'lenient',
+};
+
+/**
+ * GET /api/pareto?category=compute
+ * Splits the options in a category into the Pareto frontier and the
+ * dominated options, which another option matches or beats on every
+ * attribute, each with a frontier option that dominates it.
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const category = typeof req.query.category === 'string' ? req.query.category.trim() : '';
+    if (!category) {
+      throw new AppError('category query parameter is required', 400, 'VALIDATION_ERROR');
+    }
+
+    const catalog = await getOptions();
+    const options = catalog.filter((o) => o.category.toLowerCase() === category.toLowerCase());
+    if (options.length === 0) {
+      throw new AppError(`No options found in category: ${category}`, 404, 'NOT_FOUND');
+    }
+
+    const input = await loadComparisonInput(NEUTRAL_CONSTRAINTS, options);
+
+    res.json(findParetoFrontier(input, options[0].category));
+  })
+);
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+import { getOptions } from '../db/queries';
+import { loadComparisonInput } from '../services/comparisonInput';
+import { recommend } from '../services/recommender';
+import { validateRecommendRequest, ValidatedRecommendRequest } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError } from '../types';
+
+const router = Router();
+
+/**
+ * POST /api/recommend
+ * Scores every option in the catalog (or in one category) against the
+ * constraints and returns a ranked shortlist with the reasons for each.
+ * Options that break a hard rule, or lack a required integration in
+ * strict mode, are listed under `excluded` instead.
+ */
+router.post(
+  '/',
+  validateRecommendRequest,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { constraints, category, limit } = req.body as ValidatedRecommendRequest;
+
+    const catalog = await getOptions();
+    const options = category
+      ? catalog.filter((o) => o.category.toLowerCase() === category.toLowerCase())
+      : catalog;
+    if (options.length === 0) {
+      throw new AppError(
+        category ? `No options found in category: ${category}` : 'No options found',
+        404,
+        'NOT_FOUND'
+      );
+    }
+
+    const input = await loadComparisonInput(constraints, options);
+
+    res.json(recommend(input, limit));
+  })
+);
+
+export default router;
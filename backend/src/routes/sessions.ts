@@ -0,0 +1,203 @@
+import { Router, Request, Response } from 'express';
+import {
+  createDecisionSession,
+  getAttributeTypes,
+  getDecisionSessionById,
+  getOptionsByIds,
+  getSessionParticipants,
+  addSessionParticipant,
+  updateSessionParticipant,
+} from '../db/queries';
+import { assertIntegrationsMet, loadComparisonInput } from '../services/comparisonInput';
+import { compare } from '../services/comparisonEngine';
+import { decide } from '../services/groupDecision';
+import {
+  validateCreateSessionRequest,
+  validateSessionParticipant,
+  validateSessionRatings,
+  validateUuidParam,
+  ValidatedCreateSessionRequest,
+  ValidatedSessionParticipant,
+  ValidatedSessionRatings,
+} from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  AppError,
+  Constraints,
+  DecisionSession,
+  DecisionSessionRow,
+  SessionParticipant,
+  SessionParticipantRow,
+} from '../types';
+
+const router = Router();
+
+function toSessionParticipant(row: SessionParticipantRow): SessionParticipant {
+  return {
+    id: row.id,
+    name: row.name,
+    attributeWeights: row.attribute_weights,
+    scalabilityPriority: row.scalability_priority,
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+function toDecisionSession(row: DecisionSessionRow, participants: SessionParticipantRow[]): DecisionSession {
+  return {
+    id: row.id,
+    title: row.title,
+    optionIds: row.option_ids,
+    constraints: row.constraints,
+    participants: participants.map(toSessionParticipant),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Rejects importance ratings for attribute types that are not in the catalog.
+ */
+async function assertKnownAttributeTypes(attributeWeights: Record<string, number>): Promise<void> {
+  const attributeTypes = await getAttributeTypes();
+  const unknownWeights = Object.keys(attributeWeights).filter(
+    (key) => !attributeTypes.some((t) => t.key === key)
+  );
+  if (unknownWeights.length > 0) {
+    throw new AppError(
+      `Unknown attribute type(s) in attributeWeights: ${unknownWeights.join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+}
+
+async function getSessionOrThrow(id: string): Promise<DecisionSessionRow> {
+  const session = await getDecisionSessionById(id);
+  if (!session) {
+    throw new AppError(`Decision session not found: ${id}`, 404, 'NOT_FOUND');
+  }
+  return session;
+}
+
+/**
+ * POST /api/sessions
+ * Starts a group decision on a set of options. The constraints are shared;
+ * any importance ratings in them are ignored in favor of the participants'.
+ * The comparison is checked up front, so a session that could never run
+ * (unknown options, missing integrations in strict mode) is rejected.
+ */
+router.post(
+  '/',
+  validateCreateSessionRequest,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { title, constraints, optionIds } = req.body as ValidatedCreateSessionRequest;
+    const shared: Constraints = { ...constraints, attributeWeights: undefined };
+
+    const options = await getOptionsByIds(optionIds);
+    if (options.length !== optionIds.length) {
+      const foundIds = options.map((o) => o.id);
+      const missingIds = optionIds.filter((id) => !foundIds.includes(id));
+      throw new AppError(`Option(s) not found: ${missingIds.join(', ')}`, 404, 'NOT_FOUND');
+    }
+    assertIntegrationsMet(compare(await loadComparisonInput(shared, options)), shared);
+
+    const row = await createDecisionSession(title, optionIds, shared);
+
+    res.status(201).json(toDecisionSession(row, []));
+  })
+);
+
+/**
+ * GET /api/sessions/:id
+ * Returns a session with everyone's submitted ratings.
+ */
+router.get(
+  '/:id',
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const session = await getSessionOrThrow(req.params.id);
+    const participants = await getSessionParticipants(session.id);
+
+    res.json(toDecisionSession(session, participants));
+  })
+);
+
+/**
+ * POST /api/sessions/:id/participants
+ * Joins a session with a participant's importance ratings (and optionally
+ * their scalability priority). The response carries the participant id used
+ * to replace the ratings later; a name already taken in the session is
+ * rejected.
+ */
+router.post(
+  '/:id/participants',
+  validateUuidParam('id'),
+  validateSessionParticipant,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { name, attributeWeights, scalabilityPriority } = req.body as ValidatedSessionParticipant;
+    const session = await getSessionOrThrow(req.params.id);
+    await assertKnownAttributeTypes(attributeWeights);
+
+    const row = await addSessionParticipant(session.id, name, attributeWeights, scalabilityPriority ?? null);
+    if (!row) {
+      throw new AppError(`Participant name already taken in this session: ${name}`, 409, 'CONFLICT');
+    }
+
+    res.status(201).json(toSessionParticipant(row));
+  })
+);
+
+/**
+ * PUT /api/sessions/:id/participants/:participantId
+ * Replaces the ratings of a participant who has joined the session.
+ */
+router.put(
+  '/:id/participants/:participantId',
+  validateUuidParam('id'),
+  validateUuidParam('participantId'),
+  validateSessionRatings,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { attributeWeights, scalabilityPriority } = req.body as ValidatedSessionRatings;
+    const session = await getSessionOrThrow(req.params.id);
+    await assertKnownAttributeTypes(attributeWeights);
+
+    const row = await updateSessionParticipant(
+      session.id,
+      req.params.participantId,
+      attributeWeights,
+      scalabilityPriority ?? null
+    );
+    if (!row) {
+      throw new AppError(`Participant not found: ${req.params.participantId}`, 404, 'NOT_FOUND');
+    }
+
+    res.json(toSessionParticipant(row));
+  })
+);
+
+/**
+ * GET /api/sessions/:id/result
+ * Aggregates the participants' ratings by geometric mean and compares the
+ * session's options with them. Also reports where participants disagree
+ * most and who each participant's ratings alone would pick.
+ */
+router.get(
+  '/:id/result',
+  validateUuidParam('id'),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const session = await getSessionOrThrow(req.params.id);
+    const participants = (await getSessionParticipants(session.id)).map(toSessionParticipant);
+    if (participants.length === 0) {
+      throw new AppError('No participants have submitted ratings yet', 400, 'VALIDATION_ERROR');
+    }
+
+    const options = await getOptionsByIds(session.option_ids);
+    if (options.length < 2) {
+      throw new AppError('Fewer than two of the session\'s options still exist', 404, 'NOT_FOUND');
+    }
+    const input = await loadComparisonInput(session.constraints, options);
+
+    res.json(decide(session.id, input, participants));
+  })
+);
+
+export default router;
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { compare, ComparisonEngineInput } from '../comparisonEngine';
+import { generatePivot } from '../explanationGenerator';
+import { AttributeRow } from '../../types';
+
+const created_at = new Date('2024-01-01T00:00:00Z');
+
+/**
+ * A queue trading latency for durability against a log, scored with the
+ * given default weight per attribute, in catalog order.
+ */
+function pivotInput(weights: Record<string, number>): ComparisonEngineInput {
+  const ratings: Record<string, Record<string, AttributeRow['rating']>> = {
+    queue: { latency: 'high', durability: 'low', tooling: 'medium' },
+    log: { latency: 'low', durability: 'high', tooling: 'medium' },
+  };
+
+  return {
+    options: Object.keys(ratings).map((id) => ({
+      id,
+      name: id.charAt(0).toUpperCase() + id.slice(1),
+      description: '',
+      category: 'messaging',
+      monthly_cost_min: null,
+      monthly_cost_typical: null,
+      monthly_cost_max: null,
+      created_at,
+    })),
+    attributes: Object.entries(ratings).flatMap(([optionId, byKey]) =>
+      Object.entries(byKey).map(([key, rating]) => ({
+        id: `${optionId}-${key}`,
+        option_id: optionId,
+        attribute_type: key,
+        value: rating,
+        rating,
+        numeric_value: null,
+        confidence: null,
+        rating_distribution: null,
+        description: null,
+      }))
+    ),
+    attributeTypes: Object.keys(weights).map((key, index) => ({
+      key,
+      name: key.charAt(0).toUpperCase() + key.slice(1),
+      description: null,
+      icon: '📊',
+      direction: 'higher_is_better' as const,
+      strength_text: null,
+      weakness_text: null,
+      unit: null,
+      tco_effort: null,
+      sort_order: index,
+      created_at,
+    })),
+    weights: Object.entries(weights).map(([key, weight]) => ({
+      id: key,
+      attribute_type: key,
+      default_weight: weight,
+      scalability_low_modifier: 1,
+      scalability_medium_modifier: 1,
+      scalability_high_modifier: 1,
+    })),
+    integrations: [],
+    optionIntegrations: [],
+    constraints: { budgetMin: 0, budgetMax: 0, scalabilityPriority: 'medium', requiredIntegrations: [] },
+  };
+}
+
+describe('generatePivot', () => {
+  it('contrasts the two most heavily weighted attributes in the catalog', () => {
+    const input = pivotInput({ tooling: 0.1, durability: 0.5, latency: 0.6 });
+
+    const pivot = generatePivot(compare(input), input.constraints, input.weights);
+
+    expect(pivot.primaryFactor).toBe('latency');
+    expect(pivot.secondaryFactor).toBe('durability');
+  });
+
+  it('breaks a tie between weights in catalog order', () => {
+    const input = pivotInput({ tooling: 0.4, durability: 0.4, latency: 0.4 });
+
+    const pivot = generatePivot(compare(input), input.constraints, input.weights);
+
+    expect(pivot.primaryFactor).toBe('tooling');
+    expect(pivot.secondaryFactor).toBe('durability');
+  });
+
+  it('follows the user-supplied importance over the default weights', () => {
+    const input = pivotInput({ tooling: 0.1, durability: 0.5, latency: 0.6 });
+    input.constraints.attributeWeights = { tooling: 10 };
+
+    const pivot = generatePivot(compare(input), input.constraints, input.weights);
+
+    expect(pivot.primaryFactor).toBe('tooling');
+    expect(pivot.secondaryFactor).toBe('latency');
+  });
+});
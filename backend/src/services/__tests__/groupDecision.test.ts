@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { ComparisonEngineInput } from '../comparisonEngine';
+import { aggregateAttributeWeights, decide } from '../groupDecision';
+import { AttributeRow, Constraints, SessionParticipant } from '../../types';
+
+const created_at = new Date('2024-01-01T00:00:00Z');
+
+/**
+ * A session comparing Postgres (strong on features) with DynamoDB (strong
+ * on scaling), both rated on every attribute.
+ */
+function sessionInput(scalabilityPriority: Constraints['scalabilityPriority'] = 'medium'): ComparisonEngineInput {
+  const ratings: Record<string, Record<string, AttributeRow['rating']>> = {
+    postgres: { features: 'high', scaling: 'medium' },
+    dynamodb: { features: 'low', scaling: 'high' },
+  };
+
+  return {
+    options: Object.keys(ratings).map((id) => ({
+      id,
+      name: id,
+      description: '',
+      category: 'database',
+      monthly_cost_min: null,
+      monthly_cost_typical: null,
+      monthly_cost_max: null,
+      created_at,
+    })),
+    attributes: Object.entries(ratings).flatMap(([optionId, byKey]) =>
+      Object.entries(byKey).map(([key, rating]) => ({
+        id: `${optionId}-${key}`,
+        option_id: optionId,
+        attribute_type: key,
+        value: rating,
+        rating,
+        numeric_value: null,
+        confidence: null,
+        rating_distribution: null,
+        description: null,
+      }))
+    ),
+    attributeTypes: ['features', 'scaling', 'lock_in'].map((key, index) => ({
+      key,
+      name: key,
+      description: null,
+      icon: '📊',
+      direction: 'higher_is_better' as const,
+      strength_text: null,
+      weakness_text: null,
+      unit: null,
+      tco_effort: null,
+      sort_order: index,
+      created_at,
+    })),
+    weights: ['features', 'scaling'].map((key) => ({
+      id: key,
+      attribute_type: key,
+      default_weight: 0.5,
+      scalability_low_modifier: 1,
+      scalability_medium_modifier: 1,
+      scalability_high_modifier: 1,
+    })),
+    integrations: [],
+    optionIntegrations: [],
+    constraints: { budgetMin: 0, budgetMax: 0, scalabilityPriority, requiredIntegrations: [] },
+  };
+}
+
+function participant(
+  name: string,
+  attributeWeights: Record<string, number>,
+  scalabilityPriority: SessionParticipant['scalabilityPriority'] = null
+): SessionParticipant {
+  return { id: name, name, attributeWeights, scalabilityPriority, updatedAt: '2024-01-01T00:00:00Z' };
+}
+
+describe('aggregateAttributeWeights', () => {
+  it('takes the geometric mean over the participants who rated each attribute', () => {
+    const weights = aggregateAttributeWeights([
+      participant('alice', { features: 8, scaling: 2 }),
+      participant('bob', { features: 2 }),
+    ]);
+
+    expect(weights).toEqual({ features: 4, scaling: 2 });
+  });
+
+  it('lets a single 0 rule an attribute out', () => {
+    const weights = aggregateAttributeWeights([
+      participant('alice', { features: 0 }),
+      participant('bob', { features: 9 }),
+    ]);
+
+    expect(weights).toEqual({ features: 0 });
+  });
+});
+
+describe('decide', () => {
+  it('compares on the combined ratings and flags participants who would pick another winner', () => {
+    const result = decide('session-1', sessionInput(), [
+      participant('alice', { features: 9, scaling: 2 }),
+      participant('bob', { features: 1, scaling: 9 }),
+    ]);
+
+    expect(result.sessionId).toBe('session-1');
+    expect(result.constraints.attributeWeights).toEqual({ features: 3, scaling: 4.2 });
+    expect(result.winner).toBe('postgres');
+    expect(result.participants).toEqual([
+      { name: 'alice', winner: 'postgres', agreesWithGroup: true },
+      { name: 'bob', winner: 'dynamodb', agreesWithGroup: false },
+    ]);
+    expect(result.winnerChangesPerParticipant).toBe(true);
+  });
+
+  it('lists attributes rated by two or more participants, largest spread first', () => {
+    const result = decide('session-1', sessionInput(), [
+      participant('alice', { features: 9, scaling: 2 }),
+      participant('bob', { features: 1, scaling: 9 }),
+      participant('carol', { lock_in: 5 }),
+    ]);
+
+    expect(result.disagreements.map((d) => [d.attributeType, d.spread])).toEqual([
+      ['features', 8],
+      ['scaling', 7],
+    ]);
+    expect(result.disagreements[0].ratings).toEqual({ alice: 9, bob: 1 });
+  });
+
+  it('takes the median scalability priority, rounding ties down', () => {
+    const result = decide('session-1', sessionInput(), [
+      participant('alice', {}, 'high'),
+      participant('bob', {}, 'low'),
+      participant('carol', {}),
+    ]);
+
+    expect(result.constraints.scalabilityPriority).toBe('low');
+  });
+
+  it("keeps the session's scalability priority when nobody gives one", () => {
+    const result = decide('session-1', sessionInput('high'), [participant('alice', { features: 5 })]);
+
+    expect(result.constraints.scalabilityPriority).toBe('high');
+  });
+});
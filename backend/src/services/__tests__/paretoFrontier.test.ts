@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { ComparisonEngineInput } from '../comparisonEngine';
+import { findParetoFrontier } from '../paretoFrontier';
+import { AttributeRow } from '../../types';
+
+type Rating = AttributeRow['rating'];
+
+const created_at = new Date('2024-01-01T00:00:00Z');
+const ATTRIBUTES = ['throughput', 'durability', 'simplicity'];
+
+/**
+ * Message brokers in catalog order, each given as its throughput,
+ * durability and simplicity ratings.
+ */
+function brokers(catalog: Array<[string, Rating, Rating, Rating]>): ComparisonEngineInput {
+  return {
+    options: catalog.map(([id]) => ({
+      id,
+      name: id,
+      description: '',
+      category: 'messaging',
+      monthly_cost_min: null,
+      monthly_cost_typical: null,
+      monthly_cost_max: null,
+      created_at,
+    })),
+    attributes: catalog.flatMap(([id, ...ratings]) =>
+      ratings.map((rating, index) => ({
+        id: `${id}-${ATTRIBUTES[index]}`,
+        option_id: id,
+        attribute_type: ATTRIBUTES[index],
+        value: rating,
+        rating,
+        numeric_value: null,
+        confidence: null,
+        rating_distribution: null,
+        description: null,
+      }))
+    ),
+    attributeTypes: ATTRIBUTES.map((key, index) => ({
+      key,
+      name: key.charAt(0).toUpperCase() + key.slice(1),
+      description: null,
+      icon: '📊',
+      direction: 'higher_is_better' as const,
+      strength_text: null,
+      weakness_text: null,
+      unit: null,
+      tco_effort: null,
+      sort_order: index,
+      created_at,
+    })),
+    weights: ATTRIBUTES.map((key) => ({
+      id: key,
+      attribute_type: key,
+      default_weight: 0.3,
+      scalability_low_modifier: 1,
+      scalability_medium_modifier: 1,
+      scalability_high_modifier: 1,
+    })),
+    integrations: [],
+    optionIntegrations: [],
+    constraints: { budgetMin: 0, budgetMax: 0, scalabilityPriority: 'medium', requiredIntegrations: [] },
+  };
+}
+
+describe('findParetoFrontier', () => {
+  it('splits options into the frontier and the options it dominates', () => {
+    const result = findParetoFrontier(
+      brokers([
+        ['kafka', 'high', 'high', 'low'],
+        ['sqs', 'medium', 'medium', 'high'],
+        ['rabbitmq', 'medium', 'medium', 'medium'],
+      ]),
+      'messaging'
+    );
+
+    expect(result.category).toBe('messaging');
+    expect(result.frontier.map((o) => o.id)).toEqual(['kafka', 'sqs']);
+    expect(result.dominated).toHaveLength(1);
+    expect(result.dominated[0]).toMatchObject({
+      id: 'rabbitmq',
+      dominatedBy: { id: 'sqs', name: 'sqs' },
+      betterOn: ['Simplicity'],
+    });
+  });
+
+  it('names the frontier option that beats the dominated one on the most attributes', () => {
+    // kafka and sqs both dominate redis; kafka is listed first but sqs beats it on more
+    const result = findParetoFrontier(
+      brokers([
+        ['kafka', 'high', 'low', 'low'],
+        ['sqs', 'medium', 'medium', 'medium'],
+        ['redis', 'low', 'low', 'low'],
+      ]),
+      'messaging'
+    );
+
+    expect(result.frontier.map((o) => o.id)).toEqual(['kafka', 'sqs']);
+    expect(result.dominated[0]).toMatchObject({
+      id: 'redis',
+      dominatedBy: { id: 'sqs' },
+      betterOn: ['Throughput', 'Durability', 'Simplicity'],
+    });
+  });
+
+  it('breaks a tie between dominators in catalog order', () => {
+    // Both dominate rabbitmq on two attributes each
+    const result = findParetoFrontier(
+      brokers([
+        ['sqs', 'high', 'low', 'high'],
+        ['kafka', 'high', 'high', 'low'],
+        ['rabbitmq', 'medium', 'low', 'low'],
+      ]),
+      'messaging'
+    );
+
+    expect(result.frontier.map((o) => o.id)).toEqual(['sqs', 'kafka']);
+    expect(result.dominated[0]).toMatchObject({
+      id: 'rabbitmq',
+      dominatedBy: { id: 'sqs' },
+      betterOn: ['Throughput', 'Simplicity'],
+    });
+  });
+
+  it('keeps options that trade one attribute for another on the frontier', () => {
+    const result = findParetoFrontier(
+      brokers([
+        ['kafka', 'high', 'high', 'low'],
+        ['sqs', 'low', 'medium', 'high'],
+      ]),
+      'messaging'
+    );
+
+    expect(result.frontier).toHaveLength(2);
+    expect(result.dominated).toEqual([]);
+  });
+});
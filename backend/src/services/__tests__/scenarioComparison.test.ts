@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { buildScenarioGrid, ScenarioRun } from '../scenarioComparison';
+import { ComparisonResult, OptionComparison, PivotResult } from '../../types';
+
+const PIVOT = { statement: '', factorWinners: [], pairwise: [] } as unknown as PivotResult;
+
+/**
+ * A scenario run whose comparison ranked the options as listed, each given
+ * as [id, score] with a trailing `true` when a rule disqualified it.
+ */
+function run(name: string, ranked: Array<[string, number, boolean?]>): ScenarioRun {
+  const options = ranked.map(([id, score, disqualified = false], index) => ({
+    id,
+    name: id.toUpperCase(),
+    score,
+    rank: index + 1,
+    disqualified,
+    disqualifications: disqualified ? ['breaks a rule'] : [],
+  })) as OptionComparison[];
+
+  return {
+    name,
+    constraints: { budgetMin: 0, budgetMax: 1000, scalabilityPriority: 'medium', requiredIntegrations: [] },
+    comparison: { options } as ComparisonResult,
+    pivot: PIVOT,
+  };
+}
+
+describe('buildScenarioGrid', () => {
+  it("lists options in the requested order with each scenario's scores by option id", () => {
+    const grid = buildScenarioGrid(['b', 'a'], [
+      run('Today', [['a', 80], ['b', 60]]),
+      run('Budget cut', [['a', 70], ['b', 65]]),
+    ]);
+
+    expect(grid.options).toEqual([
+      { id: 'b', name: 'B' },
+      { id: 'a', name: 'A' },
+    ]);
+    expect(grid.scenarios.map((s) => s.scores)).toEqual([
+      { a: 80, b: 60 },
+      { a: 70, b: 65 },
+    ]);
+  });
+
+  it('marks each scenario whose winner differs from the one before it', () => {
+    const grid = buildScenarioGrid(['a', 'b'], [
+      run('Today', [['a', 80], ['b', 60]]),
+      run('10x growth', [['b', 75], ['a', 70]]),
+      run('100x growth', [['b', 90], ['a', 50]]),
+      run('Budget cut', [['a', 85], ['b', 40]]),
+    ]);
+
+    expect(grid.scenarios.map((s) => [s.winner, s.winnerChanged])).toEqual([
+      ['A', false],
+      ['B', true],
+      ['B', false],
+      ['A', true],
+    ]);
+    expect(grid.winnerChanges).toBe(true);
+  });
+
+  it('has no winner when every option is disqualified, and lists them', () => {
+    const grid = buildScenarioGrid(['a', 'b'], [
+      run('Today', [['a', 80], ['b', 60]]),
+      run('Strict', [['a', 80, true], ['b', 60, true]]),
+    ]);
+
+    const strict = grid.scenarios[1];
+    expect(strict.winner).toBeNull();
+    expect(strict.disqualified).toEqual(['a', 'b']);
+    expect(strict.winnerChanged).toBe(true);
+  });
+
+  it('reports no winner change when every scenario picks the same option', () => {
+    const grid = buildScenarioGrid(['a', 'b'], [
+      run('Today', [['a', 80], ['b', 60]]),
+      run('Budget cut', [['a', 55], ['b', 50]]),
+    ]);
+
+    expect(grid.scenarios.every((s) => !s.winnerChanged)).toBe(true);
+    expect(grid.winnerChanges).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DecisionMatrix, SCORING_STRATEGIES, totalScore } from '../scoringStrategies';
+
+const scores = (method: keyof typeof SCORING_STRATEGIES, matrix: DecisionMatrix) =>
+  SCORING_STRATEGIES[method].contributions(matrix).map((points) => points.reduce((sum, p) => sum + p, 0));
+
+describe('totalScore', () => {
+  it('rounds the sum of the points', () => {
+    expect(totalScore([10.4, 20.3])).toBe(31);
+    expect(totalScore([])).toBe(0);
+  });
+});
+
+describe('weighted sum', () => {
+  it('scores the best value on every criterion as 100', () => {
+    const matrix = { criteria: ['x', 'y'], weights: [0.5, 0.5], rows: [[3, 3]] };
+
+    expect(SCORING_STRATEGIES.weighted_sum.contributions(matrix)).toEqual([[50, 50]]);
+  });
+
+  it('averages over the criteria an option has values for', () => {
+    const matrix = { criteria: ['x', 'y'], weights: [0.5, 0.5], rows: [[1, null]] };
+
+    const [points] = SCORING_STRATEGIES.weighted_sum.contributions(matrix);
+
+    expect(points[0]).toBeCloseTo(100 / 3);
+    expect(points[1]).toBe(0);
+  });
+
+  it('scores options independently of each other', () => {
+    const alone = scores('weighted_sum', { criteria: ['x'], weights: [1], rows: [[2]] });
+    const together = scores('weighted_sum', { criteria: ['x'], weights: [1], rows: [[2], [3]] });
+
+    expect(together[0]).toBe(alone[0]);
+  });
+});
+
+describe('TOPSIS', () => {
+  it('puts an option best on every criterion at 100 and one worst on every criterion at 0', () => {
+    const matrix = { criteria: ['x', 'y'], weights: [0.5, 0.5], rows: [[3, 3], [1, 1]] };
+
+    const [best, worst] = scores('topsis', matrix);
+
+    expect(best).toBeCloseTo(100);
+    expect(worst).toBeCloseTo(0);
+  });
+
+  it('scores identical options 50', () => {
+    const matrix = { criteria: ['x'], weights: [1], rows: [[2], [2]] };
+
+    expect(SCORING_STRATEGIES.topsis.contributions(matrix).map(totalScore)).toEqual([50, 50]);
+  });
+
+  it('treats a missing value as neutral', () => {
+    const matrix = { criteria: ['x', 'y'], weights: [0.5, 0.5], rows: [[2, 2], [null, null]] };
+
+    expect(SCORING_STRATEGIES.topsis.contributions(matrix).map(totalScore)).toEqual([50, 50]);
+  });
+});
+
+describe('AHP', () => {
+  it('scores the leading option 100 and the others in proportion to their priority', () => {
+    const matrix = { criteria: ['x', 'y'], weights: [0.5, 0.5], rows: [[3, 3], [1, 1]] };
+
+    const [leader, other] = scores('ahp', matrix);
+
+    // A full-scale gap is a 9:1 preference, so priorities are 0.9 and 0.1
+    expect(leader).toBeCloseTo(100);
+    expect(other).toBeCloseTo(100 / 9);
+  });
+
+  it('scores every option 0 when no criterion has weight', () => {
+    const matrix = { criteria: ['x'], weights: [0], rows: [[3], [1]] };
+
+    expect(scores('ahp', matrix)).toEqual([0, 0]);
+  });
+});
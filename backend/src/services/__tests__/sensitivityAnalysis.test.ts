@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { compare, ComparisonEngineInput } from '../comparisonEngine';
+import { analyzeSensitivity } from '../sensitivityAnalysis';
+import { AttributeRow, AttributeTypeRow, OptionRow, WeightRow } from '../../types';
+
+const created_at = new Date('2024-01-01T00:00:00Z');
+
+// Two options trading speed for price, tied on support
+const OPTIONS: OptionRow[] = [
+  { id: 'fast', name: 'Fast', description: '', category: 'compute', monthly_cost_min: null, monthly_cost_typical: null, monthly_cost_max: null, created_at },
+  { id: 'cheap', name: 'Cheap', description: '', category: 'compute', monthly_cost_min: null, monthly_cost_typical: null, monthly_cost_max: null, created_at },
+];
+
+const RATINGS: Array<[string, string, AttributeRow['rating']]> = [
+  ['fast', 'speed', 'high'],
+  ['fast', 'price', 'low'],
+  ['fast', 'support', 'medium'],
+  ['cheap', 'speed', 'low'],
+  ['cheap', 'price', 'high'],
+  ['cheap', 'support', 'medium'],
+];
+
+/**
+ * The two options scored with the given default weight per attribute, and
+ * medium scalability modifiers where given (1 otherwise).
+ */
+function sweepInput(weights: Record<string, number>, modifiers: Record<string, number> = {}): ComparisonEngineInput {
+  const attributeTypes: AttributeTypeRow[] = Object.keys(weights).map((key, index) => ({
+    key,
+    name: key.charAt(0).toUpperCase() + key.slice(1),
+    description: null,
+    icon: '📊',
+    direction: 'higher_is_better',
+    strength_text: null,
+    weakness_text: null,
+    unit: null,
+    tco_effort: null,
+    sort_order: index,
+    created_at,
+  }));
+  const weightRows: WeightRow[] = Object.entries(weights).map(([key, weight]) => ({
+    id: key,
+    attribute_type: key,
+    default_weight: weight,
+    scalability_low_modifier: 1,
+    scalability_medium_modifier: modifiers[key] ?? 1,
+    scalability_high_modifier: 1,
+  }));
+  const attributes: AttributeRow[] = RATINGS.map(([optionId, key, rating]) => ({
+    id: `${optionId}-${key}`,
+    option_id: optionId,
+    attribute_type: key,
+    value: rating,
+    rating,
+    numeric_value: null,
+    confidence: null,
+    rating_distribution: null,
+    description: null,
+  }));
+
+  return {
+    options: OPTIONS,
+    attributes,
+    attributeTypes,
+    weights: weightRows,
+    integrations: [],
+    optionIntegrations: [],
+    constraints: { budgetMin: 0, budgetMax: 0, scalabilityPriority: 'medium', requiredIntegrations: [] },
+  };
+}
+
+describe('analyzeSensitivity', () => {
+  const input = sweepInput({ speed: 0.7, price: 0.4, support: 0.2 });
+  const result = analyzeSensitivity(input, compare(input));
+  const forAttribute = (key: string) => result.attributes.find((a) => a.attributeType === key)!;
+
+  it('reports the current winner and the weight range explored', () => {
+    expect(result.winner).toBe('Fast');
+    expect(result.weightRange).toEqual({ min: 0, max: 1 });
+  });
+
+  it('finds where lowering the winning attribute hands the lead to another option', () => {
+    const speed = forAttribute('speed');
+
+    expect(speed.baselineWeight).toBe(0.7);
+    expect(speed.upperTip).toBeNull();
+    expect(speed.lowerTip?.newWinner).toBe('Cheap');
+    expect(speed.lowerTip?.weight).toBeCloseTo(0.4, 1);
+    expect(speed.holdsTo).toBe(1);
+    expect(speed.statement).toMatch(/^If speed weight drops below 0\.4\d, choose Cheap$/);
+  });
+
+  it('finds where raising a rival attribute hands the lead to another option', () => {
+    const price = forAttribute('price');
+
+    expect(price.lowerTip).toBeNull();
+    expect(price.upperTip?.newWinner).toBe('Cheap');
+    expect(price.upperTip?.weight).toBeCloseTo(0.7, 1);
+  });
+
+  it('puts attributes that cannot change the winner last', () => {
+    const support = forAttribute('support');
+
+    expect(support.lowerTip).toBeNull();
+    expect(support.upperTip).toBeNull();
+    expect(support.statement).toBe('Fast stays on top whatever weight support is given');
+    expect(result.attributes[result.attributes.length - 1].attributeType).toBe('support');
+  });
+
+  it('tells options apart by id, not by name', () => {
+    const twins = { ...input, options: input.options.map((o) => ({ ...o, name: 'Compute' })) };
+
+    const speed = analyzeSensitivity(twins, compare(twins)).attributes.find((a) => a.attributeType === 'speed')!;
+
+    expect(speed.lowerTip?.weight).toBeCloseTo(0.4, 1);
+  });
+
+  it('searches above 1 when a scalability modifier already takes the weight past it', () => {
+    const boosted = sweepInput({ speed: 0.7, price: 0.4, support: 0.2 }, { speed: 2 });
+
+    const boostedResult = analyzeSensitivity(boosted, compare(boosted));
+    const speed = boostedResult.attributes.find((a) => a.attributeType === 'speed')!;
+
+    expect(speed.baselineWeight).toBe(1.4);
+    expect(speed.holdsTo).toBe(1.4);
+    expect(speed.lowerTip?.newWinner).toBe('Cheap');
+    expect(boostedResult.weightRange).toEqual({ min: 0, max: 1.4 });
+  });
+});
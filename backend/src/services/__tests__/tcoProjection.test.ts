@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { projectTco } from '../tcoProjection';
+import { AttributeTypeSummary, AttributeValue, ComparisonResult, OptionComparison } from '../../types';
+
+type Rating = AttributeValue['rating'];
+
+function attribute(rating: Rating, missing = false): AttributeValue {
+  return {
+    value: missing ? 'N/A' : rating,
+    rating,
+    measurement: null,
+    score: 50,
+    sentiment: 'neutral',
+    icon: '❓',
+    ...(missing ? { missing: true } : {}),
+  };
+}
+
+/**
+ * A compared option with the given typical monthly cost (null for none)
+ * and attributes.
+ */
+function compared(
+  name: string,
+  typical: number | null,
+  attributes: Record<string, AttributeValue>
+): OptionComparison {
+  return {
+    id: name.toLowerCase(),
+    name,
+    description: '',
+    attributes,
+    budgetFit: {
+      status: typical === null ? 'unknown' : 'within',
+      estimate: typical === null ? null : { min: typical, typical, max: typical },
+      penalty: 0,
+      reason: '',
+    },
+    integrationFit: { score: null, integrations: [] },
+    disqualified: false,
+    disqualifications: [],
+    score: 50,
+    contributions: [],
+    rank: 1,
+  } as OptionComparison;
+}
+
+// The catalog marks maintenance for monthly upkeep and complexity for setup
+const ATTRIBUTE_TYPES = [
+  { key: 'maintenance', tcoEffort: 'maintenance' },
+  { key: 'complexity', tcoEffort: 'setup' },
+] as AttributeTypeSummary[];
+
+function comparison(...options: OptionComparison[]): ComparisonResult {
+  return { options, attributeTypes: ATTRIBUTE_TYPES } as ComparisonResult;
+}
+
+describe('projectTco', () => {
+  it('adds setup, infrastructure and maintenance by year', () => {
+    const option = compared('A', 100, { maintenance: attribute('low'), complexity: attribute('low') });
+
+    const [projection] = projectTco(comparison(option), { hourlyRate: 100, annualGrowthRate: 0 }).options;
+
+    // 16 setup hours; 4 maintenance hours and $100 infrastructure a month
+    expect(projection.setupCost).toBe(1600);
+    expect(projection.maintenanceHoursPerMonth).toBe(4);
+    expect(projection.cumulative[0]).toBe(1600);
+    expect(projection.totals).toEqual({ year1: 7600, year3: 19600, year5: 31600 });
+  });
+
+  it('grows infrastructure cost once a year', () => {
+    const option = compared('A', 100, {});
+
+    const [projection] = projectTco(comparison(option), { annualGrowthRate: 0.1 }).options;
+
+    expect(projection.cumulative.slice(0, 3)).toEqual([0, 1200, 2520]);
+  });
+
+  it('charges no hours for attributes the engine filled in as placeholders', () => {
+    const option = compared('A', 100, {
+      maintenance: attribute('medium', true),
+      complexity: attribute('medium', true),
+    });
+
+    const [projection] = projectTco(comparison(option)).options;
+
+    expect(projection.setupCost).toBe(0);
+    expect(projection.maintenanceHoursPerMonth).toBe(0);
+  });
+
+  it('charges no hours when the catalog marks no attribute type for them', () => {
+    const option = compared('A', 100, { maintenance: attribute('high'), complexity: attribute('high') });
+    const unmarked = { options: [option], attributeTypes: [] as AttributeTypeSummary[] } as ComparisonResult;
+
+    const [projection] = projectTco(unmarked).options;
+
+    expect(projection.setupCost).toBe(0);
+    expect(projection.maintenanceHoursPerMonth).toBe(0);
+  });
+
+  it('reports when a cheap-to-run option overtakes a cheap-to-start one', () => {
+    // A: $24,000 setup, $500 a month; B: $1,600 setup, $2,400 a month
+    const a = compared('A', 100, { maintenance: attribute('low'), complexity: attribute('high') });
+    const b = compared('B', 2000, { maintenance: attribute('low'), complexity: attribute('low') });
+
+    const { crossovers } = projectTco(comparison(a, b), { hourlyRate: 100, annualGrowthRate: 0 });
+
+    expect(crossovers).toEqual([{ year: 1, cheaperBefore: 'B', cheaperAfter: 'A' }]);
+  });
+
+  it('leaves options without cost data out of the crossovers', () => {
+    const a = compared('A', 100, { complexity: attribute('high') });
+    const b = compared('B', null, {});
+
+    const projection = projectTco(comparison(a, b));
+
+    expect(projection.options[1].monthlyInfrastructure).toBeNull();
+    expect(projection.crossovers).toEqual([]);
+  });
+});
@@ -3,7 +3,7 @@
  * Uses Groq (free), Gemini for intelligent comparisons
  */
 
-import { ComparisonResult, Constraints, TradeOffExplanation, PivotResult } from '../types';
+import { ComparisonResult, Constraints, TradeOffExplanation, PivotResult, AttributeTypeRow } from '../types';
 
 interface AIComparisonResult {
   summary: string;
@@ -113,25 +113,47 @@ function buildComparisonPrompt(
   additionalContext?: string
 ): string {
   const options = comparison.options;
-  const opt1 = options[0]?.name || 'Option 1';
-  const opt2 = options[1]?.name || 'Option 2';
-
-  const optionDetails = options.map(opt => 
-    `${opt.name}: Cost=${opt.attributes.costModel.value}, Scalability=${opt.attributes.scalability.value}, Complexity=${opt.attributes.complexity.value}`
-  ).join('\n');
+  const names = options.map((opt) => opt.name);
+  const optionList = names.length > 0 ? names.join(' vs ') : 'Option 1 vs Option 2';
+
+  const optionDetails = options.map(opt => {
+    const estimate = opt.budgetFit.estimate;
+    const monthlyCost = !estimate
+      ? ''
+      : estimate.basis === 'usage'
+        ? `, MonthlyCost=$${estimate.typical} (priced on the user's usage)`
+        : `, MonthlyCost=$${estimate.min}-$${estimate.max} (typical $${estimate.typical})`;
+    const attributeDetails = comparison.attributeTypes
+      .map((attributeType) => `${attributeType.name}=${opt.attributes[attributeType.key]?.value ?? 'N/A'}`)
+      .join(', ');
+    const disqualified = opt.disqualified ? ` [DISQUALIFIED: ${opt.disqualifications.join('; ')}]` : '';
+    return `${opt.name}: ${attributeDetails}${monthlyCost}${disqualified}`;
+  }).join('\n');
+  const qualified = options.filter((opt) => !opt.disqualified).map((opt) => opt.name);
+
+  const detailedAnalysisTemplate = names.map((name) => `    {
+      "optionName": "${name}",
+      "pros": ["Detailed pro 1 explaining the benefit (1-2 sentences)", "Detailed pro 2 (1-2 sentences)", "Detailed pro 3 (1-2 sentences)"],
+      "cons": ["Detailed con 1 explaining the drawback (1-2 sentences)", "Detailed con 2 (1-2 sentences)"],
+      "bestFor": "Detailed description of ideal use cases and scenarios (2-3 sentences)"
+    }`).join(',\n');
 
   const userContext = additionalContext || 'general developer';
+  const importance = Object.entries(constraints.attributeWeights ?? {})
+    .map(([key, value]) => `${comparison.attributeTypes.find((t) => t.key === key)?.name ?? key}=${value}/10`)
+    .join(', ');
 
-  return `Compare ${opt1} vs ${opt2} for a ${userContext}.
+  return `Compare ${optionList} for a ${userContext}.
 Priority: Scalability=${constraints.scalabilityPriority}
+${importance ? `Importance: ${importance}\n` : ''}Budget: $${constraints.budgetMin}-$${constraints.budgetMax} per month
 
 ${optionDetails}
 
 Return ONLY this JSON with DETAILED explanations:
 
 {
-  "summary": "2-3 sentences comparing both options, highlighting key differences and trade-offs",
-  "recommendation": "${opt1} or ${opt2} with a detailed explanation of why (2-3 sentences)",
+  "summary": "2-3 sentences comparing all options, highlighting key differences and trade-offs",
+  "recommendation": "One of ${(qualified.length > 0 ? qualified : names).join(', ')} with a detailed explanation of why (2-3 sentences)",
   "decisionGuidance": "Detailed guidance on when to pick each option (3-4 sentences covering different scenarios)",
   "personalizedInsights": [
     "Detailed insight 1 with specific advice (1-2 sentences)",
@@ -139,21 +161,9 @@ Return ONLY this JSON with DETAILED explanations:
     "Detailed insight 3 with context-specific tip (1-2 sentences)"
   ],
   "detailedAnalysis": [
-    {
-      "optionName": "${opt1}",
-      "pros": ["Detailed pro 1 explaining the benefit (1-2 sentences)", "Detailed pro 2 (1-2 sentences)", "Detailed pro 3 (1-2 sentences)"],
-      "cons": ["Detailed con 1 explaining the drawback (1-2 sentences)", "Detailed con 2 (1-2 sentences)"],
-      "bestFor": "Detailed description of ideal use cases and scenarios (2-3 sentences)"
-    },
-    {
-      "optionName": "${opt2}",
-      "pros": ["Detailed pro 1 explaining the benefit (1-2 sentences)", "Detailed pro 2 (1-2 sentences)", "Detailed pro 3 (1-2 sentences)"],
-      "cons": ["Detailed con 1 explaining the drawback (1-2 sentences)", "Detailed con 2 (1-2 sentences)"],
-      "bestFor": "Detailed description of ideal use cases and scenarios (2-3 sentences)"
-    }
+${detailedAnalysisTemplate}
   ],
-  "pivotStatement": "Clear decision statement: ${opt1} for [specific scenarios], ${opt2} for [other scenarios] (1-2 sentences)",
-  "confidenceScore": 85
+  "pivotStatement": "Clear decision statement naming which option to choose for which scenarios (1-2 sentences)"
 }
 
 RULES: Provide DETAILED, INFORMATIVE responses. Each point should be thorough and helpful. Return ONLY valid JSON.`;
@@ -162,7 +172,7 @@ RULES: Provide DETAILED, INFORMATIVE responses. Each point should be thorough an
 /**
  * Parse AI response
  */
-function parseAIResponse(response: string): AIComparisonResult | null {
+function parseAIResponse(response: string): Omit<AIComparisonResult, 'confidenceScore'> | null {
   try {
     let jsonStr = response;
     if (jsonStr.includes('```json')) {
@@ -177,7 +187,7 @@ function parseAIResponse(response: string): AIComparisonResult | null {
       return null;
     }
 
-    const parsed = JSON.parse(jsonMatch[0]) as AIComparisonResult;
+    const parsed = JSON.parse(jsonMatch[0]) as Omit<AIComparisonResult, 'confidenceScore'>;
     
     if (!parsed.summary || !parsed.recommendation || !parsed.detailedAnalysis) {
       console.error('Missing required fields in parsed response');
@@ -192,11 +202,13 @@ function parseAIResponse(response: string): AIComparisonResult | null {
 }
 
 /**
- * Generate full AI comparison
+ * Generate full AI comparison. The confidence score is not left to the
+ * model; callers pass the leader's simulated chance of staying on top.
  */
 export async function generateFullAIComparison(
   comparison: ComparisonResult,
   constraints: Constraints,
+  confidenceScore: number,
   additionalContext?: string
 ): Promise<AIComparisonResult | null> {
   const prompt = buildComparisonPrompt(comparison, constraints, additionalContext);
@@ -210,7 +222,8 @@ export async function generateFullAIComparison(
     return null;
   }
 
-  return parseAIResponse(aiResponse);
+  const parsed = parseAIResponse(aiResponse);
+  return parsed ? { ...parsed, confidenceScore } : null;
 }
 
 /**
@@ -250,16 +263,18 @@ Categories: storage, monitoring, orchestration, containerization, infrastructure
 /**
  * Auto-fill option details with AI
  */
-export async function generateOptionDetails(name: string): Promise<{
+export async function generateOptionDetails(
+  name: string,
+  attributeTypes: AttributeTypeRow[]
+): Promise<{
   description: string;
   category: string;
-  attributes: {
-    cost_model: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    scalability: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    complexity: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    maintenance: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-  };
+  attributes: Record<string, { value: string; rating: 'low' | 'medium' | 'high'; description: string }>;
 } | null> {
+  const attributesTemplate = attributeTypes
+    .map((attributeType) => `    "${attributeType.key}": {"value": "short ${attributeType.name.toLowerCase()} summary", "rating": "low/medium/high", "description": "One sentence about ${attributeType.name.toLowerCase()}"}`)
+    .join(',\n');
+
   const prompt = `Generate details for technology: ${name}
 
 Return ONLY valid JSON:
@@ -267,12 +282,11 @@ Return ONLY valid JSON:
   "description": "2-3 sentences describing what ${name} is and its main purpose",
   "category": "one of: compute, database, cache, storage, messaging, frontend, backend, devops",
   "attributes": {
-    "cost_model": {"value": "pricing model (e.g., Pay-per-use, Subscription)", "rating": "low/medium/high", "description": "One sentence about cost"},
-    "scalability": {"value": "scaling approach", "rating": "low/medium/high", "description": "One sentence about scaling"},
-    "complexity": {"value": "complexity level", "rating": "low/medium/high", "description": "One sentence about complexity"},
-    "maintenance": {"value": "maintenance needs", "rating": "low/medium/high", "description": "One sentence about maintenance"}
+${attributesTemplate}
   }
-}`;
+}
+
+Rating is how much of the attribute ${name} has (high cost = expensive, high complexity = complex), not whether that is good.`;
 
   let response = await callGroqAPI(prompt);
   if (!response) response = await callGeminiAPI(prompt);
@@ -299,6 +313,7 @@ export async function enhanceWithAI(
   constraints: Constraints,
   existingExplanation: TradeOffExplanation,
   existingPivot: PivotResult,
+  confidenceScore: number,
   additionalContext?: string
 ): Promise<{
   explanation: TradeOffExplanation;
@@ -306,7 +321,7 @@ export async function enhanceWithAI(
   aiEnhanced: boolean;
   aiAnalysis?: AIComparisonResult;
 }> {
-  const aiResult = await generateFullAIComparison(comparison, constraints, additionalContext);
+  const aiResult = await generateFullAIComparison(comparison, constraints, confidenceScore, additionalContext);
 
   if (!aiResult) {
     return {
@@ -320,7 +335,9 @@ export async function enhanceWithAI(
     ...existingExplanation,
     summary: aiResult.summary,
     optionAnalysis: existingExplanation.optionAnalysis.map((analysis, index) => {
-      const aiAnalysis = aiResult.detailedAnalysis[index];
+      const aiAnalysis =
+        aiResult.detailedAnalysis.find((a) => a.optionName === analysis.optionName) ??
+        aiResult.detailedAnalysis[index];
       if (aiAnalysis) {
         return {
           ...analysis,
@@ -3,21 +3,53 @@
  * Groq is FREE and very fast
  */
 
+import { AttributeTypeRow } from '../types';
+
+interface GeneratedAttribute {
+  value: string;
+  rating: 'low' | 'medium' | 'high';
+  description: string;
+}
+
 interface GeneratedOption {
   description: string;
-  attributes: {
-    cost_model: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    scalability: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    complexity: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    maintenance: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-  };
+  attributes: Record<string, GeneratedAttribute>;
   category: string;
 }
 
+/**
+ * Builds the "attributes" section of the prompt from the attribute type catalog.
+ */
+function buildAttributesTemplate(attributeTypes: AttributeTypeRow[]): string {
+  return attributeTypes.map((attributeType) => `    "${attributeType.key}": { 
+      "value": "Brief ${attributeType.name.toLowerCase()} summary", 
+      "rating": "low/medium/high", 
+      "description": "One sentence about ${attributeType.name.toLowerCase()}${attributeType.description ? ` (${attributeType.description})` : ''}" 
+    }`).join(',\n');
+}
+
+/**
+ * Keeps only catalog attributes, filling any the generator did not cover
+ * with a neutral placeholder for the admin to review.
+ */
+function fitToCatalog(
+  attributes: Record<string, GeneratedAttribute>,
+  attributeTypes: AttributeTypeRow[]
+): Record<string, GeneratedAttribute> {
+  const fitted: Record<string, GeneratedAttribute> = {};
+  for (const { key } of attributeTypes) {
+    fitted[key] = attributes[key] ?? { value: 'Unknown', rating: 'medium', description: 'Not assessed yet' };
+  }
+  return fitted;
+}
+
 /**
  * Generate description using Groq API (FREE)
  */
-async function generateWithGroq(optionName: string): Promise<GeneratedOption | null> {
+async function generateWithGroq(
+  optionName: string,
+  attributeTypes: AttributeTypeRow[]
+): Promise<GeneratedOption | null> {
   const apiKey = process.env.GROQ_API_KEY;
   
   if (!apiKey) {
@@ -31,32 +63,13 @@ Provide a JSON response with this exact structure (no markdown code blocks, just
   "description": "Write 3-4 detailed sentences explaining what ${optionName} is, what problems it solves, who uses it, and its main benefits. Be specific and informative.",
   "category": "Choose one: frontend, backend, mobile, database, cache, compute, messaging, orchestration, devops, cloud, or technology",
   "attributes": {
-    "cost_model": { 
-      "value": "Brief pricing model (e.g., 'Open source', 'Freemium', 'Pay-per-use')", 
-      "rating": "low", 
-      "description": "One sentence about cost" 
-    },
-    "scalability": { 
-      "value": "Brief scalability description", 
-      "rating": "high", 
-      "description": "One sentence about scaling capabilities" 
-    },
-    "complexity": { 
-      "value": "Brief complexity level", 
-      "rating": "medium", 
-      "description": "One sentence about learning curve" 
-    },
-    "maintenance": { 
-      "value": "Brief maintenance needs", 
-      "rating": "low", 
-      "description": "One sentence about maintenance" 
-    }
+${buildAttributesTemplate(attributeTypes)}
   }
 }
 
 IMPORTANT: 
 - rating must be exactly "low", "medium", or "high"
-- For rating: low = good/easy/cheap, high = difficult/expensive/complex
+- rating is how much of the attribute the option has (high cost = expensive, high complexity = complex), not whether that is good
 - Return ONLY valid JSON, no markdown, no explanation`;
 
   try {
@@ -348,11 +361,14 @@ function getDefaultAttributes(category: string): GeneratedOption['attributes'] {
 /**
  * Generate option details - Uses Groq AI (free) for accurate descriptions
  */
-export async function generateOptionDetails(optionName: string): Promise<GeneratedOption> {
+export async function generateOptionDetails(
+  optionName: string,
+  attributeTypes: AttributeTypeRow[]
+): Promise<GeneratedOption> {
   // Try Groq AI first (free & fast)
-  const groqResult = await generateWithGroq(optionName);
+  const groqResult = await generateWithGroq(optionName, attributeTypes);
   if (groqResult) {
-    return groqResult;
+    return { ...groqResult, attributes: fitToCatalog(groqResult.attributes, attributeTypes) };
   }
 
   // Fallback: Check known templates
@@ -362,7 +378,7 @@ export async function generateOptionDetails(optionName: string): Promise<Generat
       return {
         description: `${optionName} - A technology solution for ${template.category} workloads.`,
         category: template.category!,
-        attributes: template.attributes!,
+        attributes: fitToCatalog(template.attributes!, attributeTypes),
       };
     }
   }
@@ -373,6 +389,6 @@ export async function generateOptionDetails(optionName: string): Promise<Generat
   return {
     description: `${optionName} - A technology solution. Please update with accurate details.`,
     category,
-    attributes: getDefaultAttributes(category),
+    attributes: fitToCatalog(getDefaultAttributes(category), attributeTypes),
   };
 }
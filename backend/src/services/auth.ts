@@ -0,0 +1,121 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import {
+  countUsers,
+  createSession,
+  createUser,
+  deleteSession,
+  getUserBySessionToken,
+  getUserByUsername,
+} from '../db/queries';
+import { AuthUser, LoginResponse, UserRole, UserRow } from '../types';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const TOKEN_BYTES = 32;
+
+// How long a login stays valid
+const SESSION_TTL_HOURS = 12;
+
+// Higher roles can do everything lower roles can
+const ROLE_RANK: Record<UserRole, number> = { viewer: 1, editor: 2, admin: 3 };
+
+/**
+ * Hashes a password with a random salt as scrypt$<salt>$<hash>.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  if (expected.length === 0) return false;
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Sessions are looked up by a hash of the token, so a leaked sessions
+ * table does not hand out working tokens.
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function toAuthUser(user: UserRow): AuthUser {
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+/**
+ * Whether a user's role is at least the required role.
+ */
+export function hasRole(user: AuthUser, required: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[required];
+}
+
+/**
+ * Verifies credentials and opens a session. Returns null when the
+ * username or password is wrong.
+ */
+export async function login(username: string, password: string): Promise<LoginResponse | null> {
+  const user = await getUserByUsername(username);
+  if (!user || !(await verifyPassword(password, user.password_hash))) {
+    return null;
+  }
+
+  const token = randomBytes(TOKEN_BYTES).toString('hex');
+  const expiresAt = await createSession(hashToken(token), user.id, SESSION_TTL_HOURS);
+
+  return {
+    token,
+    expiresAt: new Date(expiresAt).toISOString(),
+    user: toAuthUser(user),
+  };
+}
+
+/**
+ * Resolves a session token to its user, or null if it is unknown or expired.
+ */
+export async function authenticateToken(token: string): Promise<AuthUser | null> {
+  const user = await getUserBySessionToken(hashToken(token));
+  return user ? toAuthUser(user) : null;
+}
+
+/**
+ * Ends a session.
+ */
+export async function logout(token: string): Promise<void> {
+  await deleteSession(hashToken(token));
+}
+
+/**
+ * Creates the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD
+ * when no users exist yet. Does nothing once any user has been created.
+ */
+export async function ensureBootstrapAdmin(): Promise<void> {
+  if ((await countUsers()) > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || 'admin';
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    console.warn('⚠ No users exist and ADMIN_PASSWORD is not set; admin routes are locked');
+    return;
+  }
+
+  await createUser(username, await hashPassword(password), 'admin');
+  console.log(`✓ Created admin user "${username}"`);
+}
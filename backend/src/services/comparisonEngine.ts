@@ -2,28 +2,139 @@ import {
   Constraints,
   OptionRow,
   AttributeRow,
+  AttributeTypeRow,
+  AttributeTypeSummary,
+  AttributeDirection,
+  RatingSentiment,
   WeightRow,
+  WeightProfileSummary,
+  IntegrationRow,
   OptionIntegrationRow,
+  OptionPricingRow,
+  IntegrationFit,
+  IntegrationSupport,
+  IntegrationSupportLevel,
   ComparisonResult,
   OptionComparison,
   AttributeValue,
   AttributeMatrix,
+  BudgetFit,
+  CostEstimate,
+  HardRule,
+  RuleOperator,
+  ScoringMetadata,
+  ScoreContribution,
 } from '../types';
+import {
+  DecisionMatrix,
+  DEFAULT_SCORING_METHOD,
+  SCORING_STRATEGIES,
+  ScoringStrategy,
+  totalScore,
+} from './scoringStrategies';
+import { estimateUsageCost } from './costCalculator';
 
-// Rating to numeric score mapping
+// Rating to numeric score mapping, for attributes where higher is better
 const RATING_SCORES: Record<string, number> = {
   low: 1,
   medium: 2,
   high: 3,
 };
 
-// Attribute type to icon mapping
-const ATTRIBUTE_ICONS: Record<string, string> = {
-  cost_model: '💰',
-  scalability: '📈',
-  complexity: '⚙️',
-  maintenance: '🔧',
-};
+/**
+ * Scores a rating on the 1-3 scale where 3 is always the desirable end,
+ * flipping it for attributes where a lower rating is better.
+ */
+function getOrientedRatingScore(
+  rating: AttributeRow['rating'],
+  direction: AttributeDirection
+): number {
+  const score = RATING_SCORES[rating] || 0;
+  if (score === 0) return 0;
+  return direction === 'lower_is_better' ? 4 - score : score;
+}
+
+/**
+ * Describes whether an oriented 1-3 score is good or bad news.
+ */
+function getSentiment(score: number): RatingSentiment {
+  const rounded = Math.round(score);
+  if (rounded === 3) return 'favorable';
+  if (rounded === 1) return 'unfavorable';
+  return 'neutral';
+}
+
+/**
+ * Converts an oriented 1-3 score to the 0-100 scale shown to users.
+ */
+function toPercentScore(score: number): number {
+  return Math.max(0, Math.round(((score - 1) / 2) * 100));
+}
+
+// Lowest and highest measured value of an attribute type across the compared options
+interface MeasurementRange {
+  min: number;
+  max: number;
+}
+
+function getNumericValue(attr: AttributeRow): number | null {
+  return attr.numeric_value === null ? null : Number(attr.numeric_value);
+}
+
+/**
+ * Finds the range of every attribute type that all compared options have a
+ * measured value for. Types where any option has only a rating, or that
+ * fewer than two options have at all, keep scoring by rating.
+ */
+function getMeasurementRanges(attributes: AttributeRow[]): Map<string, MeasurementRange> {
+  const valuesByType = new Map<string, Array<number | null>>();
+  for (const attr of attributes) {
+    const values = valuesByType.get(attr.attribute_type) ?? [];
+    values.push(getNumericValue(attr));
+    valuesByType.set(attr.attribute_type, values);
+  }
+
+  const ranges = new Map<string, MeasurementRange>();
+  for (const [attributeType, values] of valuesByType) {
+    if (values.length < 2 || values.some((v) => v === null)) continue;
+    const numbers = values as number[];
+    ranges.set(attributeType, { min: Math.min(...numbers), max: Math.max(...numbers) });
+  }
+  return ranges;
+}
+
+/**
+ * Scores an attribute on the 1-3 scale where 3 is the desirable end.
+ * Measured values are placed linearly between the lowest and highest value
+ * among the compared options (a tie scores in the middle); everything else
+ * is scored by its rating.
+ */
+function getAttributeScore(
+  attr: AttributeRow,
+  direction: AttributeDirection,
+  ranges: Map<string, MeasurementRange>
+): number {
+  const range = ranges.get(attr.attribute_type);
+  const numericValue = getNumericValue(attr);
+  if (!range || numericValue === null) {
+    return getOrientedRatingScore(attr.rating, direction);
+  }
+
+  if (range.max === range.min) return 2;
+  const position = (numericValue - range.min) / (range.max - range.min);
+  return 1 + 2 * (direction === 'lower_is_better' ? 1 - position : position);
+}
+
+/**
+ * Direction of an attribute type; types missing from the catalog count as higher-is-better.
+ */
+function getDirection(attributeType: string, attributeTypes: AttributeTypeRow[]): AttributeDirection {
+  return attributeTypes.find((t) => t.key === attributeType)?.direction ?? 'higher_is_better';
+}
+
+// Maximum score points deducted when an option's cost range runs past budgetMax
+const BUDGET_STRETCH_MAX_PENALTY = 15;
+const BUDGET_OVER_MAX_PENALTY = 40;
 
 /**
  * Gets the scalability modifier key based on priority.
@@ -39,79 +150,420 @@ function getScalabilityModifierKey(
   return modifierMap[priority];
 }
 
+// Top of the 0-10 importance scale users rate attributes on
+const MAX_ATTRIBUTE_IMPORTANCE = 10;
+
+/**
+ * Converts a user importance (0-10) into a weight on the same 0-1 scale as
+ * the database defaults, or null when the user did not rate the attribute.
+ */
+function getUserWeight(attributeType: string, constraints: Constraints): number | null {
+  const importance = constraints.attributeWeights?.[attributeType];
+  if (importance === undefined) return null;
+  return importance / MAX_ATTRIBUTE_IMPORTANCE;
+}
+
 /**
  * Calculates the effective weight for an attribute based on constraints.
+ * A user-supplied importance replaces the default weight and its
+ * scalability modifier outright.
  */
 function calculateEffectiveWeight(
   weight: WeightRow,
   constraints: Constraints
 ): number {
+  const userWeight = getUserWeight(weight.attribute_type, constraints);
+  if (userWeight !== null) return userWeight;
+
   const modifierKey = getScalabilityModifierKey(constraints.scalabilityPriority);
   const modifier = Number(weight[modifierKey]) || 1.0;
   return Number(weight.default_weight) * modifier;
 }
 
 /**
- * Checks if an option supports all required integrations.
- * Returns true if no integrations required OR option supports all required ones.
+ * Looks up the effective weight of an attribute type, falling back to the
+ * user's importance for types that have no default weight row.
  */
-function optionSupportsRequiredIntegrations(
+function getAttributeWeight(
+  attributeType: string,
+  weights: WeightRow[],
+  constraints: Constraints
+): number | null {
+  const weight = weights.find((w) => w.attribute_type === attributeType);
+  if (weight) return calculateEffectiveWeight(weight, constraints);
+  return getUserWeight(attributeType, constraints);
+}
+
+// Support level to numeric score mapping, on the same 1-3 scale as ratings.
+// An integration the option has no mapping for scores nothing.
+const SUPPORT_LEVEL_SCORES: Record<IntegrationSupportLevel, number> = {
+  unknown: 0,
+  custom: 1,
+  plugin: 2,
+  native: 3,
+};
+
+// Weight of integration fit relative to the attribute weights (0-1 scale),
+// applied only when the user requires integrations
+const INTEGRATION_FIT_WEIGHT = 0.25;
+
+// Criterion key integration fit is scored under
+const INTEGRATION_CRITERION = 'integrations';
+
+/**
+ * Average support level score (0-3) across integrations.
+ */
+function averageSupportScore(supports: IntegrationSupport[]): number {
+  const total = supports.reduce((sum, s) => sum + SUPPORT_LEVEL_SCORES[s.supportLevel], 0);
+  return total / supports.length;
+}
+
+/**
+ * Grades how well an option supports each required integration.
+ * The score is the average support level scaled to 0-100, or null when no
+ * integrations are required.
+ */
+export function evaluateIntegrationFit(
   optionId: string,
+  integrations: IntegrationRow[],
   optionIntegrations: OptionIntegrationRow[],
   requiredIntegrations: string[]
-): boolean {
-  // If no integrations required, always pass
-  if (requiredIntegrations.length === 0) return true;
-  
-  const supportedIntegrationIds = optionIntegrations
-    .filter((oi) => oi.option_id === optionId)
-    .map((oi) => oi.integration_id);
-  
-  // If option has no integration mappings at all, assume it supports everything
-  // (this handles newly added options that haven't been mapped yet)
-  if (supportedIntegrationIds.length === 0) return true;
-  
-  return requiredIntegrations.every((reqId) =>
-    supportedIntegrationIds.includes(reqId)
-  );
+): IntegrationFit {
+  const supports: IntegrationSupport[] = requiredIntegrations.map((integrationId) => {
+    const mapping = optionIntegrations.find(
+      (oi) => oi.option_id === optionId && oi.integration_id === integrationId
+    );
+    return {
+      integrationId,
+      name: integrations.find((i) => i.id === integrationId)?.name ?? integrationId,
+      supportLevel: mapping?.support_level ?? 'unknown',
+    };
+  });
+
+  if (supports.length === 0) {
+    return { score: null, integrations: supports };
+  }
+
+  return {
+    score: Math.round((averageSupportScore(supports) / 3) * 100),
+    integrations: supports,
+  };
+}
+
+/**
+ * Required integrations the option has no mapping for.
+ */
+export function getUnmetIntegrations(integrationFit: IntegrationFit): IntegrationSupport[] {
+  return integrationFit.integrations.filter((i) => i.supportLevel === 'unknown');
+}
+
+/**
+ * Monthly cost estimate of an option. With a usage profile, an option that
+ * has pricing formulas is priced on that usage; otherwise its stored cost
+ * range is used, if it has one.
+ */
+function getCostEstimate(
+  option: OptionRow,
+  constraints: Constraints,
+  pricing: OptionPricingRow[]
+): CostEstimate | null {
+  if (constraints.usage) {
+    const { monthlyCost } = estimateUsageCost(option, pricing, constraints.usage);
+    if (monthlyCost !== null) {
+      return { min: monthlyCost, typical: monthlyCost, max: monthlyCost, basis: 'usage' };
+    }
+  }
+
+  if (
+    option.monthly_cost_min === null ||
+    option.monthly_cost_typical === null ||
+    option.monthly_cost_max === null
+  ) {
+    return null;
+  }
+
+  return {
+    min: Number(option.monthly_cost_min),
+    typical: Number(option.monthly_cost_typical),
+    max: Number(option.monthly_cost_max),
+    basis: 'catalog',
+  };
+}
+
+/**
+ * Share of the cost range [from, to] that lies above the budget ceiling.
+ */
+function shareAboveBudget(from: number, to: number, budgetMax: number): number {
+  if (to <= from) return to > budgetMax ? 1 : 0;
+  return Math.min(1, Math.max(0, (to - budgetMax) / (to - from)));
+}
+
+/**
+ * Evaluates how an option's monthly cost range fits the user's budget.
+ * Costs above budgetMax are penalized in proportion to how far they run over;
+ * an option whose cheapest estimate already exceeds budgetMax is disqualified.
+ * Running cheaper than budgetMin is reported but never penalized. A cost
+ * priced on the user's usage is a single figure, so it is either within
+ * budget or exceeds it.
+ */
+export function evaluateBudgetFit(
+  option: OptionRow,
+  constraints: Constraints,
+  pricing: OptionPricingRow[] = []
+): BudgetFit {
+  const estimate = getCostEstimate(option, constraints, pricing);
+  const { budgetMin, budgetMax } = constraints;
+
+  if (!estimate) {
+    return {
+      status: 'unknown',
+      estimate: null,
+      penalty: 0,
+      reason: 'No monthly cost estimate available',
+    };
+  }
+
+  const isUsageBased = estimate.basis === 'usage';
+  const range = isUsageBased
+    ? `$${estimate.typical}/month for your usage`
+    : `$${estimate.min}-$${estimate.max}/month (typically $${estimate.typical})`;
+
+  if (estimate.min > budgetMax) {
+    return {
+      status: 'exceeds',
+      estimate,
+      penalty: 100,
+      reason: isUsageBased
+        ? `Costs ${range}, which exceeds your $${budgetMax} budget`
+        : `Cheapest estimate of $${estimate.min}/month exceeds your $${budgetMax} budget`,
+    };
+  }
+
+  if (estimate.typical > budgetMax) {
+    const share = shareAboveBudget(estimate.min, estimate.typical, budgetMax);
+    return {
+      status: 'over',
+      estimate,
+      penalty: Math.round(
+        BUDGET_STRETCH_MAX_PENALTY + share * (BUDGET_OVER_MAX_PENALTY - BUDGET_STRETCH_MAX_PENALTY)
+      ),
+      reason: `Typical cost of $${estimate.typical}/month is over your $${budgetMax} budget`,
+    };
+  }
+
+  if (estimate.max > budgetMax) {
+    const share = shareAboveBudget(estimate.typical, estimate.max, budgetMax);
+    return {
+      status: 'stretch',
+      estimate,
+      penalty: Math.round(share * BUDGET_STRETCH_MAX_PENALTY),
+      reason: `Fits your budget typically, but peak usage can reach $${estimate.max}/month`,
+    };
+  }
+
+  if (estimate.max < budgetMin) {
+    return {
+      status: 'under',
+      estimate,
+      penalty: 0,
+      reason: `Costs ${range}, below your $${budgetMin} minimum budget`,
+    };
+  }
+
+  return {
+    status: 'within',
+    estimate,
+    penalty: 0,
+    reason: `Costs ${range}, within your budget`,
+  };
+}
+
+// Order of ratings for rule comparisons, regardless of attribute direction
+const RATING_ORDER: Record<AttributeRow['rating'], number> = { low: 1, medium: 2, high: 3 };
+
+const RULE_OPERATOR_TEXT: Record<RuleOperator, string> = {
+  eq: 'must be',
+  neq: 'must not be',
+  lt: 'must be below',
+  lte: 'must be at most',
+  gt: 'must be above',
+  gte: 'must be at least',
+};
+
+function compareWithOperator(actual: number, operator: RuleOperator, expected: number): boolean {
+  switch (operator) {
+    case 'eq': return actual === expected;
+    case 'neq': return actual !== expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+  }
+}
+
+/**
+ * Describes a rule in words, e.g. "maintenance must not be high".
+ */
+export function describeRule(rule: HardRule, attributeTypes: AttributeTypeRow[]): string {
+  const attributeType = attributeTypes.find((t) => t.key === rule.field);
+  const fieldName = attributeType ? attributeType.name.toLowerCase() : rule.field;
+  const unit = typeof rule.value === 'number' && attributeType?.unit ? ` ${attributeType.unit}` : '';
+  return `${fieldName} ${RULE_OPERATOR_TEXT[rule.operator]} ${rule.value}${unit}`;
+}
+
+/**
+ * Checks one option against one rule. Returns why the option breaks it,
+ * or null when it passes. An option without a value for the rule's
+ * attribute cannot show that it passes, so it breaks the rule.
+ */
+function checkRule(
+  option: OptionRow,
+  optionAttrs: AttributeRow[],
+  rule: HardRule,
+  attributeTypes: AttributeTypeRow[]
+): string | null {
+  const ruleText = describeRule(rule, attributeTypes);
+
+  if (rule.field === 'category') {
+    const matches = option.category.toLowerCase() === String(rule.value).toLowerCase();
+    const passes = rule.operator === 'neq' ? !matches : matches;
+    return passes ? null : `Category is ${option.category} (${ruleText})`;
+  }
+
+  const attr = optionAttrs.find((a) => a.attribute_type === rule.field);
+  const attributeType = attributeTypes.find((t) => t.key === rule.field);
+  const fieldName = attributeType?.name ?? rule.field;
+
+  if (typeof rule.value === 'number') {
+    const numericValue = attr ? getNumericValue(attr) : null;
+    if (numericValue === null) return `No measured ${fieldName.toLowerCase()} (${ruleText})`;
+    if (compareWithOperator(numericValue, rule.operator, rule.value)) return null;
+    const unit = attributeType?.unit ? ` ${attributeType.unit}` : '';
+    return `${fieldName} is ${numericValue}${unit} (${ruleText})`;
+  }
+
+  if (!attr) return `No ${fieldName.toLowerCase()} rating (${ruleText})`;
+  const expected = RATING_ORDER[rule.value as AttributeRow['rating']];
+  if (compareWithOperator(RATING_ORDER[attr.rating], rule.operator, expected)) return null;
+  return `${fieldName} is ${attr.rating} (${ruleText})`;
 }
 
 /**
- * Converts an attribute row to an AttributeValue.
+ * Evaluates the hard rules for an option, returning a reason for every rule it breaks.
  */
-function toAttributeValue(attr: AttributeRow): AttributeValue {
+function evaluateRules(
+  option: OptionRow,
+  optionAttrs: AttributeRow[],
+  rules: HardRule[],
+  attributeTypes: AttributeTypeRow[]
+): string[] {
+  return rules
+    .map((rule) => checkRule(option, optionAttrs, rule, attributeTypes))
+    .filter((reason): reason is string => reason !== null);
+}
+
+/**
+ * Converts an attribute row to an AttributeValue, taking its icon and unit from the catalog.
+ */
+function toAttributeValue(
+  attr: AttributeRow,
+  attributeTypes: AttributeTypeRow[],
+  ranges: Map<string, MeasurementRange>
+): AttributeValue {
+  const attributeType = attributeTypes.find((t) => t.key === attr.attribute_type);
+  const score = getAttributeScore(attr, attributeType?.direction ?? 'higher_is_better', ranges);
+  const numericValue = getNumericValue(attr);
   return {
     value: attr.value,
     rating: attr.rating,
-    icon: ATTRIBUTE_ICONS[attr.attribute_type] || '📊',
+    measurement: numericValue === null
+      ? null
+      : { value: numericValue, unit: attributeType?.unit ?? null },
+    score: toPercentScore(score),
+    sentiment: getSentiment(score),
+    icon: attributeType?.icon || '📊',
   };
 }
 
 /**
- * Calculates the weighted score for an option.
+ * Reduces a catalog row to the fields clients need to label attributes.
  */
-function calculateOptionScore(
+function toAttributeTypeSummary(attributeType: AttributeTypeRow): AttributeTypeSummary {
+  return {
+    key: attributeType.key,
+    name: attributeType.name,
+    description: attributeType.description,
+    icon: attributeType.icon,
+    direction: attributeType.direction,
+    unit: attributeType.unit,
+    tcoEffort: attributeType.tco_effort,
+  };
+}
+
+/**
+ * Lays out the scoring criteria for the compared options: every attribute
+ * type with a weight, plus integration fit when integrations are required.
+ * Ratings are oriented first, so a 'high' complexity scores low.
+ */
+function buildDecisionMatrix(
+  options: OptionRow[],
   attributes: AttributeRow[],
+  attributeTypes: AttributeTypeRow[],
+  ranges: Map<string, MeasurementRange>,
   weights: WeightRow[],
-  constraints: Constraints
-): number {
-  let totalScore = 0;
-  let totalWeight = 0;
+  constraints: Constraints,
+  integrationFits: IntegrationFit[]
+): DecisionMatrix {
+  const keys = new Set([
+    ...attributeTypes.map((t) => t.key),
+    ...attributes.map((a) => a.attribute_type),
+  ]);
+  const criteria = [...keys]
+    .map((key) => ({ key, weight: getAttributeWeight(key, weights, constraints) }))
+    .filter((c): c is { key: string; weight: number } => c.weight !== null);
+  const gradeIntegrations = constraints.requiredIntegrations.length > 0;
 
-  for (const attr of attributes) {
-    const weight = weights.find((w) => w.attribute_type === attr.attribute_type);
-    if (!weight) continue;
+  const rows = options.map((option, index) => {
+    const row: Array<number | null> = criteria.map(({ key }) => {
+      const attr = attributes.find((a) => a.option_id === option.id && a.attribute_type === key);
+      return attr ? getAttributeScore(attr, getDirection(key, attributeTypes), ranges) : null;
+    });
+    if (gradeIntegrations) {
+      row.push(averageSupportScore(integrationFits[index].integrations));
+    }
+    return row;
+  });
 
-    const effectiveWeight = calculateEffectiveWeight(weight, constraints);
-    const ratingScore = RATING_SCORES[attr.rating] || 0;
-    
-    totalScore += ratingScore * effectiveWeight;
-    totalWeight += effectiveWeight;
-  }
+  return {
+    criteria: [
+      ...criteria.map((c) => c.key),
+      ...(gradeIntegrations ? [INTEGRATION_CRITERION] : []),
+    ],
+    weights: [
+      ...criteria.map((c) => c.weight),
+      ...(gradeIntegrations ? [INTEGRATION_FIT_WEIGHT] : []),
+    ],
+    rows,
+  };
+}
 
-  // Normalize score to 0-100 range
-  if (totalWeight === 0) return 0;
-  return Math.round((totalScore / (totalWeight * 3)) * 100);
+/**
+ * Labels an option's per-criterion points with the criterion and the
+ * effective weight it was scored with.
+ */
+function toScoreContributions(
+  matrix: DecisionMatrix,
+  points: number[],
+  attributeTypes: AttributeTypeRow[]
+): ScoreContribution[] {
+  return matrix.criteria.map((key, c) => ({
+    attributeType: key,
+    name: key === INTEGRATION_CRITERION
+      ? 'Integration fit'
+      : attributeTypes.find((t) => t.key === key)?.name ?? key,
+    weight: Math.round(matrix.weights[c] * 1000) / 1000,
+    points: Math.round(points[c] * 10) / 10,
+  }));
 }
 
 /**
@@ -119,19 +571,20 @@ function calculateOptionScore(
  */
 function buildAttributeMatrix(
   options: OptionRow[],
-  attributes: AttributeRow[]
+  attributes: AttributeRow[],
+  attributeTypes: AttributeTypeRow[],
+  ranges: Map<string, MeasurementRange>
 ): AttributeMatrix {
   const matrix: AttributeMatrix = {};
-  const attributeTypes = ['cost_model', 'scalability', 'complexity', 'maintenance'];
 
-  for (const attrType of attributeTypes) {
+  for (const { key: attrType } of attributeTypes) {
     matrix[attrType] = {};
     for (const option of options) {
       const attr = attributes.find(
         (a) => a.option_id === option.id && a.attribute_type === attrType
       );
       if (attr) {
-        matrix[attrType][option.id] = toAttributeValue(attr);
+        matrix[attrType][option.id] = toAttributeValue(attr, attributeTypes, ranges);
       }
     }
   }
@@ -140,75 +593,176 @@ function buildAttributeMatrix(
 }
 
 /**
- * Builds an OptionComparison object for a single option.
+ * Builds an OptionComparison object for a single option. Its score is the
+ * sum of the strategy's per-criterion points less the budget penalty.
  */
 function buildOptionComparison(
   option: OptionRow,
   attributes: AttributeRow[],
-  weights: WeightRow[],
+  attributeTypes: AttributeTypeRow[],
+  ranges: Map<string, MeasurementRange>,
+  integrationFit: IntegrationFit,
+  budgetFit: BudgetFit,
+  points: number[],
+  contributions: ScoreContribution[],
   constraints: Constraints
 ): OptionComparison {
   const optionAttrs = attributes.filter((a) => a.option_id === option.id);
   
   const getAttrValue = (type: string): AttributeValue => {
     const attr = optionAttrs.find((a) => a.attribute_type === type);
-    if (attr) return toAttributeValue(attr);
-    return { value: 'N/A', rating: 'medium', icon: '❓' };
+    if (attr) return toAttributeValue(attr, attributeTypes, ranges);
+    return {
+      value: 'N/A',
+      rating: 'medium',
+      measurement: null,
+      score: 50,
+      sentiment: 'neutral',
+      icon: '❓',
+      missing: true,
+    };
   };
 
+  const optionAttributes: OptionComparison['attributes'] = {};
+  for (const { key } of attributeTypes) {
+    optionAttributes[key] = getAttrValue(key);
+  }
+
+  const disqualifications = evaluateRules(option, optionAttrs, constraints.rules ?? [], attributeTypes);
+
   return {
     id: option.id,
     name: option.name,
     description: option.description,
-    attributes: {
-      costModel: getAttrValue('cost_model'),
-      scalability: getAttrValue('scalability'),
-      complexity: getAttrValue('complexity'),
-      maintenance: getAttrValue('maintenance'),
-    },
-    score: calculateOptionScore(optionAttrs, weights, constraints),
+    attributes: optionAttributes,
+    budgetFit,
+    integrationFit,
+    disqualified: disqualifications.length > 0,
+    disqualifications,
+    score: Math.max(0, totalScore(points) - budgetFit.penalty),
+    contributions,
+    rank: 0,
   };
 }
 
+/**
+ * Sorts options by score (highest first) and assigns ranks.
+ * Disqualified options come after every qualified one.
+ * Options with equal scores and the same standing share a rank.
+ */
+function rankOptions(comparisons: OptionComparison[]): OptionComparison[] {
+  const sorted = [...comparisons].sort(
+    (a, b) => Number(a.disqualified) - Number(b.disqualified) || b.score - a.score
+  );
+  const isTied = (a: OptionComparison, b: OptionComparison) =>
+    a.score === b.score && a.disqualified === b.disqualified;
+
+  return sorted.map((comparison, index) => {
+    const previous = sorted[index - 1];
+    const rank = previous && isTied(previous, comparison)
+      ? sorted.findIndex((c) => isTied(c, comparison)) + 1
+      : index + 1;
+    return { ...comparison, rank };
+  });
+}
+
 export interface ComparisonEngineInput {
   options: OptionRow[];
   attributes: AttributeRow[];
+  attributeTypes: AttributeTypeRow[];
   weights: WeightRow[];
+  integrations: IntegrationRow[];
   optionIntegrations: OptionIntegrationRow[];
   constraints: Constraints;
+  // Profile `weights` were taken from, if any
+  weightProfile?: WeightProfileSummary | null;
+  // Pricing formulas, used to cost options when the constraints give a usage profile
+  pricing?: OptionPricingRow[];
 }
 
 /**
  * Main comparison engine that computes trade-off scores.
  */
 export function compare(input: ComparisonEngineInput): ComparisonResult {
-  const { options, attributes, weights, optionIntegrations, constraints } = input;
-
-  // Filter options by required integrations
-  const filteredOptions = options.filter((option) =>
-    optionSupportsRequiredIntegrations(
-      option.id,
-      optionIntegrations,
-      constraints.requiredIntegrations
-    )
-  );
+  const {
+    options,
+    attributes,
+    attributeTypes,
+    weights,
+    integrations,
+    optionIntegrations,
+    constraints,
+  } = input;
+
+  // Measured attributes are scored relative to the options being compared
+  const ranges = getMeasurementRanges(attributes);
 
-  // Build comparison for each option
-  const optionComparisons = filteredOptions.map((option) =>
-    buildOptionComparison(option, attributes, weights, constraints)
+  // Required integrations are scored, not filtered
+  const integrationFits = options.map((option) =>
+    evaluateIntegrationFit(option.id, integrations, optionIntegrations, constraints.requiredIntegrations)
+  );
+  const budgetFits = options.map((option) => evaluateBudgetFit(option, constraints, input.pricing));
+  const decisionMatrix = buildDecisionMatrix(
+    options,
+    attributes,
+    attributeTypes,
+    ranges,
+    weights,
+    constraints,
+    integrationFits
   );
 
+  // Build comparison for each option, ranked best-first. Hard rules are
+  // checked before scoring; options that break one stay in the result,
+  // flagged and ranked last.
+  const strategy = SCORING_STRATEGIES[constraints.scoringMethod ?? DEFAULT_SCORING_METHOD];
+  const scoreWith = (scoringStrategy: ScoringStrategy): OptionComparison[] => {
+    const points = scoringStrategy.contributions(decisionMatrix);
+    return rankOptions(
+      options.map((option, index) =>
+        buildOptionComparison(
+          option,
+          attributes,
+          attributeTypes,
+          ranges,
+          integrationFits[index],
+          budgetFits[index],
+          points[index],
+          toScoreContributions(decisionMatrix, points[index], attributeTypes),
+          constraints
+        )
+      )
+    );
+  };
+  const optionComparisons = scoreWith(strategy);
+
+  // The top qualified option under every method shows how robust the winner is
+  const winners = Object.fromEntries(
+    Object.values(SCORING_STRATEGIES).map((s) => {
+      const [top] = s === strategy ? optionComparisons : scoreWith(s);
+      return [s.method, top && !top.disqualified ? top.name : null];
+    })
+  ) as ScoringMetadata['winners'];
+
   // Build attribute matrix
-  const matrix = buildAttributeMatrix(filteredOptions, attributes);
+  const matrix = buildAttributeMatrix(options, attributes, attributeTypes, ranges);
 
   return {
     options: optionComparisons,
     matrix,
+    attributeTypes: attributeTypes.map(toAttributeTypeSummary),
+    scoring: {
+      method: strategy.method,
+      label: strategy.label,
+      winners,
+    },
+    weightProfile: input.weightProfile ?? null,
   };
 }
 
 /**
- * Gets the effective weights for all attributes based on constraints.
+ * Gets the effective weights for all attributes based on constraints,
+ * including attributes weighted only by the user.
  * Useful for explanation generation.
  */
 export function getEffectiveWeights(
@@ -223,27 +777,27 @@ export function getEffectiveWeights(
       calculateEffectiveWeight(weight, constraints)
     );
   }
+
+  for (const attributeType of Object.keys(constraints.attributeWeights ?? {})) {
+    if (!effectiveWeights.has(attributeType)) {
+      effectiveWeights.set(attributeType, getUserWeight(attributeType, constraints) ?? 0);
+    }
+  }
   
   return effectiveWeights;
 }
 
 /**
- * Determines which attribute has the highest effective weight.
+ * Lists the catalog's attribute types from the highest effective weight to
+ * the lowest, keeping catalog order between equal weights.
  */
-export function getPrimaryAttribute(
+export function rankAttributesByWeight(
   weights: WeightRow[],
-  constraints: Constraints
-): string {
+  constraints: Constraints,
+  attributeTypes: Array<{ key: string }>
+): string[] {
   const effectiveWeights = getEffectiveWeights(weights, constraints);
-  let maxWeight = 0;
-  let primaryAttr = 'scalability';
-
-  for (const [attr, weight] of effectiveWeights) {
-    if (weight > maxWeight) {
-      maxWeight = weight;
-      primaryAttr = attr;
-    }
-  }
-
-  return primaryAttr;
+  return attributeTypes
+    .map((t) => t.key)
+    .sort((a, b) => (effectiveWeights.get(b) ?? 0) - (effectiveWeights.get(a) ?? 0));
 }
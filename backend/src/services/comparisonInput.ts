@@ -0,0 +1,157 @@
+import {
+  getAttributesByOptionIds,
+  getWeights,
+  getAttributeTypes,
+  getIntegrations,
+  getOptionIntegrationsByOptionIds,
+  getPricingByOptionIds,
+  getWeightProfileById,
+  getWeightProfileWeights,
+} from '../db/queries';
+import { ComparisonEngineInput, getUnmetIntegrations } from './comparisonEngine';
+import {
+  AppError,
+  ComparisonResult,
+  Constraints,
+  OptionRow,
+  WeightProfileSummary,
+  WeightRow,
+} from '../types';
+
+/**
+ * Replaces default weights with the given ones, attribute by attribute.
+ * Attributes without an override keep their default.
+ */
+export function overrideWeights(defaults: WeightRow[], overrides: WeightRow[]): WeightRow[] {
+  const overridden = new Set(overrides.map((w) => w.attribute_type));
+  return [...defaults.filter((w) => !overridden.has(w.attribute_type)), ...overrides];
+}
+
+/**
+ * Loads the default weights, overridden by the constraints' weight profile
+ * if one is named. Attributes the profile leaves out keep their defaults.
+ */
+async function loadWeights(
+  constraints: Constraints
+): Promise<{ weights: WeightRow[]; weightProfile: WeightProfileSummary | null }> {
+  if (!constraints.weightProfileId) {
+    return { weights: await getWeights(), weightProfile: null };
+  }
+
+  const [profile, defaults, profileWeights] = await Promise.all([
+    getWeightProfileById(constraints.weightProfileId),
+    getWeights(),
+    getWeightProfileWeights(constraints.weightProfileId),
+  ]);
+  if (!profile) {
+    throw new AppError(
+      `Unknown weight profile: ${constraints.weightProfileId}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  return {
+    weights: overrideWeights(defaults, profileWeights),
+    weightProfile: { id: profile.id, name: profile.name },
+  };
+}
+
+/**
+ * Loads the attributes, catalog, weights, integrations and (with a usage
+ * profile) pricing formulas the comparison engine needs for the given
+ * options. Constraints that name attribute types, integrations or a weight
+ * profile the catalog doesn't know about are rejected.
+ */
+export async function loadComparisonInput(
+  constraints: Constraints,
+  options: OptionRow[]
+): Promise<ComparisonEngineInput> {
+  const optionIds = options.map((o) => o.id);
+  const [attributes, attributeTypes, { weights, weightProfile }, integrations, optionIntegrations, pricing] =
+    await Promise.all([
+      getAttributesByOptionIds(optionIds),
+      getAttributeTypes(),
+      loadWeights(constraints),
+      getIntegrations(),
+      getOptionIntegrationsByOptionIds(optionIds),
+      constraints.usage ? getPricingByOptionIds(optionIds) : Promise.resolve([]),
+    ]);
+
+  // Reject importance ratings for attributes the catalog doesn't know about
+  const unknownWeights = Object.keys(constraints.attributeWeights ?? {}).filter(
+    (key) => !attributeTypes.some((t) => t.key === key)
+  );
+  if (unknownWeights.length > 0) {
+    throw new AppError(
+      `Unknown attribute type(s) in attributeWeights: ${unknownWeights.join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  // Reject rules on attributes the catalog doesn't know about
+  const unknownRuleFields = (constraints.rules ?? [])
+    .map((rule) => rule.field)
+    .filter((field) => field !== 'category' && !attributeTypes.some((t) => t.key === field));
+  if (unknownRuleFields.length > 0) {
+    throw new AppError(
+      `Unknown attribute type(s) in rules: ${[...new Set(unknownRuleFields)].join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  // Reject required integrations that don't exist
+  const unknownIntegrations = constraints.requiredIntegrations.filter(
+    (id) => !integrations.some((i) => i.id === id)
+  );
+  if (unknownIntegrations.length > 0) {
+    throw new AppError(
+      `Unknown integration(s) in requiredIntegrations: ${unknownIntegrations.join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  return {
+    options,
+    attributes,
+    attributeTypes,
+    weights,
+    integrations,
+    optionIntegrations,
+    constraints,
+    weightProfile,
+    pricing,
+  };
+}
+
+/**
+ * In strict integration mode, fails a comparison in which any option lacks
+ * a required integration, listing the missing integrations per option.
+ */
+export function assertIntegrationsMet(comparisonResult: ComparisonResult, constraints: Constraints): void {
+  if ((constraints.integrationMode ?? 'strict') !== 'strict') return;
+
+  const missing: Record<string, string> = {};
+  for (const option of comparisonResult.options) {
+    const unmet = getUnmetIntegrations(option.integrationFit);
+    if (unmet.length > 0) {
+      missing[option.name] = unmet.map((i) => i.name).join(', ');
+    }
+  }
+
+  if (Object.keys(missing).length > 0) {
+    const summary = Object.entries(missing)
+      .map(([optionName, names]) => `${optionName} (${names})`)
+      .join('; ');
+    throw new AppError(
+      `Options missing required integrations: ${summary}. ` +
+        'Set integrationMode to "lenient" to compare them anyway.',
+      400,
+      'VALIDATION_ERROR',
+      missing
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  OptionPricingRow,
+  OptionRow,
+  PricingLineItem,
+  PricingUnit,
+  UsageCostEstimate,
+  UsageProfile,
+} from '../types';
+
+// How much of each pricing unit a usage profile consumes in a month
+const USAGE_BY_UNIT: Record<PricingUnit, (usage: UsageProfile) => number> = {
+  request: (usage) => usage.requestsPerMonth ?? 0,
+  gb: (usage) => usage.storageGb ?? 0,
+  hour: (usage) => usage.hoursPerMonth ?? 0,
+  seat: (usage) => usage.seats ?? 0,
+  month: () => 1,
+};
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Applies one pricing formula to a usage profile. Usage within the free
+ * allowance costs nothing.
+ */
+function priceLineItem(row: OptionPricingRow, usage: UsageProfile): PricingLineItem {
+  const quantity = USAGE_BY_UNIT[row.unit](usage);
+  const freeUnits = Number(row.free_units);
+  const unitPrice = Number(row.unit_price);
+  return {
+    unit: row.unit,
+    description: row.description,
+    quantity,
+    freeUnits,
+    unitPrice,
+    cost: roundToCents(Math.max(0, quantity - freeUnits) * unitPrice),
+  };
+}
+
+/**
+ * Works out an option's monthly cost for a usage profile from its pricing
+ * formulas. The cost is null when the option has none.
+ */
+export function estimateUsageCost(
+  option: OptionRow,
+  pricing: OptionPricingRow[],
+  usage: UsageProfile
+): UsageCostEstimate {
+  const lineItems = pricing
+    .filter((row) => row.option_id === option.id)
+    .map((row) => priceLineItem(row, usage));
+
+  return {
+    optionId: option.id,
+    name: option.name,
+    monthlyCost:
+      lineItems.length > 0 ? roundToCents(lineItems.reduce((sum, item) => sum + item.cost, 0)) : null,
+    lineItems,
+  };
+}
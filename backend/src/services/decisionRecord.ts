@@ -0,0 +1,305 @@
+import {
+  AIComparisonResult,
+  CompareResponse,
+  ComparisonResult,
+  ConstraintImpact,
+  ExportFormat,
+  OptionAnalysis,
+  OptionComparison,
+  PivotResult,
+} from '../types';
+
+/**
+ * Escapes text for use inside a Markdown table cell.
+ */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function bulletList(items: string[], empty: string): string[] {
+  return items.length > 0 ? items.map((item) => `- ${item}`) : [`- ${empty}`];
+}
+
+function formatScore(score: number): string {
+  return `${Math.round(score)}/100`;
+}
+
+function findAnalysis(explanation: CompareResponse['explanation'], option: OptionComparison): OptionAnalysis | undefined {
+  return explanation.optionAnalysis.find((a) => a.optionId === option.id);
+}
+
+/**
+ * Renders the attribute matrix as a table with one column per option,
+ * followed by budget fit, integration fit (when integrations were
+ * required) and overall score rows.
+ */
+function renderMatrix(comparison: ComparisonResult): string[] {
+  const { options, attributeTypes } = comparison;
+  const lines = [
+    `| Attribute | ${options.map((o) => cell(o.name)).join(' | ')} |`,
+    `|---|${options.map(() => '---').join('|')}|`,
+  ];
+
+  for (const type of attributeTypes) {
+    const values = options.map((o) => {
+      const attr = o.attributes[type.key];
+      if (!attr) return 'N/A';
+      if (attr.measurement) {
+        const unit = attr.measurement.unit ? ` ${attr.measurement.unit}` : '';
+        return cell(`${attr.measurement.value}${unit} (${attr.score}/100)`);
+      }
+      return cell(`${attr.value} (${attr.rating})`);
+    });
+    lines.push(`| ${cell(type.name)} | ${values.join(' | ')} |`);
+  }
+
+  lines.push(`| Budget fit | ${options.map((o) => o.budgetFit.status).join(' | ')} |`);
+  if (options.some((o) => o.integrationFit.score !== null)) {
+    const fits = options.map((o) =>
+      cell(o.integrationFit.integrations.map((i) => `${i.name}: ${i.supportLevel}`).join(', '))
+    );
+    lines.push(`| Integrations | ${fits.join(' | ')} |`);
+  }
+  lines.push(`| Score | ${options.map((o) => formatScore(o.score)).join(' | ')} |`);
+
+  return lines;
+}
+
+function renderConstraintImpact(impacts: ConstraintImpact[]): string[] {
+  return bulletList(
+    impacts.map((i) => `**${i.constraint}:** ${i.impact}`),
+    'No constraints changed the outcome.'
+  );
+}
+
+function renderOptionAnalysis(option: OptionComparison, analysis: OptionAnalysis | undefined): string[] {
+  const lines = [
+    `### ${option.rank}. ${option.name} (${formatScore(option.score)})`,
+    '',
+    option.description,
+    '',
+    `Budget: ${option.budgetFit.reason}`,
+  ];
+
+  if (option.disqualified) {
+    // Responses from before rules existed may lack the reasons
+    const reasons = option.disqualifications ?? [];
+    lines.push('', `**Disqualified:** ${reasons.length > 0 ? reasons.join('; ') : 'fails a rule'}`);
+  }
+
+  if (analysis) {
+    lines.push(
+      '',
+      '**Strengths**',
+      '',
+      ...bulletList(analysis.strengths, 'None identified'),
+      '',
+      '**Weaknesses**',
+      '',
+      ...bulletList(analysis.weaknesses, 'None identified'),
+      '',
+      `Fit: ${analysis.fitReason}`
+    );
+  }
+
+  return lines;
+}
+
+function renderPivot(pivot: PivotResult): string[] {
+  const lines = [pivot.statement];
+
+  if (pivot.factorWinners.length > 0) {
+    lines.push(
+      '',
+      ...pivot.factorWinners.map((f) => `- Best on ${f.factor}: ${f.winners.join(', ')}`)
+    );
+  }
+
+  if (pivot.pairwise.length > 0) {
+    lines.push('', ...pivot.pairwise.map((p) => `- ${p.optionA} vs ${p.optionB}: ${p.statement}`));
+  }
+
+  return lines;
+}
+
+function renderAIAnalysis(ai: AIComparisonResult): string[] {
+  const lines = [`**Recommendation:** ${ai.recommendation}`, '', ai.summary];
+  if (ai.confidenceScore) {
+    lines.push('', `Confidence: ${ai.confidenceScore}% (chance the leader stays on top as uncertain ratings and weights vary)`);
+  }
+  return lines;
+}
+
+/**
+ * Renders the Decision and Consequences sections of an ADR for the chosen
+ * option.
+ */
+function renderChoice(response: CompareResponse, chosen: OptionComparison): string[] {
+  const { comparison, explanation, pivot, aiAnalysis } = response;
+  const chosenAnalysis = findAnalysis(explanation, chosen);
+
+  // Factors where another option does better are what the team gives up
+  const givenUp = pivot.factorWinners.filter((f) => !f.winners.includes(chosen.name));
+  const revisitIf = pivot.pairwise
+    .filter((p) => p.optionA === chosen.name || p.optionB === chosen.name)
+    .map((p) => p.statement);
+
+  const lines = [
+    '## Decision',
+    '',
+    `We choose **${chosen.name}** (${formatScore(chosen.score)}), ranked first of ${comparison.options.length}.`,
+  ];
+  if (chosenAnalysis) {
+    lines.push('', chosenAnalysis.fitReason);
+  }
+  if (aiAnalysis) {
+    lines.push('', ...renderAIAnalysis(aiAnalysis));
+  }
+
+  lines.push(
+    '',
+    '## Consequences',
+    '',
+    '**Positive**',
+    '',
+    ...bulletList(chosenAnalysis?.strengths ?? [], 'None identified'),
+    '',
+    '**Negative**',
+    '',
+    ...bulletList(
+      [
+        ...(chosenAnalysis?.weaknesses ?? []),
+        ...givenUp.map((f) => `${f.winners.join(', ')} ${f.winners.length > 1 ? 'do' : 'does'} better on ${f.factor}`),
+      ],
+      'None identified'
+    ),
+    '',
+    '**Revisit if**',
+    '',
+    ...bulletList(revisitIf, pivot.statement)
+  );
+
+  return lines;
+}
+
+/**
+ * Renders the Decision and Consequences sections of an ADR in which every
+ * option is disqualified, so none can be chosen.
+ */
+function renderNoChoice(response: CompareResponse): string[] {
+  const { comparison, aiAnalysis } = response;
+
+  const lines = [
+    '## Decision',
+    '',
+    `No qualifying option: all ${comparison.options.length} options are disqualified by the rules, so none is chosen.`,
+  ];
+  if (aiAnalysis) {
+    lines.push('', ...renderAIAnalysis(aiAnalysis));
+  }
+
+  lines.push(
+    '',
+    '## Consequences',
+    '',
+    '- The decision stays open until the rules are relaxed or other options are considered.'
+  );
+
+  return lines;
+}
+
+/**
+ * Renders a comparison as an Architecture Decision Record with
+ * Context / Options / Decision / Consequences sections. The decision is
+ * the top qualified option, or none when every option is disqualified.
+ */
+function renderAdr(response: CompareResponse, date: string): string[] {
+  const { comparison, explanation } = response;
+  const chosen = comparison.options.find((o) => !o.disqualified);
+
+  const lines = [
+    `# ADR: ${chosen ? `Choose ${chosen.name}` : 'No qualifying option'}`,
+    '',
+    `- Status: Proposed`,
+    `- Date: ${date}`,
+    `- Options considered: ${comparison.options.map((o) => o.name).join(', ')}`,
+    '',
+    '## Context',
+    '',
+    explanation.summary,
+    '',
+    'Constraints and how they shaped the result:',
+    '',
+    ...renderConstraintImpact(explanation.constraintImpact),
+    '',
+    '## Options',
+    '',
+    ...renderMatrix(comparison),
+  ];
+
+  for (const option of comparison.options) {
+    lines.push('', ...renderOptionAnalysis(option, findAnalysis(explanation, option)));
+  }
+
+  lines.push('', ...(chosen ? renderChoice(response, chosen) : renderNoChoice(response)));
+
+  return lines;
+}
+
+/**
+ * Renders a comparison as a plain Markdown report.
+ */
+function renderMarkdown(response: CompareResponse, date: string): string[] {
+  const { comparison, explanation, pivot, aiAnalysis } = response;
+
+  const lines = [
+    `# Comparison: ${comparison.options.map((o) => o.name).join(' vs ')}`,
+    '',
+    `_Generated ${date}_`,
+    '',
+    '## Summary',
+    '',
+    explanation.summary,
+    '',
+    '## Attribute Matrix',
+    '',
+    ...renderMatrix(comparison),
+    '',
+    '## Trade-offs',
+  ];
+
+  for (const option of comparison.options) {
+    lines.push('', ...renderOptionAnalysis(option, findAnalysis(explanation, option)));
+  }
+
+  lines.push(
+    '',
+    '## Constraint Impact',
+    '',
+    ...renderConstraintImpact(explanation.constraintImpact),
+    '',
+    '## Pivot',
+    '',
+    ...renderPivot(pivot)
+  );
+
+  if (aiAnalysis) {
+    lines.push('', '## AI Analysis', '', ...renderAIAnalysis(aiAnalysis));
+  }
+
+  return lines;
+}
+
+/**
+ * Renders a compare response as a decision record document.
+ * Options are expected in rank order, as POST /api/compare returns them.
+ */
+export function renderDecisionRecord(
+  response: CompareResponse,
+  format: ExportFormat,
+  date: Date = new Date()
+): string {
+  const isoDate = date.toISOString().slice(0, 10);
+  const lines = format === 'adr' ? renderAdr(response, isoDate) : renderMarkdown(response, isoDate);
+  return `${lines.join('\n')}\n`;
+}
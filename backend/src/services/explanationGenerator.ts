@@ -7,139 +7,167 @@ import {
   PivotResult,
   OptionComparison,
   WeightRow,
+  AttributeTypeRow,
+  AttributeTypeSummary,
+  BudgetFitStatus,
+  RatingSentiment,
+  FactorWinner,
+  PairwisePivot,
 } from '../types';
-import { getEffectiveWeights, getPrimaryAttribute } from './comparisonEngine';
-
-// Human-readable attribute names
-const ATTRIBUTE_NAMES: Record<string, string> = {
-  cost_model: 'cost efficiency',
-  scalability: 'scalability',
-  complexity: 'operational simplicity',
-  maintenance: 'maintenance overhead',
-};
-
-// Rating descriptions for strengths/weaknesses
-const RATING_DESCRIPTIONS: Record<string, Record<string, string>> = {
-  cost_model: {
-    high: 'excellent cost efficiency',
-    medium: 'moderate cost structure',
-    low: 'higher cost requirements',
-  },
-  scalability: {
-    high: 'excellent scalability characteristics',
-    medium: 'adequate scaling capabilities',
-    low: 'limited scalability options',
-  },
-  complexity: {
-    high: 'straightforward operations',
-    medium: 'manageable complexity',
-    low: 'significant operational complexity',
-  },
-  maintenance: {
-    high: 'minimal maintenance burden',
-    medium: 'standard maintenance needs',
-    low: 'substantial maintenance requirements',
-  },
-};
+import { describeRule, getUnmetIntegrations, rankAttributesByWeight } from './comparisonEngine';
+import { SCORING_STRATEGIES } from './scoringStrategies';
+
+// Budget fit statuses that count against an option
+const BUDGET_WEAKNESS_STATUSES: BudgetFitStatus[] = ['stretch', 'over', 'exceeds'];
 
 /**
- * Determines strengths for an option based on high-rated attributes.
+ * Human-readable phrase for an attribute type, used inside sentences.
  */
-function getStrengths(option: OptionComparison): string[] {
+function getFactorName(attributeTypes: AttributeTypeSummary[], key: string): string {
+  const attributeType = attributeTypes.find((t) => t.key === key);
+  return attributeType ? attributeType.name.toLowerCase() : key.replace(/_/g, ' ');
+}
+
+/**
+ * Determines strengths for an option based on favorably rated attributes.
+ */
+function getStrengths(option: OptionComparison, attributeTypes: AttributeTypeRow[]): string[] {
   const strengths: string[] = [];
-  const attrs = option.attributes;
 
-  if (attrs.costModel.rating === 'high') {
-    strengths.push(RATING_DESCRIPTIONS.cost_model.high);
-  }
-  if (attrs.scalability.rating === 'high') {
-    strengths.push(RATING_DESCRIPTIONS.scalability.high);
-  }
-  if (attrs.complexity.rating === 'high') {
-    strengths.push(RATING_DESCRIPTIONS.complexity.high);
-  }
-  if (attrs.maintenance.rating === 'high') {
-    strengths.push(RATING_DESCRIPTIONS.maintenance.high);
+  for (const attributeType of attributeTypes) {
+    if (option.attributes[attributeType.key]?.sentiment === 'favorable') {
+      strengths.push(attributeType.strength_text || `strong ${attributeType.name.toLowerCase()}`);
+    }
   }
 
   return strengths.length > 0 ? strengths : ['balanced performance across attributes'];
 }
 
 /**
- * Determines weaknesses for an option based on low-rated attributes.
+ * Determines weaknesses for an option based on unfavorably rated attributes.
  */
-function getWeaknesses(option: OptionComparison): string[] {
+function getWeaknesses(option: OptionComparison, attributeTypes: AttributeTypeRow[]): string[] {
   const weaknesses: string[] = [];
-  const attrs = option.attributes;
 
-  if (attrs.costModel.rating === 'low') {
-    weaknesses.push(RATING_DESCRIPTIONS.cost_model.low);
-  }
-  if (attrs.scalability.rating === 'low') {
-    weaknesses.push(RATING_DESCRIPTIONS.scalability.low);
+  for (const attributeType of attributeTypes) {
+    if (option.attributes[attributeType.key]?.sentiment === 'unfavorable') {
+      weaknesses.push(attributeType.weakness_text || `weak ${attributeType.name.toLowerCase()}`);
+    }
   }
-  if (attrs.complexity.rating === 'low') {
-    weaknesses.push(RATING_DESCRIPTIONS.complexity.low);
+  if (BUDGET_WEAKNESS_STATUSES.includes(option.budgetFit.status)) {
+    weaknesses.push(option.budgetFit.reason.toLowerCase());
   }
-  if (attrs.maintenance.rating === 'low') {
-    weaknesses.push(RATING_DESCRIPTIONS.maintenance.low);
+  const unmet = getUnmetIntegrations(option.integrationFit);
+  if (unmet.length > 0) {
+    weaknesses.push(`no known support for required ${unmet.map((i) => i.name).join(', ')}`);
   }
 
   return weaknesses.length > 0 ? weaknesses : ['no significant weaknesses identified'];
 }
 
+// Contributions named in a fit reason
+const FIT_REASON_DRIVERS = 2;
+
 /**
- * Generates a fit reason based on score and constraints.
+ * Names the criteria that add the most points to an option's score, which
+ * already reflect the weights and scalability priority it was scored under.
  */
-function generateFitReason(
-  option: OptionComparison,
-  constraints: Constraints
-): string {
-  const { scalabilityPriority } = constraints;
-  const scalabilityRating = option.attributes.scalability.rating;
+function topDrivers(option: OptionComparison): string[] {
+  return [...option.contributions]
+    .filter((c) => c.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, FIT_REASON_DRIVERS)
+    .map((c) => c.name);
+}
 
-  if (scalabilityPriority === 'high' && scalabilityRating === 'high') {
-    return `Strong fit for high-scalability requirements with ${scalabilityRating} scalability rating`;
+/**
+ * Generates a fit reason from the option's standing and the weighted
+ * criteria that drive its score.
+ */
+function generateFitReason(option: OptionComparison): string {
+  if (option.disqualified) {
+    return `Disqualified: ${option.disqualifications.join('; ')}`;
+  }
+  if (option.budgetFit.status === 'exceeds') {
+    return `Ruled out by budget: ${option.budgetFit.reason}`;
   }
-  if (scalabilityPriority === 'low' && option.attributes.costModel.rating === 'high') {
-    return 'Well-suited for cost-conscious scenarios with excellent cost efficiency';
+  if (option.budgetFit.status === 'over') {
+    return `Likely over budget: ${option.budgetFit.reason}`;
   }
+
+  const drivers = topDrivers(option).join(' and ');
   if (option.score >= 70) {
-    return 'Good overall fit based on weighted attribute scores';
+    return drivers
+      ? `Good overall fit, driven mostly by ${drivers}`
+      : 'Good overall fit based on weighted attribute scores';
   }
   if (option.score >= 50) {
-    return 'Moderate fit with some trade-offs to consider';
+    return drivers
+      ? `Moderate fit: ${drivers} carry most of its score, with trade-offs elsewhere`
+      : 'Moderate fit with some trade-offs to consider';
   }
-  return 'May require careful consideration of trade-offs for your constraints';
+  return drivers
+    ? `Weak fit for your constraints; its strongest points are ${drivers}`
+    : 'May require careful consideration of trade-offs for your constraints';
 }
 
 /**
  * Analyzes a single option for the trade-off explanation.
  */
-function analyzeOption(
-  option: OptionComparison,
-  constraints: Constraints
-): OptionAnalysis {
+function analyzeOption(option: OptionComparison, attributeTypes: AttributeTypeRow[]): OptionAnalysis {
   return {
     optionId: option.id,
     optionName: option.name,
-    strengths: getStrengths(option),
-    weaknesses: getWeaknesses(option),
+    strengths: getStrengths(option, attributeTypes),
+    weaknesses: getWeaknesses(option, attributeTypes),
     fitScore: option.score,
-    fitReason: generateFitReason(option, constraints),
+    fitReason: generateFitReason(option),
   };
 }
 
 /**
  * Generates constraint impact descriptions.
  */
-function generateConstraintImpacts(constraints: Constraints): ConstraintImpact[] {
+function generateConstraintImpacts(
+  comparison: ComparisonResult,
+  constraints: Constraints,
+  attributeTypes: AttributeTypeRow[]
+): ConstraintImpact[] {
   const impacts: ConstraintImpact[] = [];
 
+  // Hard rule impact
+  const rules = constraints.rules ?? [];
+  if (rules.length > 0) {
+    const disqualified = comparison.options.filter((o) => o.disqualified);
+    impacts.push({
+      constraint: 'Hard Rules',
+      impact: `${rules.map((rule) => describeRule(rule, attributeTypes)).join('; ')}. ` +
+        (disqualified.length === 0
+          ? 'Every option meets them'
+          : disqualified.map((o) => `${o.name} is disqualified: ${o.disqualifications.join('; ')}`).join('. ')),
+    });
+  }
+
   // Budget impact
+  const budgetRange = `$${constraints.budgetMin}-$${constraints.budgetMax}/month`;
+  const penalized = comparison.options.filter((o) => o.budgetFit.penalty > 0);
+  const unestimated = comparison.options.filter((o) => o.budgetFit.status === 'unknown');
+  let budgetImpact = penalized.length === 0
+    ? `All options with a cost estimate fit within ${budgetRange}`
+    : `Budget of ${budgetRange} penalizes ` +
+      penalized
+        .map((o) => `${o.name} (${o.budgetFit.status === 'exceeds' ? 'ruled out' : `-${o.budgetFit.penalty} pts`})`)
+        .join(', ');
+  if (unestimated.length > 0) {
+    budgetImpact += `; no cost estimate for ${unestimated.map((o) => o.name).join(', ')}`;
+  }
+  const usagePriced = comparison.options.filter((o) => o.budgetFit.estimate?.basis === 'usage');
+  if (usagePriced.length > 0) {
+    budgetImpact += `; ${usagePriced.map((o) => o.name).join(', ')} priced on your usage`;
+  }
   impacts.push({
     constraint: 'Budget Range',
-    impact: `Budget constraints ($${constraints.budgetMin}-$${constraints.budgetMax}) influence cost model weighting`,
+    impact: budgetImpact,
   });
 
   // Scalability priority impact
@@ -153,44 +181,102 @@ function generateConstraintImpacts(constraints: Constraints): ConstraintImpact[]
     impact: scalabilityImpacts[constraints.scalabilityPriority],
   });
 
+  if (comparison.weightProfile) {
+    impacts.push({
+      constraint: 'Weight Profile',
+      impact: `Default weights and scalability modifiers come from the ${comparison.weightProfile.name} profile`,
+    });
+  }
+
+  // User attribute importance impact
+  const userWeights = Object.entries(constraints.attributeWeights ?? {});
+  if (userWeights.length > 0) {
+    impacts.push({
+      constraint: 'Attribute Importance',
+      impact: 'Your importance ratings replace the default weights for ' +
+        userWeights
+          .sort(([, a], [, b]) => b - a)
+          .map(([key, importance]) => `${getFactorName(comparison.attributeTypes, key)} (${importance}/10)`)
+          .join(', '),
+    });
+  }
+
   // Integration requirements impact
   if (constraints.requiredIntegrations.length > 0) {
+    const breakdown = comparison.options.map((o) => {
+      const levels = o.integrationFit.integrations
+        .map((i) => `${i.name} ${i.supportLevel}`)
+        .join(', ');
+      return `${o.name} ${o.integrationFit.score}/100 (${levels})`;
+    });
+    const unmet = comparison.options
+      .map((o) => ({ name: o.name, missing: getUnmetIntegrations(o.integrationFit) }))
+      .filter((o) => o.missing.length > 0)
+      .map((o) => `${o.name} lacks ${o.missing.map((i) => i.name).join(', ')}`);
     impacts.push({
       constraint: 'Required Integrations',
-      impact: `${constraints.requiredIntegrations.length} required integration(s) filter available options`,
+      impact: 'Integration fit is scored by support level (native > plugin > custom > unknown): ' +
+        breakdown.join('; ') +
+        (unmet.length > 0 ? `. Unmet requirements: ${unmet.join('; ')}` : ''),
     });
   }
 
+  // Scoring method impact: whether the leader holds up under other methods
+  const { label, winners } = comparison.scoring;
+  const picks = Object.values(SCORING_STRATEGIES).map((strategy) => ({
+    label: strategy.label,
+    winner: winners[strategy.method],
+  }));
+  const agreed = new Set(picks.map((p) => p.winner)).size === 1;
+  impacts.push({
+    constraint: 'Scoring Method',
+    impact: `Scored with ${label}. ` +
+      (agreed
+        ? `Every scoring method picks ${picks[0].winner ?? 'no qualified option'}`
+        : `The top option depends on the method: ` +
+          picks.map((p) => `${p.label} picks ${p.winner ?? 'no qualified option'}`).join(', ')),
+  });
+
   return impacts;
 }
 
 /**
  * Generates the summary text for the trade-off explanation.
+ * Options arrive ranked, so the first two qualified options are the leader
+ * and runner-up.
  */
 function generateSummary(
   comparison: ComparisonResult,
   constraints: Constraints
 ): string {
-  const options = comparison.options;
-  
-  if (options.length < 2) {
-    return 'Insufficient options available for comparison based on current constraints.';
+  const options = comparison.options.filter((o) => !o.disqualified);
+  const disqualified = comparison.options.filter((o) => o.disqualified);
+  const ruledOut = disqualified.length > 0
+    ? ` ${disqualified.map((o) => o.name).join(', ')} ${disqualified.length > 1 ? 'break' : 'breaks'} your hard rules.`
+    : '';
+
+  if (options.length === 0) {
+    return `No option meets all of your hard rules.${ruledOut}`;
+  }
+  if (options.length === 1) {
+    return `${options[0].name} is the only option that meets all of your hard rules ` +
+      `(score: ${options[0].score}).${ruledOut}`;
   }
 
-  const [optionA, optionB] = options;
-  const scoreDiff = Math.abs(optionA.score - optionB.score);
+  const [leader, runnerUp, ...rest] = options;
+  const scoreDiff = Math.abs(leader.score - runnerUp.score);
+  const others = rest.length > 0
+    ? ` The remaining options trail: ${rest.map((o) => `${o.name} (score: ${o.score})`).join(', ')}.`
+    : '';
 
   if (scoreDiff < 10) {
-    return `${optionA.name} and ${optionB.name} are closely matched under your current constraints. ` +
-      `The decision depends on which specific attributes matter most to your use case.`;
+    return `${leader.name} and ${runnerUp.name} are closely matched under your current constraints. ` +
+      `The decision depends on which specific attributes matter most to your use case.${others}${ruledOut}`;
   }
 
-  const higher = optionA.score > optionB.score ? optionA : optionB;
-  const lower = optionA.score > optionB.score ? optionB : optionA;
-
-  return `Based on your constraints, ${higher.name} shows a stronger fit (score: ${higher.score}) ` +
-    `compared to ${lower.name} (score: ${lower.score}). However, ${lower.name} may be preferable ` +
-    `if certain attributes are more critical to your specific needs.`;
+  return `Based on your constraints, ${leader.name} shows a stronger fit (score: ${leader.score}) ` +
+    `compared to ${runnerUp.name} (score: ${runnerUp.score}). However, ${runnerUp.name} may be preferable ` +
+    `if certain attributes are more critical to your specific needs.${others}${ruledOut}`;
 }
 
 /**
@@ -198,85 +284,57 @@ function generateSummary(
  */
 export function generate(
   comparison: ComparisonResult,
-  constraints: Constraints
+  constraints: Constraints,
+  attributeTypes: AttributeTypeRow[]
 ): TradeOffExplanation {
   const optionAnalysis = comparison.options.map((option) =>
-    analyzeOption(option, constraints)
+    analyzeOption(option, attributeTypes)
   );
 
   return {
     summary: generateSummary(comparison, constraints),
     optionAnalysis,
-    constraintImpact: generateConstraintImpacts(constraints),
+    constraintImpact: generateConstraintImpacts(comparison, constraints, attributeTypes),
   };
 }
 
+const SENTIMENT_VALUES: Record<RatingSentiment, number> = { unfavorable: 1, neutral: 2, favorable: 3 };
+
 /**
- * Generates the pivot statement for decision-making.
- * Format: "If X matters more than Y, choose A; otherwise choose B"
+ * How good an option's attribute is, from 1 (worst) to 3 (best) regardless
+ * of the attribute's direction; missing attributes count as neutral.
  */
-export function generatePivot(
-  comparison: ComparisonResult,
-  constraints: Constraints,
-  weights: WeightRow[]
-): PivotResult {
-  const options = comparison.options;
-
-  if (options.length < 2) {
-    return {
-      statement: 'Unable to generate pivot statement with fewer than two options.',
-      primaryFactor: 'N/A',
-      secondaryFactor: 'N/A',
-      optionA: options[0]?.name || 'N/A',
-      optionB: 'N/A',
-    };
-  }
-
-  const [optionA, optionB] = options;
-  
-  // Determine primary differentiating factors
-  const primaryAttr = getPrimaryAttribute(weights, constraints);
-  const effectiveWeights = getEffectiveWeights(weights, constraints);
-  
-  // Find secondary factor (second highest weight)
-  let secondaryAttr = 'cost_model';
-  let secondHighestWeight = 0;
-  for (const [attr, weight] of effectiveWeights) {
-    if (attr !== primaryAttr && weight > secondHighestWeight) {
-      secondHighestWeight = weight;
-      secondaryAttr = attr;
-    }
-  }
-
-  const primaryName = ATTRIBUTE_NAMES[primaryAttr] || primaryAttr;
-  const secondaryName = ATTRIBUTE_NAMES[secondaryAttr] || secondaryAttr;
-
-  // Determine which option is better for which factor
-  const attrKeyMap: Record<string, keyof typeof optionA.attributes> = {
-    cost_model: 'costModel',
-    scalability: 'scalability',
-    complexity: 'complexity',
-    maintenance: 'maintenance',
-  };
+function getRatingValue(option: OptionComparison, attributeType: string): number {
+  return SENTIMENT_VALUES[option.attributes[attributeType]?.sentiment ?? 'neutral'];
+}
 
-  const primaryKey = attrKeyMap[primaryAttr] || 'scalability';
-  const secondaryKey = attrKeyMap[secondaryAttr] || 'costModel';
+/**
+ * Builds the "If X matters more than Y, choose A; otherwise choose B" statement
+ * for a single pair of options.
+ */
+function buildPairStatement(
+  optionA: OptionComparison,
+  optionB: OptionComparison,
+  primaryAttr: string,
+  secondaryAttr: string,
+  attributeTypes: AttributeTypeSummary[]
+): string {
+  const primaryName = getFactorName(attributeTypes, primaryAttr);
+  const secondaryName = getFactorName(attributeTypes, secondaryAttr);
 
-  const aRatingPrimary = optionA.attributes[primaryKey].rating;
-  const bRatingPrimary = optionB.attributes[primaryKey].rating;
-  const aRatingSecondary = optionA.attributes[secondaryKey].rating;
-  const bRatingSecondary = optionB.attributes[secondaryKey].rating;
+  const aRatingPrimary = getRatingValue(optionA, primaryAttr);
+  const bRatingPrimary = getRatingValue(optionB, primaryAttr);
+  const aRatingSecondary = getRatingValue(optionA, secondaryAttr);
+  const bRatingSecondary = getRatingValue(optionB, secondaryAttr);
 
   // Determine recommendations based on attribute strengths
   let recommendForPrimary = optionA.name;
   let recommendForSecondary = optionB.name;
 
-  const ratingValue = { low: 1, medium: 2, high: 3 };
-  
-  if (ratingValue[bRatingPrimary] > ratingValue[aRatingPrimary]) {
+  if (bRatingPrimary > aRatingPrimary) {
     recommendForPrimary = optionB.name;
     recommendForSecondary = optionA.name;
-  } else if (ratingValue[aRatingSecondary] > ratingValue[bRatingSecondary]) {
+  } else if (aRatingSecondary > bRatingSecondary) {
     recommendForSecondary = optionA.name;
     if (recommendForPrimary === optionA.name) {
       recommendForSecondary = optionB.name;
@@ -288,14 +346,77 @@ export function generatePivot(
     recommendForSecondary = recommendForPrimary === optionA.name ? optionB.name : optionA.name;
   }
 
-  const statement = `If ${primaryName} matters more than ${secondaryName}, ` +
+  return `If ${primaryName} matters more than ${secondaryName}, ` +
     `choose ${recommendForPrimary}; otherwise choose ${recommendForSecondary}`;
+}
+
+/**
+ * Finds the best-rated option(s) for every attribute in the catalog.
+ */
+function getFactorWinners(
+  options: OptionComparison[],
+  attributeTypes: AttributeTypeSummary[]
+): FactorWinner[] {
+  return attributeTypes.map(({ key }) => {
+    const best = Math.max(...options.map((o) => getRatingValue(o, key)));
+    return {
+      attributeType: key,
+      factor: getFactorName(attributeTypes, key),
+      winners: options
+        .filter((o) => getRatingValue(o, key) === best)
+        .map((o) => o.name),
+    };
+  });
+}
+
+/**
+ * Generates the pivot statement for decision-making.
+ * Format: "If X matters more than Y, choose A; otherwise choose B"
+ * The headline statement contrasts the two top-ranked options; every other
+ * option gets a pairwise statement against the leader. Disqualified options
+ * are left out, since they should not be recommended.
+ */
+export function generatePivot(
+  comparison: ComparisonResult,
+  constraints: Constraints,
+  weights: WeightRow[]
+): PivotResult {
+  const { attributeTypes } = comparison;
+  const options = comparison.options.filter((o) => !o.disqualified);
+
+  if (options.length < 2 || attributeTypes.length === 0) {
+    return {
+      statement: options.length < 2
+        ? 'Unable to generate pivot statement with fewer than two qualified options.'
+        : 'Unable to generate pivot statement without attribute types in the catalog.',
+      primaryFactor: 'N/A',
+      secondaryFactor: 'N/A',
+      optionA: options[0]?.name || 'N/A',
+      optionB: 'N/A',
+      factorWinners: [],
+      pairwise: [],
+    };
+  }
+
+  const [leader, ...challengers] = options;
+
+  // The two most heavily weighted attributes are the differentiating factors;
+  // a single-attribute catalog contrasts that attribute with itself
+  const [primaryAttr, secondaryAttr = primaryAttr] = rankAttributesByWeight(weights, constraints, attributeTypes);
+
+  const pairwise: PairwisePivot[] = challengers.map((challenger) => ({
+    optionA: leader.name,
+    optionB: challenger.name,
+    statement: buildPairStatement(leader, challenger, primaryAttr, secondaryAttr, attributeTypes),
+  }));
 
   return {
-    statement,
-    primaryFactor: primaryName,
-    secondaryFactor: secondaryName,
-    optionA: optionA.name,
-    optionB: optionB.name,
+    statement: pairwise[0].statement,
+    primaryFactor: getFactorName(attributeTypes, primaryAttr),
+    secondaryFactor: getFactorName(attributeTypes, secondaryAttr),
+    optionA: leader.name,
+    optionB: challengers[0].name,
+    factorWinners: getFactorWinners(options, attributeTypes),
+    pairwise,
   };
 }
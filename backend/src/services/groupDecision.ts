@@ -0,0 +1,134 @@
+import { compare, ComparisonEngineInput } from './comparisonEngine';
+import {
+  AttributeDisagreement,
+  ComparisonResult,
+  Constraints,
+  GroupDecisionResult,
+  SessionParticipant,
+} from '../types';
+
+const PRIORITIES: Constraints['scalabilityPriority'][] = ['low', 'medium', 'high'];
+
+/**
+ * Geometric mean of importance ratings. A single 0 makes the result 0, so
+ * one participant can rule an attribute out.
+ */
+function geometricMean(values: number[]): number {
+  if (values.some((v) => v === 0)) return 0;
+  return Math.exp(values.reduce((sum, v) => sum + Math.log(v), 0) / values.length);
+}
+
+/**
+ * Combines participants' importance ratings per attribute by geometric
+ * mean. Each attribute is averaged over the participants who rated it;
+ * attributes nobody rated keep their default weight.
+ */
+export function aggregateAttributeWeights(participants: SessionParticipant[]): Record<string, number> {
+  const keys = [...new Set(participants.flatMap((p) => Object.keys(p.attributeWeights)))];
+  return Object.fromEntries(
+    keys.map((key) => {
+      const ratings = participants
+        .map((p) => p.attributeWeights[key])
+        .filter((r): r is number => r !== undefined);
+      return [key, Math.round(geometricMean(ratings) * 10) / 10];
+    })
+  );
+}
+
+/**
+ * The median scalability priority of the participants who gave one, or the
+ * session's own priority when nobody did. Ties round down.
+ */
+function aggregateScalabilityPriority(
+  participants: SessionParticipant[],
+  fallback: Constraints['scalabilityPriority']
+): Constraints['scalabilityPriority'] {
+  const ranks = participants
+    .map((p) => p.scalabilityPriority)
+    .filter((p): p is Constraints['scalabilityPriority'] => p !== null)
+    .map((p) => PRIORITIES.indexOf(p))
+    .sort((a, b) => a - b);
+  if (ranks.length === 0) return fallback;
+  return PRIORITIES[ranks[Math.floor((ranks.length - 1) / 2)]];
+}
+
+/**
+ * Attributes rated by two or more participants, with how far apart their
+ * ratings are, largest spread first.
+ */
+function findDisagreements(
+  participants: SessionParticipant[],
+  comparison: ComparisonResult
+): AttributeDisagreement[] {
+  const keys = [...new Set(participants.flatMap((p) => Object.keys(p.attributeWeights)))];
+  return keys
+    .map((key) => {
+      const ratings = Object.fromEntries(
+        participants
+          .filter((p) => p.attributeWeights[key] !== undefined)
+          .map((p) => [p.name, p.attributeWeights[key]])
+      );
+      const values = Object.values(ratings);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      return {
+        attributeType: key,
+        name: comparison.attributeTypes.find((t) => t.key === key)?.name ?? key,
+        min,
+        max,
+        spread: max - min,
+        ratings,
+      };
+    })
+    .filter((d) => Object.keys(d.ratings).length >= 2)
+    .sort((a, b) => b.spread - a.spread);
+}
+
+function getWinner(comparison: ComparisonResult): string | null {
+  const top = comparison.options[0];
+  return top && !top.disqualified ? top.name : null;
+}
+
+/**
+ * Runs a session's comparison on the participants' aggregated ratings, and
+ * again on each participant's ratings alone to show whose view would pick a
+ * different winner. The input's constraints are the session's shared ones;
+ * any importance ratings in them are replaced.
+ */
+export function decide(
+  sessionId: string,
+  input: ComparisonEngineInput,
+  participants: SessionParticipant[]
+): GroupDecisionResult {
+  const base = input.constraints;
+  const constraints: Constraints = {
+    ...base,
+    attributeWeights: aggregateAttributeWeights(participants),
+    scalabilityPriority: aggregateScalabilityPriority(participants, base.scalabilityPriority),
+  };
+  const comparison = compare({ ...input, constraints });
+  const winner = getWinner(comparison);
+
+  const outcomes = participants.map((p) => {
+    const own = compare({
+      ...input,
+      constraints: {
+        ...base,
+        attributeWeights: p.attributeWeights,
+        scalabilityPriority: p.scalabilityPriority ?? base.scalabilityPriority,
+      },
+    });
+    const participantWinner = getWinner(own);
+    return { name: p.name, winner: participantWinner, agreesWithGroup: participantWinner === winner };
+  });
+
+  return {
+    sessionId,
+    constraints,
+    comparison,
+    winner,
+    disagreements: findDisagreements(participants, comparison),
+    participants: outcomes,
+    winnerChangesPerParticipant: outcomes.some((o) => !o.agreesWithGroup),
+  };
+}
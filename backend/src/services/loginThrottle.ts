@@ -0,0 +1,84 @@
+// Failed sign-ins allowed per window before further attempts are refused.
+// The per-IP limit is higher so one office behind a NAT can still sign in.
+const MAX_FAILURES_PER_USERNAME = 5;
+const MAX_FAILURES_PER_IP = 20;
+const WINDOW_MS = 15 * 60 * 1000;
+
+// Expired windows are swept once a map grows past this many keys
+const SWEEP_THRESHOLD = 10000;
+
+interface FailureWindow {
+  count: number;
+  startedAt: number;
+}
+
+const failuresByUsername = new Map<string, FailureWindow>();
+const failuresByIp = new Map<string, FailureWindow>();
+
+/**
+ * Usernames are throttled case-insensitively, so changing case doesn't
+ * buy more attempts.
+ */
+function usernameKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * The window for a key, or undefined once it has expired.
+ */
+function activeWindow(failures: Map<string, FailureWindow>, key: string, now: number): FailureWindow | undefined {
+  const window = failures.get(key);
+  if (window && now - window.startedAt >= WINDOW_MS) {
+    failures.delete(key);
+    return undefined;
+  }
+  return window;
+}
+
+function recordFailure(failures: Map<string, FailureWindow>, key: string, now: number): void {
+  const window = activeWindow(failures, key, now);
+  if (window) {
+    window.count++;
+    return;
+  }
+
+  if (failures.size >= SWEEP_THRESHOLD) {
+    for (const [staleKey, stale] of failures) {
+      if (now - stale.startedAt >= WINDOW_MS) failures.delete(staleKey);
+    }
+  }
+  failures.set(key, { count: 1, startedAt: now });
+}
+
+/**
+ * Seconds until a sign-in from this IP for this username may be tried
+ * again, or null if it may be tried now.
+ */
+export function getLoginRetryAfter(ip: string, username: string, now: number = Date.now()): number | null {
+  const blocked = [
+    { window: activeWindow(failuresByUsername, usernameKey(username), now), max: MAX_FAILURES_PER_USERNAME },
+    { window: activeWindow(failuresByIp, ip, now), max: MAX_FAILURES_PER_IP },
+  ].filter((limit): limit is { window: FailureWindow; max: number } =>
+    limit.window !== undefined && limit.window.count >= limit.max
+  );
+  if (blocked.length === 0) return null;
+
+  const resetAt = Math.max(...blocked.map(({ window }) => window.startedAt + WINDOW_MS));
+  return Math.ceil((resetAt - now) / 1000);
+}
+
+/**
+ * Counts a failed sign-in against both the IP and the username.
+ */
+export function recordLoginFailure(ip: string, username: string, now: number = Date.now()): void {
+  recordFailure(failuresByUsername, usernameKey(username), now);
+  recordFailure(failuresByIp, ip, now);
+}
+
+/**
+ * Forgets a username's failures after it signs in. The IP's failures stay,
+ * so signing in to one account doesn't reset guessing at others.
+ */
+export function clearLoginFailures(username: string): void {
+  failuresByUsername.delete(usernameKey(username));
+}
@@ -0,0 +1,179 @@
+import { compare, ComparisonEngineInput } from './comparisonEngine';
+import {
+  AttributeRow,
+  ComparisonResult,
+  Constraints,
+  RatingConfidence,
+  ScoreDistribution,
+  UncertaintyResult,
+  WeightRow,
+} from '../types';
+
+const RATINGS = ['low', 'medium', 'high'] as const;
+
+// Chance a rating is right, by confidence; the rest is split between the
+// neighboring ratings
+const RATING_ACCURACY: Record<RatingConfidence, number> = {
+  high: 0.9,
+  medium: 0.7,
+  low: 0.5,
+};
+
+// Standard deviation of a measured value relative to the value, by confidence
+const MEASUREMENT_SPREAD: Record<RatingConfidence, number> = {
+  high: 0.05,
+  medium: 0.15,
+  low: 0.3,
+};
+
+// How far each weight may move either way, relative to its value
+const WEIGHT_JITTER = 0.2;
+
+// Scale of user importance ratings (mirrors the API limit)
+const MAX_ATTRIBUTE_IMPORTANCE = 10;
+
+export const SIMULATION_ITERATIONS = 1000;
+
+/**
+ * Probability of each rating for an attribute, in RATINGS order, or null
+ * when the rating is certain. An explicit distribution wins over a
+ * confidence level.
+ */
+function getRatingProbabilities(attr: AttributeRow): number[] | null {
+  if (attr.rating_distribution) {
+    const weights = RATINGS.map((r) => Math.max(0, Number(attr.rating_distribution?.[r]) || 0));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total > 0) return weights.map((w) => w / total);
+  }
+  if (!attr.confidence) return null;
+
+  const index = RATINGS.indexOf(attr.rating);
+  const neighbors = [index - 1, index + 1].filter((i) => i >= 0 && i < RATINGS.length);
+  const accuracy = RATING_ACCURACY[attr.confidence];
+  return RATINGS.map((_, i) => {
+    if (i === index) return accuracy;
+    return neighbors.includes(i) ? (1 - accuracy) / neighbors.length : 0;
+  });
+}
+
+function sampleIndex(probabilities: number[], random: () => number): number {
+  let roll = random();
+  for (let i = 0; i < probabilities.length; i++) {
+    roll -= probabilities[i];
+    if (roll < 0) return i;
+  }
+  return probabilities.length - 1;
+}
+
+/**
+ * Standard normal sample (Box-Muller).
+ */
+function sampleNormal(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function jitter(value: number, random: () => number): number {
+  return value * (1 + WEIGHT_JITTER * (2 * random() - 1));
+}
+
+/**
+ * Draws one plausible version of an attribute from its uncertainty.
+ */
+function sampleAttribute(attr: AttributeRow, random: () => number): AttributeRow {
+  const probabilities = getRatingProbabilities(attr);
+  const rating = probabilities ? RATINGS[sampleIndex(probabilities, random)] : attr.rating;
+
+  let numericValue = attr.numeric_value;
+  if (numericValue !== null && attr.confidence) {
+    const value = Number(numericValue);
+    numericValue = String(value * (1 + MEASUREMENT_SPREAD[attr.confidence] * sampleNormal(random)));
+  }
+
+  return { ...attr, rating, numeric_value: numericValue };
+}
+
+function sampleWeights(weights: WeightRow[], random: () => number): WeightRow[] {
+  return weights.map((w) => ({ ...w, default_weight: jitter(Number(w.default_weight), random) }));
+}
+
+function sampleConstraints(constraints: Constraints, random: () => number): Constraints {
+  if (!constraints.attributeWeights) return constraints;
+  return {
+    ...constraints,
+    attributeWeights: Object.fromEntries(
+      Object.entries(constraints.attributeWeights).map(([key, importance]) => [
+        key,
+        Math.min(MAX_ATTRIBUTE_IMPORTANCE, Math.max(0, jitter(importance, random))),
+      ])
+    ),
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending list.
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Runs the comparison many times with ratings, measured values and weights
+ * drawn from their uncertainty, and reports each option's score
+ * distribution and how often it came out on top. Attributes without a
+ * confidence or distribution keep their rating; weights always move by up
+ * to 20% either way. Options are listed in the baseline's rank order.
+ */
+export function simulate(
+  input: ComparisonEngineInput,
+  baseline: ComparisonResult,
+  iterations: number = SIMULATION_ITERATIONS,
+  random: () => number = Math.random
+): UncertaintyResult {
+  const scores = new Map<string, number[]>(baseline.options.map((o) => [o.id, []]));
+  const wins = new Map<string, number>(baseline.options.map((o) => [o.id, 0]));
+
+  for (let run = 0; run < iterations; run++) {
+    const result = compare({
+      ...input,
+      attributes: input.attributes.map((a) => sampleAttribute(a, random)),
+      weights: sampleWeights(input.weights, random),
+      constraints: sampleConstraints(input.constraints, random),
+    });
+
+    for (const option of result.options) {
+      scores.get(option.id)?.push(option.score);
+    }
+    // Options sharing first place split the win
+    const winners = result.options.filter((o) => o.rank === 1 && !o.disqualified);
+    for (const winner of winners) {
+      wins.set(winner.id, (wins.get(winner.id) ?? 0) + 1 / winners.length);
+    }
+  }
+
+  const options: ScoreDistribution[] = baseline.options.map((option) => {
+    const sorted = [...(scores.get(option.id) ?? [])].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, s) => sum + s, 0) / (sorted.length || 1);
+    return {
+      optionId: option.id,
+      name: option.name,
+      mean: Math.round(mean * 10) / 10,
+      p10: percentile(sorted, 10) ?? 0,
+      p50: percentile(sorted, 50) ?? 0,
+      p90: percentile(sorted, 90) ?? 0,
+      winProbability: Math.round(((wins.get(option.id) ?? 0) / (iterations || 1)) * 1000) / 1000,
+    };
+  });
+
+  const leader = baseline.options[0];
+  const leaderOdds = leader && !leader.disqualified
+    ? options.find((o) => o.optionId === leader.id)?.winProbability ?? 0
+    : 0;
+
+  return {
+    iterations,
+    options,
+    confidence: Math.round(leaderOdds * 100),
+  };
+}
@@ -0,0 +1,63 @@
+import { compare, ComparisonEngineInput } from './comparisonEngine';
+import { AttributeTypeSummary, DominatedOption, ParetoOption, ParetoResult } from '../types';
+
+// Score of an attribute an option has no value for: a medium rating, as
+// TOPSIS and AHP treat it
+const MISSING_SCORE = 50;
+
+/**
+ * Whether `a` is at least as good as `b` on every attribute and better on
+ * at least one.
+ */
+function dominates(a: ParetoOption, b: ParetoOption, keys: string[]): boolean {
+  return (
+    keys.every((key) => a.scores[key] >= b.scores[key]) &&
+    keys.some((key) => a.scores[key] > b.scores[key])
+  );
+}
+
+/**
+ * Splits the options in the input into the Pareto frontier (options no
+ * other option beats on one attribute without losing on another) and the
+ * dominated rest. Attribute scores are the comparison engine's oriented
+ * 0-100 scores, so measured values are scored relative to the category.
+ * Each dominated option names the frontier option that beats it on the
+ * most attributes.
+ */
+export function findParetoFrontier(input: ComparisonEngineInput, category: string): ParetoResult {
+  const comparison = compare(input);
+
+  const attributeTypes: AttributeTypeSummary[] = comparison.attributeTypes.filter(
+    (t) => Object.keys(comparison.matrix[t.key] ?? {}).length > 0
+  );
+  const keys = attributeTypes.map((t) => t.key);
+
+  // Catalog order, so ties between dominators go to the first option listed
+  const options: ParetoOption[] = input.options.map((option) => ({
+    id: option.id,
+    name: option.name,
+    scores: Object.fromEntries(
+      keys.map((key) => [key, comparison.matrix[key][option.id]?.score ?? MISSING_SCORE])
+    ),
+  }));
+
+  const frontier = options.filter((b) => !options.some((a) => dominates(a, b, keys)));
+
+  // Dominance is transitive, so some frontier option dominates every other option
+  const dominated: DominatedOption[] = options
+    .filter((b) => !frontier.includes(b))
+    .map((b) => {
+      const betterOn = (a: ParetoOption) =>
+        attributeTypes.filter((t) => a.scores[t.key] > b.scores[t.key]).map((t) => t.name);
+      const [dominator] = frontier
+        .filter((a) => dominates(a, b, keys))
+        .sort((x, y) => betterOn(y).length - betterOn(x).length);
+      return {
+        ...b,
+        dominatedBy: { id: dominator.id, name: dominator.name },
+        betterOn: betterOn(dominator),
+      };
+    });
+
+  return { category, attributeTypes, frontier, dominated };
+}
@@ -0,0 +1,61 @@
+import { compare, ComparisonEngineInput, getUnmetIntegrations } from './comparisonEngine';
+import { generate } from './explanationGenerator';
+import { ExcludedOption, OptionComparison, RecommendResponse } from '../types';
+
+/**
+ * Why an option can't be recommended at all, or null if it can.
+ * Hard-rule breakers are always left out; options lacking a required
+ * integration are left out unless the integration mode is lenient.
+ */
+function getExclusionReason(option: OptionComparison, input: ComparisonEngineInput): string | null {
+  if (option.disqualified) {
+    return `Disqualified: ${option.disqualifications.join('; ')}`;
+  }
+  const unmet = getUnmetIntegrations(option.integrationFit);
+  if (unmet.length > 0 && (input.constraints.integrationMode ?? 'strict') === 'strict') {
+    return `No known support for required ${unmet.map((i) => i.name).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Scores every option in the input with the comparison engine and returns
+ * the best `limit` of them, best first, with the reasons behind each.
+ * Options that can't be recommended are listed separately with the reason.
+ */
+export function recommend(input: ComparisonEngineInput, limit: number): RecommendResponse {
+  const comparison = compare(input);
+  const { optionAnalysis } = generate(comparison, input.constraints, input.attributeTypes);
+
+  const eligible: OptionComparison[] = [];
+  const excluded: ExcludedOption[] = [];
+  for (const option of comparison.options) {
+    const reason = getExclusionReason(option, input);
+    if (reason) {
+      excluded.push({ id: option.id, name: option.name, reason });
+    } else {
+      eligible.push(option);
+    }
+  }
+
+  const recommendations = eligible.slice(0, limit).map((option, index) => {
+    const analysis = optionAnalysis.find((a) => a.optionId === option.id);
+    return {
+      id: option.id,
+      name: option.name,
+      category: input.options.find((o) => o.id === option.id)?.category ?? '',
+      score: option.score,
+      rank: index + 1,
+      fitReason: analysis?.fitReason ?? '',
+      strengths: analysis?.strengths ?? [],
+      weaknesses: analysis?.weaknesses ?? [],
+    };
+  });
+
+  return {
+    recommendations,
+    excluded,
+    considered: comparison.options.length,
+    scoring: comparison.scoring,
+  };
+}
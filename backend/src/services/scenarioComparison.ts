@@ -0,0 +1,55 @@
+import {
+  ComparisonResult,
+  Constraints,
+  OptionComparison,
+  PivotResult,
+  ScenarioCompareResponse,
+  ScenarioResult,
+} from '../types';
+
+// A scenario after the engine has run on it
+export interface ScenarioRun {
+  name: string;
+  constraints: Constraints;
+  comparison: ComparisonResult;
+  pivot: PivotResult;
+}
+
+/**
+ * The top qualified option's name, or null if every option is disqualified.
+ */
+function winnerOf(comparison: ComparisonResult): string | null {
+  const [top] = comparison.options;
+  return top && !top.disqualified ? top.name : null;
+}
+
+/**
+ * Lays the scenario runs out as a scenario × option score grid, in the
+ * order given, and flags each scenario whose winner differs from the one
+ * before it. Options are listed in the order of `optionIds`.
+ */
+export function buildScenarioGrid(optionIds: string[], runs: ScenarioRun[]): ScenarioCompareResponse {
+  const compared = runs[0]?.comparison.options ?? [];
+
+  const scenarios: ScenarioResult[] = runs.map((run, index) => {
+    const winner = winnerOf(run.comparison);
+    return {
+      name: run.name,
+      constraints: run.constraints,
+      winner,
+      scores: Object.fromEntries(run.comparison.options.map((o) => [o.id, o.score])),
+      disqualified: run.comparison.options.filter((o) => o.disqualified).map((o) => o.id),
+      winnerChanged: index > 0 && winner !== winnerOf(runs[index - 1].comparison),
+      pivot: run.pivot,
+    };
+  });
+
+  return {
+    options: optionIds
+      .map((id) => compared.find((o) => o.id === id))
+      .filter((o): o is OptionComparison => o !== undefined)
+      .map((o) => ({ id: o.id, name: o.name })),
+    scenarios,
+    winnerChanges: new Set(scenarios.map((s) => s.winner)).size > 1,
+  };
+}
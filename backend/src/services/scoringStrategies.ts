@@ -0,0 +1,154 @@
+import { ScoringMethod } from '../types';
+
+/**
+ * Inputs shared by every scoring strategy. Each row holds one option's
+ * criterion scores on the 1-3 scale where 3 is always the desirable end;
+ * null marks a criterion the option has no value for.
+ */
+export interface DecisionMatrix {
+  // Criterion keys, parallel to weights
+  criteria: string[];
+  weights: number[];
+  rows: Array<Array<number | null>>;
+}
+
+/**
+ * Splits each option's 0-100 score into points per criterion, in row and
+ * criterion order. An option's points add up to its score.
+ */
+export interface ScoringStrategy {
+  method: ScoringMethod;
+  label: string;
+  contributions(matrix: DecisionMatrix): number[][];
+}
+
+/**
+ * An option's score from its per-criterion points.
+ */
+export function totalScore(points: number[]): number {
+  return Math.round(points.reduce((sum, value) => sum + value, 0));
+}
+
+// Best score on the criterion scale
+const MAX_CRITERION_SCORE = 3;
+
+// Methods that compare options against each other need a value for every
+// criterion; missing ones count as neutral
+const NEUTRAL_CRITERION_SCORE = 2;
+
+function fillMissing(row: Array<number | null>): number[] {
+  return row.map((value) => value ?? NEUTRAL_CRITERION_SCORE);
+}
+
+/**
+ * Weighted sum: each option's weighted average score over the criteria it
+ * has values for, normalized to 0-100. Options are scored independently.
+ */
+const weightedSum: ScoringStrategy = {
+  method: 'weighted_sum',
+  label: 'Weighted sum',
+  contributions({ weights, rows }) {
+    return rows.map((row) => {
+      const totalWeight = row.reduce<number>(
+        (sum, value, c) => (value === null ? sum : sum + weights[c]),
+        0
+      );
+      return row.map((value, c) =>
+        value === null || totalWeight === 0
+          ? 0
+          : ((value * weights[c]) / (totalWeight * MAX_CRITERION_SCORE)) * 100
+      );
+    });
+  },
+};
+
+/**
+ * TOPSIS: ranks options by how close they are to an ideal option (the best
+ * value on every criterion) and how far from the anti-ideal (the worst).
+ * The score is the relative closeness to the ideal, scaled to 0-100.
+ * Closeness is not a sum over criteria, so it is split in proportion to
+ * each criterion's weighted normalized value.
+ */
+const topsis: ScoringStrategy = {
+  method: 'topsis',
+  label: 'TOPSIS',
+  contributions({ weights, rows }) {
+    const filled = rows.map(fillMissing);
+    const criteria = weights.map((_, c) => c);
+
+    // Vector-normalize each criterion, then apply its weight
+    const norms = criteria.map((c) => Math.sqrt(filled.reduce((sum, row) => sum + row[c] ** 2, 0)));
+    const weighted = filled.map((row) =>
+      row.map((value, c) => (norms[c] === 0 ? 0 : (value / norms[c]) * weights[c]))
+    );
+
+    const ideal = criteria.map((c) => Math.max(...weighted.map((row) => row[c])));
+    const antiIdeal = criteria.map((c) => Math.min(...weighted.map((row) => row[c])));
+    const distance = (row: number[], target: number[]) =>
+      Math.sqrt(row.reduce((sum, value, c) => sum + (value - target[c]) ** 2, 0));
+
+    return weighted.map((row) => {
+      const toIdeal = distance(row, ideal);
+      const toAntiIdeal = distance(row, antiIdeal);
+      // Every option identical: none is closer to the ideal than another
+      const score = toIdeal + toAntiIdeal === 0 ? 50 : (toAntiIdeal / (toIdeal + toAntiIdeal)) * 100;
+      const rowTotal = row.reduce((sum, value) => sum + value, 0);
+      return row.map((value) => (rowTotal === 0 ? score / row.length : (score * value) / rowTotal));
+    });
+  },
+};
+
+/**
+ * Saaty-scale judgment of how strongly option i is preferred to option j
+ * on one criterion. A full-scale gap (3 vs 1) is "extreme" preference (9);
+ * equal scores are "equal" (1).
+ */
+function pairwiseJudgment(a: number, b: number): number {
+  const gap = a - b;
+  return gap >= 0 ? 1 + 4 * gap : 1 / (1 - 4 * gap);
+}
+
+/**
+ * Priority vector of a pairwise comparison matrix by the geometric mean method.
+ */
+function priorityVector(matrix: number[][]): number[] {
+  const means = matrix.map((row) => Math.pow(row.reduce((product, value) => product * value, 1), 1 / row.length));
+  const total = means.reduce((sum, value) => sum + value, 0);
+  return means.map((value) => value / total);
+}
+
+/**
+ * AHP: derives pairwise preferences between options from their scores on
+ * each criterion, turns each comparison matrix into local priorities, and
+ * combines them by criterion weight. Priorities are relative, so the
+ * leading option scores 100 and the others in proportion.
+ */
+const ahp: ScoringStrategy = {
+  method: 'ahp',
+  label: 'AHP (pairwise)',
+  contributions({ weights, rows }) {
+    const filled = rows.map(fillMissing);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    if (totalWeight === 0) return filled.map((row) => row.map(() => 0));
+
+    // Weighted local priority of each option on each criterion
+    const local = filled.map((row) => row.map(() => 0));
+    weights.forEach((weight, c) => {
+      const comparisons = filled.map((a) => filled.map((b) => pairwiseJudgment(a[c], b[c])));
+      priorityVector(comparisons).forEach((priority, i) => {
+        local[i][c] = (weight / totalWeight) * priority;
+      });
+    });
+
+    const best = Math.max(...local.map((row) => row.reduce((sum, value) => sum + value, 0)));
+    return local.map((row) => row.map((value) => (value / best) * 100));
+  },
+};
+
+export const SCORING_STRATEGIES: Record<ScoringMethod, ScoringStrategy> = {
+  weighted_sum: weightedSum,
+  topsis,
+  ahp,
+};
+
+export const DEFAULT_SCORING_METHOD: ScoringMethod = 'weighted_sum';
@@ -0,0 +1,194 @@
+import {
+  AttributeSensitivity,
+  ComparisonResult,
+  Constraints,
+  OptionComparison,
+  SensitivityResult,
+  TippingPoint,
+} from '../types';
+import { compare, getEffectiveWeights, ComparisonEngineInput } from './comparisonEngine';
+
+// Effective weights are explored over this range (the 0-10 importance scale divided by 10),
+// stretched upwards for an attribute whose scalability modifier already takes it past 1
+const WEIGHT_RANGE_MIN = 0;
+const WEIGHT_RANGE_MAX = 1;
+
+// Grid resolution for the initial scan, and bisection steps to refine each tipping point
+const SCAN_STEPS = 40;
+const BISECTION_STEPS = 12;
+
+// Importance values are tenths of an effective weight
+const IMPORTANCE_PER_WEIGHT = 10;
+
+/**
+ * Rounds a weight for display.
+ */
+function roundWeight(weight: number): number {
+  return Math.round(weight * 100) / 100;
+}
+
+/**
+ * Finds the winning option when one attribute's effective weight is set to
+ * `weight` and every other attribute is pinned at its baseline weight.
+ */
+function winnerAt(
+  input: ComparisonEngineInput,
+  baselineImportance: Record<string, number>,
+  attributeType: string,
+  weight: number
+): OptionComparison {
+  const constraints: Constraints = {
+    ...input.constraints,
+    attributeWeights: { ...baselineImportance, [attributeType]: weight * IMPORTANCE_PER_WEIGHT },
+  };
+  return compare({ ...input, constraints }).options[0];
+}
+
+/**
+ * Narrows down the weight between `inside` (current winner holds) and
+ * `outside` (another option wins) where the winner changes.
+ */
+function findTippingPoint(
+  winnerFor: (weight: number) => OptionComparison,
+  winner: OptionComparison,
+  inside: number,
+  outside: number
+): TippingPoint {
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const middle = (inside + outside) / 2;
+    if (winnerFor(middle).id === winner.id) {
+      inside = middle;
+    } else {
+      outside = middle;
+    }
+  }
+  return { weight: roundWeight(outside), newWinner: winnerFor(outside).name };
+}
+
+/**
+ * Builds the "if X weight exceeds W, choose B" statement for one attribute.
+ */
+function buildStatement(
+  factor: string,
+  winner: string,
+  lowerTip: TippingPoint | null,
+  upperTip: TippingPoint | null
+): string {
+  const clauses: string[] = [];
+  if (upperTip) {
+    clauses.push(`if ${factor} weight exceeds ${upperTip.weight.toFixed(2)}, choose ${upperTip.newWinner}`);
+  }
+  if (lowerTip) {
+    clauses.push(`if ${factor} weight drops below ${lowerTip.weight.toFixed(2)}, choose ${lowerTip.newWinner}`);
+  }
+  if (clauses.length === 0) {
+    return `${winner} stays on top whatever weight ${factor} is given`;
+  }
+  const sentence = clauses.join('; ');
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
+
+/**
+ * Analyzes how one attribute's weight can move before the winner changes.
+ */
+function analyzeAttribute(
+  input: ComparisonEngineInput,
+  baselineImportance: Record<string, number>,
+  attributeType: string,
+  factor: string,
+  winner: OptionComparison
+): AttributeSensitivity {
+  const baselineWeight = baselineImportance[attributeType] / IMPORTANCE_PER_WEIGHT;
+  const rangeMax = Math.max(WEIGHT_RANGE_MAX, baselineWeight);
+  const winnerFor = (weight: number) => winnerAt(input, baselineImportance, attributeType, weight);
+  const step = (WEIGHT_RANGE_MAX - WEIGHT_RANGE_MIN) / SCAN_STEPS;
+
+  // Walk up from the baseline until another option wins
+  let upperTip: TippingPoint | null = null;
+  let holdsTo = rangeMax;
+  for (let inside = baselineWeight; inside < rangeMax; inside += step) {
+    const outside = Math.min(rangeMax, inside + step);
+    if (winnerFor(outside).id !== winner.id) {
+      upperTip = findTippingPoint(winnerFor, winner, inside, outside);
+      holdsTo = upperTip.weight;
+      break;
+    }
+  }
+
+  // Walk down from the baseline until another option wins
+  let lowerTip: TippingPoint | null = null;
+  let holdsFrom = WEIGHT_RANGE_MIN;
+  for (let inside = baselineWeight; inside > WEIGHT_RANGE_MIN; inside -= step) {
+    const outside = Math.max(WEIGHT_RANGE_MIN, inside - step);
+    if (winnerFor(outside).id !== winner.id) {
+      lowerTip = findTippingPoint(winnerFor, winner, inside, outside);
+      holdsFrom = lowerTip.weight;
+      break;
+    }
+  }
+
+  return {
+    attributeType,
+    factor,
+    baselineWeight: roundWeight(baselineWeight),
+    holdsFrom: roundWeight(holdsFrom),
+    holdsTo: roundWeight(holdsTo),
+    lowerTip,
+    upperTip,
+    statement: buildStatement(factor, winner.name, lowerTip, upperTip),
+  };
+}
+
+/**
+ * Distance from the baseline weight to the nearest tipping point, used to
+ * put the most decision-critical attributes first.
+ */
+function distanceToTip(sensitivity: AttributeSensitivity): number {
+  const distances = [
+    sensitivity.upperTip ? sensitivity.upperTip.weight - sensitivity.baselineWeight : Infinity,
+    sensitivity.lowerTip ? sensitivity.baselineWeight - sensitivity.lowerTip.weight : Infinity,
+  ];
+  return Math.min(...distances);
+}
+
+/**
+ * Runs a one-at-a-time sensitivity analysis over the attribute weights.
+ * Each attribute's effective weight is swept across 0-1, or up to its current
+ * weight when that is higher, while the others stay at their current values,
+ * and the points where the top-ranked option changes are reported.
+ * Attributes are ordered most sensitive first.
+ */
+export function analyzeSensitivity(
+  input: ComparisonEngineInput,
+  comparison: ComparisonResult
+): SensitivityResult {
+  const [winner] = comparison.options;
+  const effectiveWeights = getEffectiveWeights(input.weights, input.constraints);
+
+  // Pin every attribute at its current effective weight, expressed as importance
+  const baselineImportance: Record<string, number> = {};
+  for (const { key } of input.attributeTypes) {
+    baselineImportance[key] = (effectiveWeights.get(key) ?? 0) * IMPORTANCE_PER_WEIGHT;
+  }
+
+  const attributes = input.attributeTypes
+    .map((attributeType) =>
+      analyzeAttribute(
+        input,
+        baselineImportance,
+        attributeType.key,
+        attributeType.name.toLowerCase(),
+        winner
+      )
+    )
+    .sort((a, b) => distanceToTip(a) - distanceToTip(b));
+
+  return {
+    winner: winner.name,
+    weightRange: {
+      min: WEIGHT_RANGE_MIN,
+      max: Math.max(WEIGHT_RANGE_MAX, ...attributes.map((a) => a.baselineWeight)),
+    },
+    attributes,
+  };
+}
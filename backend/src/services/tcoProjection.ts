@@ -0,0 +1,151 @@
+import {
+  ComparisonResult,
+  OptionComparison,
+  TcoCrossover,
+  TcoEffort,
+  TcoOptionProjection,
+  TcoProjection,
+  TcoSettings,
+} from '../types';
+
+type Rating = 'low' | 'medium' | 'high';
+
+export const DEFAULT_HOURLY_RATE = 100;
+export const DEFAULT_ANNUAL_GROWTH_RATE = 0.1;
+
+// Years the projection covers
+const PROJECTION_YEARS = 5;
+const MONTHS_PER_YEAR = 12;
+
+// Engineering hours per month of upkeep, by rating of the maintenance attribute type
+const MAINTENANCE_HOURS_PER_MONTH: Record<Rating, number> = {
+  low: 4,
+  medium: 16,
+  high: 40,
+};
+
+// One-time engineering hours to get running, by rating of the setup attribute type
+const SETUP_HOURS: Record<Rating, number> = {
+  low: 16,
+  medium: 80,
+  high: 240,
+};
+
+/**
+ * Looks up an engineering-hours figure from an option's rating of the
+ * attribute type the catalog marks with the given effort. No hours are
+ * charged when no type is marked, or for options not rated on it, which the
+ * engine fills in with a placeholder rating.
+ */
+function hoursFor(
+  comparison: ComparisonResult,
+  option: OptionComparison,
+  effort: TcoEffort,
+  table: Record<Rating, number>
+): number {
+  const attributeType = comparison.attributeTypes.find((t) => t.tcoEffort === effort);
+  const attribute = attributeType && option.attributes[attributeType.key];
+  return attribute && !attribute.missing ? table[attribute.rating] : 0;
+}
+
+/**
+ * Running total of an option's cost at the end of each month, starting with
+ * month 0 (setup alone). Infrastructure cost grows once a year.
+ */
+function cumulativeByMonth(
+  setupCost: number,
+  monthlyInfrastructure: number,
+  monthlyMaintenance: number,
+  growthRate: number
+): number[] {
+  const totals = [setupCost];
+  for (let month = 1; month <= PROJECTION_YEARS * MONTHS_PER_YEAR; month++) {
+    const year = Math.floor((month - 1) / MONTHS_PER_YEAR);
+    const infrastructure = monthlyInfrastructure * Math.pow(1 + growthRate, year);
+    totals.push(totals[month - 1] + infrastructure + monthlyMaintenance);
+  }
+  return totals;
+}
+
+/**
+ * Finds every month at which the cheaper of two options changes. Months in
+ * which both cost the same keep the previous order.
+ */
+function findCrossovers(
+  a: { name: string; monthly: number[] },
+  b: { name: string; monthly: number[] }
+): TcoCrossover[] {
+  const crossovers: TcoCrossover[] = [];
+  let cheaper: string | null = null;
+
+  a.monthly.forEach((costA, month) => {
+    const costB = b.monthly[month];
+    if (costA === costB) return;
+    const now = costA < costB ? a.name : b.name;
+    if (cheaper !== null && now !== cheaper) {
+      crossovers.push({
+        year: Math.round((month / MONTHS_PER_YEAR) * 10) / 10,
+        cheaperBefore: cheaper,
+        cheaperAfter: now,
+      });
+    }
+    cheaper = now;
+  });
+
+  return crossovers;
+}
+
+/**
+ * Projects each compared option's total cost of ownership over five years:
+ * infrastructure (the budget-fit estimate, growing yearly), monthly
+ * maintenance hours and one-time setup hours from the ratings of the
+ * attribute types the catalog marks for them, both at the hourly rate.
+ * Also reports the points at which one option's cumulative cost
+ * overtakes another's.
+ */
+export function projectTco(comparison: ComparisonResult, settings: TcoSettings = {}): TcoProjection {
+  const hourlyRate = settings.hourlyRate ?? DEFAULT_HOURLY_RATE;
+  const annualGrowthRate = settings.annualGrowthRate ?? DEFAULT_ANNUAL_GROWTH_RATE;
+
+  const projections = comparison.options.map((option) => {
+    const monthlyInfrastructure = option.budgetFit.estimate?.typical ?? null;
+    const maintenanceHoursPerMonth = hoursFor(comparison, option, 'maintenance', MAINTENANCE_HOURS_PER_MONTH);
+    const setupCost = hoursFor(comparison, option, 'setup', SETUP_HOURS) * hourlyRate;
+    const monthly = cumulativeByMonth(
+      setupCost,
+      monthlyInfrastructure ?? 0,
+      maintenanceHoursPerMonth * hourlyRate,
+      annualGrowthRate
+    );
+    const cumulative = Array.from({ length: PROJECTION_YEARS + 1 }, (_, year) =>
+      Math.round(monthly[year * MONTHS_PER_YEAR])
+    );
+
+    const projection: TcoOptionProjection = {
+      optionId: option.id,
+      name: option.name,
+      setupCost,
+      monthlyInfrastructure,
+      maintenanceHoursPerMonth,
+      cumulative,
+      totals: { year1: cumulative[1], year3: cumulative[3], year5: cumulative[5] },
+    };
+    return { projection, monthly };
+  });
+
+  // Options without cost data would look free, so they never cross over
+  const priced = projections
+    .filter(({ projection }) => projection.monthlyInfrastructure !== null)
+    .map(({ projection, monthly }) => ({ name: projection.name, monthly }));
+  const crossovers = priced
+    .flatMap((a, i) => priced.slice(i + 1).flatMap((b) => findCrossovers(a, b)))
+    .sort((x, y) => x.year - y.year);
+
+  return {
+    hourlyRate,
+    annualGrowthRate,
+    years: PROJECTION_YEARS,
+    options: projections.map(({ projection }) => projection),
+    crossovers,
+  };
+}
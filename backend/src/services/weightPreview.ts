@@ -0,0 +1,35 @@
+import { compare, ComparisonEngineInput } from './comparisonEngine';
+import { overrideWeights } from './comparisonInput';
+import { ComparisonResult, WeightPreview, WeightRow } from '../types';
+
+function getWinner(result: ComparisonResult): string | null {
+  const top = result.options[0];
+  return top && !top.disqualified ? top.name : null;
+}
+
+/**
+ * Scores the input's options with its current weights and again with the
+ * proposed ones, so a weight change can be checked before it is saved.
+ * Attributes without a proposed weight keep their current one. Options are
+ * listed in their proposed rank order.
+ */
+export function previewWeights(input: ComparisonEngineInput, proposed: WeightRow[]): WeightPreview {
+  const current = compare(input);
+  const next = compare({ ...input, weights: overrideWeights(input.weights, proposed) });
+
+  return {
+    options: next.options.map((option) => {
+      const before = current.options.find((o) => o.id === option.id);
+      return {
+        id: option.id,
+        name: option.name,
+        currentScore: before?.score ?? 0,
+        proposedScore: option.score,
+        currentRank: before?.rank ?? option.rank,
+        proposedRank: option.rank,
+      };
+    }),
+    currentWinner: getWinner(current),
+    proposedWinner: getWinner(next),
+  };
+}
@@ -4,15 +4,60 @@ export interface OptionRow {
   name: string;
   description: string;
   category: string;
+  monthly_cost_min: number | null;
+  monthly_cost_typical: number | null;
+  monthly_cost_max: number | null;
   created_at: Date;
 }
 
+export type AttributeDirection = 'higher_is_better' | 'lower_is_better';
+
+// Engineering effort an attribute type's ratings stand for in the cost of
+// ownership projection: monthly upkeep or one-time setup
+export type TcoEffort = 'maintenance' | 'setup';
+
+export interface AttributeTypeRow {
+  key: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  direction: AttributeDirection;
+  strength_text: string | null;
+  weakness_text: string | null;
+  unit: string | null;
+  tco_effort: TcoEffort | null;
+  sort_order: number;
+  created_at: Date;
+}
+
+// How sure an attribute's rating or measured value is
+export type RatingConfidence = 'low' | 'medium' | 'high';
+
+// Probability of each rating; missing ratings count as 0
+export type RatingDistribution = Partial<Record<'low' | 'medium' | 'high', number>>;
+
 export interface AttributeRow {
   id: string;
   option_id: string;
-  attribute_type: 'cost_model' | 'scalability' | 'complexity' | 'maintenance';
+  attribute_type: string;
   value: string;
   rating: 'low' | 'medium' | 'high';
+  numeric_value: string | null; // DECIMAL comes back as a string
+  confidence: RatingConfidence | null; // null means the rating is certain
+  rating_distribution: RatingDistribution | null;
+  description: string | null;
+}
+
+// What a pricing formula bills by: requests, GB stored per month, compute or
+// instance hours, user seats, or a flat monthly fee
+export type PricingUnit = 'request' | 'gb' | 'hour' | 'seat' | 'month';
+
+export interface OptionPricingRow {
+  id: string;
+  option_id: string;
+  unit: PricingUnit;
+  unit_price: string; // DECIMAL comes back as a string
+  free_units: string;
   description: string | null;
 }
 
@@ -25,6 +70,13 @@ export interface WeightRow {
   scalability_high_modifier: number;
 }
 
+export interface WeightProfileRow {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: Date;
+}
+
 export interface IntegrationRow {
   id: string;
   name: string;
@@ -37,18 +89,232 @@ export interface OptionIntegrationRow {
   support_level: 'native' | 'plugin' | 'custom';
 }
 
+export interface DecisionSessionRow {
+  id: string;
+  title: string;
+  option_ids: string[];
+  constraints: Constraints;
+  created_at: Date;
+}
+
+export interface SessionParticipantRow {
+  id: string;
+  session_id: string;
+  name: string;
+  attribute_weights: Record<string, number>;
+  scalability_priority: Constraints['scalabilityPriority'] | null;
+  updated_at: Date;
+}
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  role: UserRole;
+  created_at: Date;
+}
+
+export interface ComparisonRecordRow {
+  id: string;
+  request: SavedCompareRequest;
+  response: CompareResponse;
+  created_at: Date;
+}
+
 // API types
+/**
+ * How to treat options lacking a required integration: 'strict' rejects the
+ * comparison, 'lenient' compares anyway and reports the gap.
+ */
+export type IntegrationMode = 'strict' | 'lenient';
+
+export type RuleOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte';
+
+/**
+ * A deal-breaker checked before scoring. `field` is an attribute type key or
+ * 'category'. Attributes are compared by rating (low < medium < high), or by
+ * measured value when `value` is a number; categories only support eq/neq.
+ */
+export interface HardRule {
+  field: string;
+  operator: RuleOperator;
+  value: string | number;
+}
+
+/**
+ * Multi-criteria decision method used to turn attribute scores into an
+ * option score.
+ */
+export type ScoringMethod = 'weighted_sum' | 'topsis' | 'ahp';
+
 export interface Constraints {
   budgetMin: number;
   budgetMax: number;
   scalabilityPriority: 'low' | 'medium' | 'high';
   requiredIntegrations: string[];
+  // Defaults to 'strict'
+  integrationMode?: IntegrationMode;
+  // Options breaking any of these are disqualified regardless of score
+  rules?: HardRule[];
+  // Defaults to 'weighted_sum'
+  scoringMethod?: ScoringMethod;
+  // Weight profile to score with instead of the default weights
+  weightProfileId?: string;
+  // User importance per attribute type on a 0-10 scale; overrides the default weight
+  attributeWeights?: Record<string, number>;
+  // Expected usage; options with pricing formulas are budget-checked on the
+  // cost it works out to instead of their catalog cost range
+  usage?: UsageProfile;
+  // Assumptions for the total cost of ownership projection
+  tco?: TcoSettings;
+}
+
+// Monthly usage to price options against; missing amounts count as 0
+export interface UsageProfile {
+  requestsPerMonth?: number;
+  storageGb?: number;
+  hoursPerMonth?: number;
+  seats?: number;
+}
+
+export interface AttributeTypeSummary {
+  key: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  direction: AttributeDirection;
+  unit: string | null;
+  tcoEffort: TcoEffort | null;
+}
+
+// How a rating reads once the attribute's direction is applied
+export type RatingSentiment = 'favorable' | 'neutral' | 'unfavorable';
+
+export interface Measurement {
+  value: number;
+  unit: string | null;
 }
 
 export interface AttributeValue {
   value: string;
   rating: 'low' | 'medium' | 'high';
+  // Raw number, when the option has one for a measured attribute
+  measurement: Measurement | null;
+  // Derived 0-100 score, oriented so higher is always better
+  score: number;
+  sentiment: RatingSentiment;
   icon: string;
+  // Set when the option has no value for the attribute and the rest is a
+  // neutral placeholder
+  missing?: boolean;
+}
+
+export interface CostEstimate {
+  min: number;
+  typical: number;
+  max: number;
+  // 'catalog' is the option's stored range; 'usage' is its pricing formulas
+  // applied to the constraints' usage profile, so min = typical = max
+  basis: 'catalog' | 'usage';
+}
+
+// One pricing formula applied to a usage profile
+export interface PricingLineItem {
+  unit: PricingUnit;
+  description: string | null;
+  quantity: number;
+  freeUnits: number;
+  unitPrice: number;
+  cost: number;
+}
+
+export interface UsageCostEstimate {
+  optionId: string;
+  name: string;
+  // null when the option has no pricing formulas
+  monthlyCost: number | null;
+  lineItems: PricingLineItem[];
+}
+
+export interface CostResponse {
+  usage: UsageProfile;
+  // Cheapest first; options without pricing last
+  estimates: UsageCostEstimate[];
+}
+
+// Missing settings fall back to the defaults in services/tcoProjection.ts
+export interface TcoSettings {
+  // Cost of one engineering hour, in USD
+  hourlyRate?: number;
+  // Yearly change in infrastructure cost as a fraction (0.1 = 10% growth)
+  annualGrowthRate?: number;
+}
+
+export interface TcoOptionProjection {
+  optionId: string;
+  name: string;
+  // One-time setup effort, in USD
+  setupCost: number;
+  // First-year infrastructure cost per month; null when the option has no cost data
+  monthlyInfrastructure: number | null;
+  maintenanceHoursPerMonth: number;
+  // Cumulative cost at the end of each year; index 0 is setup alone
+  cumulative: number[];
+  totals: { year1: number; year3: number; year5: number };
+}
+
+// Point at which one option stops being cheaper to own than another
+export interface TcoCrossover {
+  // Years from the start, to one decimal
+  year: number;
+  cheaperBefore: string;
+  cheaperAfter: string;
+}
+
+export interface TcoProjection {
+  hourlyRate: number;
+  annualGrowthRate: number;
+  years: number;
+  options: TcoOptionProjection[];
+  // Earliest first; options without cost data are left out
+  crossovers: TcoCrossover[];
+}
+
+export type BudgetFitStatus = 'within' | 'under' | 'stretch' | 'over' | 'exceeds' | 'unknown';
+
+export interface BudgetFit {
+  status: BudgetFitStatus;
+  estimate: CostEstimate | null;
+  penalty: number;
+  reason: string;
+}
+
+/**
+ * How an option supports one required integration. 'unknown' means the
+ * option has no mapping for it.
+ */
+export type IntegrationSupportLevel = OptionIntegrationRow['support_level'] | 'unknown';
+
+export interface IntegrationSupport {
+  integrationId: string;
+  name: string;
+  supportLevel: IntegrationSupportLevel;
+}
+
+export interface IntegrationFit {
+  score: number | null;
+  integrations: IntegrationSupport[];
+}
+
+export interface ScoreContribution {
+  // Attribute type key, or 'integrations' for integration fit
+  attributeType: string;
+  name: string;
+  // Effective weight the criterion was scored with
+  weight: number;
+  points: number;
 }
 
 export interface OptionComparison {
@@ -56,12 +322,18 @@ export interface OptionComparison {
   name: string;
   description: string;
   attributes: {
-    costModel: AttributeValue;
-    scalability: AttributeValue;
-    complexity: AttributeValue;
-    maintenance: AttributeValue;
+    [attributeType: string]: AttributeValue;
   };
+  budgetFit: BudgetFit;
+  integrationFit: IntegrationFit;
+  // Set when the option breaks a hard rule; disqualified options rank last
+  disqualified: boolean;
+  disqualifications: string[];
   score: number;
+  // Points each criterion adds to the score; they sum to the score before
+  // the budget penalty
+  contributions: ScoreContribution[];
+  rank: number;
 }
 
 export interface AttributeMatrix {
@@ -70,9 +342,25 @@ export interface AttributeMatrix {
   };
 }
 
+export interface ScoringMetadata {
+  method: ScoringMethod;
+  label: string;
+  // Top qualified option under each method (null if every option is disqualified)
+  winners: Record<ScoringMethod, string | null>;
+}
+
+export interface WeightProfileSummary {
+  id: string;
+  name: string;
+}
+
 export interface ComparisonResult {
   options: OptionComparison[];
   matrix: AttributeMatrix;
+  attributeTypes: AttributeTypeSummary[];
+  scoring: ScoringMetadata;
+  // Profile the weights came from; null when the default weights were used
+  weightProfile: WeightProfileSummary | null;
 }
 
 export interface OptionAnalysis {
@@ -95,17 +383,31 @@ export interface TradeOffExplanation {
   constraintImpact: ConstraintImpact[];
 }
 
+export interface FactorWinner {
+  attributeType: string;
+  factor: string;
+  winners: string[];
+}
+
+export interface PairwisePivot {
+  optionA: string;
+  optionB: string;
+  statement: string;
+}
+
 export interface PivotResult {
   statement: string;
   primaryFactor: string;
   secondaryFactor: string;
   optionA: string;
   optionB: string;
+  factorWinners: FactorWinner[];
+  pairwise: PairwisePivot[];
 }
 
 export interface CompareRequest {
   constraints: Constraints;
-  optionIds: [string, string];
+  optionIds: string[];
 }
 
 export interface AIDetailedAnalysis {
@@ -129,6 +431,230 @@ export interface CompareResponse {
   pivot: PivotResult;
   aiEnhanced?: boolean;
   aiAnalysis?: AIComparisonResult;
+  // Present when the comparison was simulated
+  uncertainty?: UncertaintyResult;
+  // Missing on comparisons saved before cost of ownership was projected
+  tco?: TcoProjection;
+}
+
+// One option's score under the current and the proposed default weights
+export interface WeightPreviewOption {
+  id: string;
+  name: string;
+  currentScore: number;
+  proposedScore: number;
+  currentRank: number;
+  proposedRank: number;
+}
+
+export interface WeightPreview {
+  options: WeightPreviewOption[];
+  // Top qualified option under each set of weights
+  currentWinner: string | null;
+  proposedWinner: string | null;
+}
+
+// Group decision types
+export interface SessionParticipant {
+  id: string;
+  name: string;
+  // Importance per attribute type on a 0-10 scale
+  attributeWeights: Record<string, number>;
+  // null means the participant goes with the session's priority
+  scalabilityPriority: Constraints['scalabilityPriority'] | null;
+  updatedAt: string;
+}
+
+export interface DecisionSession {
+  id: string;
+  title: string;
+  optionIds: string[];
+  constraints: Constraints;
+  participants: SessionParticipant[];
+  createdAt: string;
+}
+
+// How far apart participants' importance ratings for one attribute are
+export interface AttributeDisagreement {
+  attributeType: string;
+  name: string;
+  min: number;
+  max: number;
+  spread: number;
+  // Keyed by participant name
+  ratings: Record<string, number>;
+}
+
+// Who would win if one participant's ratings were used alone
+export interface ParticipantOutcome {
+  name: string;
+  winner: string | null;
+  agreesWithGroup: boolean;
+}
+
+export interface GroupDecisionResult {
+  sessionId: string;
+  // Constraints the group comparison ran with
+  constraints: Constraints;
+  comparison: ComparisonResult;
+  winner: string | null;
+  // Largest spread first
+  disagreements: AttributeDisagreement[];
+  participants: ParticipantOutcome[];
+  // True when at least one participant's ratings alone pick another winner
+  winnerChangesPerParticipant: boolean;
+}
+
+export interface RecommendRequest {
+  constraints: Constraints;
+  // Limits the catalog to one option category
+  category?: string;
+  // Shortlist length; defaults to 5
+  limit?: number;
+}
+
+export interface RecommendedOption {
+  id: string;
+  name: string;
+  category: string;
+  score: number;
+  // Position in the shortlist
+  rank: number;
+  fitReason: string;
+  strengths: string[];
+  weaknesses: string[];
+}
+
+// A catalog option left off the shortlist, and why
+export interface ExcludedOption {
+  id: string;
+  name: string;
+  reason: string;
+}
+
+export interface RecommendResponse {
+  recommendations: RecommendedOption[];
+  excluded: ExcludedOption[];
+  // Number of catalog options scored
+  considered: number;
+  scoring: ScoringMetadata;
+}
+
+// One named constraint scenario in a scenario comparison
+export interface ScenarioResult {
+  name: string;
+  constraints: Constraints;
+  // Top qualified option under this scenario (null if every option is disqualified)
+  winner: string | null;
+  // Score per option ID
+  scores: Record<string, number>;
+  // IDs of the options a hard rule disqualified under this scenario
+  disqualified: string[];
+  // Whether the winner differs from the previous scenario's
+  winnerChanged: boolean;
+  pivot: PivotResult;
+}
+
+export interface ScenarioCompareResponse {
+  // In the order they were requested
+  options: Array<{ id: string; name: string }>;
+  // In the order they were requested
+  scenarios: ScenarioResult[];
+  // Whether any scenario's winner differs from another's
+  winnerChanges: boolean;
+}
+
+// An option's oriented 0-100 score on each attribute of a Pareto analysis
+export interface ParetoOption {
+  id: string;
+  name: string;
+  scores: Record<string, number>;
+}
+
+export interface DominatedOption extends ParetoOption {
+  // A frontier option at least as good on every attribute and better on some
+  dominatedBy: { id: string; name: string };
+  // Names of the attributes the dominating option is better on
+  betterOn: string[];
+}
+
+export interface ParetoResult {
+  category: string;
+  // Attributes compared on: those rated for at least one option in the category
+  attributeTypes: AttributeTypeSummary[];
+  frontier: ParetoOption[];
+  dominated: DominatedOption[];
+}
+
+// Layouts a comparison can be exported as
+export type ExportFormat = 'adr' | 'markdown';
+
+// The request as the client ran it, including the AI options
+export interface SavedCompareRequest extends CompareRequest {
+  additionalContext?: string;
+  useAI?: boolean;
+}
+
+export interface SavedComparison {
+  id: string;
+  request: SavedCompareRequest;
+  response: CompareResponse;
+  createdAt: string;
+}
+
+export interface TippingPoint {
+  weight: number;
+  newWinner: string;
+}
+
+export interface AttributeSensitivity {
+  attributeType: string;
+  factor: string;
+  baselineWeight: number;
+  // Weight range over which the current winner stays on top
+  holdsFrom: number;
+  holdsTo: number;
+  lowerTip: TippingPoint | null;
+  upperTip: TippingPoint | null;
+  statement: string;
+}
+
+export interface SensitivityResult {
+  winner: string;
+  weightRange: { min: number; max: number };
+  attributes: AttributeSensitivity[];
+}
+
+// Monte Carlo types
+export interface ScoreDistribution {
+  optionId: string;
+  name: string;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  // Share of runs (0-1) in which the option came first and was qualified
+  winProbability: number;
+}
+
+export interface UncertaintyResult {
+  iterations: number;
+  options: ScoreDistribution[];
+  // Chance (0-100) that the current leader stays on top
+  confidence: number;
+}
+
+// A signed-in user, as exposed by the API (never includes the password hash)
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
 }
 
 export interface ErrorResponse {
@@ -148,12 +674,14 @@ export interface HealthResponse {
 export class AppError extends Error {
   statusCode: number;
   code: string;
+  details?: Record<string, string>;
   isOperational: boolean;
 
-  constructor(message: string, statusCode: number, code: string) {
+  constructor(message: string, statusCode: number, code: string, details?: Record<string, string>) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
+    this.details = details;
     this.isOperational = true;
     Error.captureStackTrace(this, this.constructor);
   }
@@ -7,20 +7,68 @@ CREATE TABLE options (
   name VARCHAR(100) NOT NULL,
   description TEXT NOT NULL,
   category VARCHAR(50) NOT NULL,
+  -- Estimated monthly running cost in USD (all three set, or all NULL)
+  monthly_cost_min DECIMAL(12,2) CHECK (monthly_cost_min >= 0),
+  monthly_cost_typical DECIMAL(12,2),
+  monthly_cost_max DECIMAL(12,2),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (monthly_cost_min <= monthly_cost_typical AND monthly_cost_typical <= monthly_cost_max)
+);
+
+-- Attribute types catalog: the dimensions options are rated on
+CREATE TABLE attribute_types (
+  key VARCHAR(50) PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  icon VARCHAR(16) NOT NULL DEFAULT '📊',
+  -- Whether a 'high' rating is good (scalability) or bad (cost, complexity)
+  direction VARCHAR(20) NOT NULL DEFAULT 'higher_is_better'
+    CHECK (direction IN ('higher_is_better', 'lower_is_better')),
+  strength_text VARCHAR(200),  -- shown as a strength when an option's rating is favorable
+  weakness_text VARCHAR(200),  -- shown as a weakness when an option's rating is unfavorable
+  unit VARCHAR(20),            -- unit of numeric values (ms, $/month, connections); NULL if rated only
+  -- Engineering effort its ratings stand for in the cost of ownership projection:
+  -- monthly upkeep hours or one-time setup hours; NULL if it plays no part
+  tco_effort VARCHAR(20) CHECK (tco_effort IN ('maintenance', 'setup')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- At most one attribute type per kind of effort
+CREATE UNIQUE INDEX idx_attribute_types_tco_effort ON attribute_types(tco_effort) WHERE tco_effort IS NOT NULL;
+
 -- Attributes table: stores attribute values for each option
 CREATE TABLE attributes (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   option_id UUID NOT NULL REFERENCES options(id) ON DELETE CASCADE,
-  attribute_type VARCHAR(50) NOT NULL,  -- 'cost_model', 'scalability', 'complexity', 'maintenance'
+  attribute_type VARCHAR(50) NOT NULL REFERENCES attribute_types(key) ON DELETE CASCADE ON UPDATE CASCADE,
   value VARCHAR(100) NOT NULL,
   rating VARCHAR(10) NOT NULL CHECK (rating IN ('low', 'medium', 'high')),
+  -- Measured value in the attribute type's unit; scored against the other compared options
+  numeric_value DECIMAL(14,4),
+  -- How sure the rating is; NULL means certain. Sets the spread when simulating
+  confidence VARCHAR(10) CHECK (confidence IN ('low', 'medium', 'high')),
+  -- Probability of each rating, e.g. {"low": 0.2, "medium": 0.5, "high": 0.3}; overrides confidence
+  rating_distribution JSONB,
   description TEXT,
   UNIQUE(option_id, attribute_type)
 );
 
+-- Pricing formulas: what an option bills per unit of usage, one row per unit.
+-- The monthly cost is the sum over units of (usage - free_units) * unit_price
+CREATE TABLE option_pricing (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  option_id UUID NOT NULL REFERENCES options(id) ON DELETE CASCADE,
+  -- request: per request; gb: per GB stored per month; hour: per compute or
+  -- instance hour; seat: per user seat; month: flat monthly fee
+  unit VARCHAR(10) NOT NULL CHECK (unit IN ('request', 'gb', 'hour', 'seat', 'month')),
+  unit_price DECIMAL(14,8) NOT NULL CHECK (unit_price >= 0),
+  -- Units included free each month
+  free_units DECIMAL(16,2) NOT NULL DEFAULT 0 CHECK (free_units >= 0),
+  description VARCHAR(200),
+  UNIQUE(option_id, unit)
+);
+
 -- Weights table: stores default weights for attributes
 CREATE TABLE weights (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -31,6 +79,28 @@ CREATE TABLE weights (
   scalability_high_modifier DECIMAL(3,2) DEFAULT 1.0
 );
 
+-- Weight profiles: named sets of weights for a kind of organization
+-- (startup, enterprise, regulated industry, ...)
+CREATE TABLE weight_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Profile weights: same shape as weights; attributes a profile leaves out
+-- fall back to the default weights
+CREATE TABLE weight_profile_weights (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES weight_profiles(id) ON DELETE CASCADE,
+  attribute_type VARCHAR(50) NOT NULL REFERENCES attribute_types(key) ON DELETE CASCADE ON UPDATE CASCADE,
+  default_weight DECIMAL(3,2) NOT NULL CHECK (default_weight >= 0 AND default_weight <= 1),
+  scalability_low_modifier DECIMAL(3,2) DEFAULT 1.0,
+  scalability_medium_modifier DECIMAL(3,2) DEFAULT 1.0,
+  scalability_high_modifier DECIMAL(3,2) DEFAULT 1.0,
+  UNIQUE(profile_id, attribute_type)
+);
+
 -- Integrations table: stores available integrations
 CREATE TABLE integrations (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -46,7 +116,61 @@ CREATE TABLE option_integrations (
   PRIMARY KEY (option_id, integration_id)
 );
 
+-- Saved comparisons: a compare request and its full response, kept so the
+-- exact result can be reopened from a shareable link
+CREATE TABLE comparisons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request JSONB NOT NULL,
+  response JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Decision sessions: a group decision on a set of options. Participants
+-- submit their own importance ratings, which are aggregated at read time
+CREATE TABLE decision_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title VARCHAR(200) NOT NULL,
+  option_ids UUID[] NOT NULL,
+  -- Shared constraints (budget, integrations, rules, ...); participants supply the weights
+  constraints JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Session participants: one set of importance ratings per person, under a name unique to the session
+CREATE TABLE session_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES decision_sessions(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  -- Importance per attribute type on a 0-10 scale
+  attribute_weights JSONB NOT NULL DEFAULT '{}',
+  scalability_priority VARCHAR(10) CHECK (scalability_priority IN ('low', 'medium', 'high')),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(session_id, name)
+);
+
+-- Users: local accounts for the admin routes
+CREATE TABLE users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username VARCHAR(50) NOT NULL UNIQUE,
+  -- scrypt hash in the form scrypt$<salt>$<hash>
+  password_hash TEXT NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('viewer', 'editor', 'admin')),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Sessions: bearer tokens issued at login, stored as SHA-256 hashes
+CREATE TABLE sessions (
+  token_hash CHAR(64) PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Indexes for query performance
 CREATE INDEX idx_attributes_option_id ON attributes(option_id);
+CREATE INDEX idx_option_pricing_option_id ON option_pricing(option_id);
 CREATE INDEX idx_option_integrations_option_id ON option_integrations(option_id);
 CREATE INDEX idx_option_integrations_integration_id ON option_integrations(integration_id);
+CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX idx_weight_profile_weights_profile_id ON weight_profile_weights(profile_id);
+CREATE INDEX idx_session_participants_session_id ON session_participants(session_id);
@@ -1,14 +1,21 @@
 -- The Referee Seed Data
 -- Minimal sample data - add more via Admin Panel
 
--- Clear existing data
-TRUNCATE options, attributes, weights, integrations, option_integrations CASCADE;
+-- Clear the catalog; saved comparisons and group sessions are kept so their links keep working
+TRUNCATE options, attributes, option_pricing, attribute_types, weights, weight_profiles, weight_profile_weights, integrations, option_integrations CASCADE;
+
+-- Insert Attribute Types catalog
+INSERT INTO attribute_types (key, name, description, icon, direction, strength_text, weakness_text, tco_effort, sort_order) VALUES
+  ('cost_model', 'Cost Model', 'How the option is priced and what it costs to run', '💰', 'lower_is_better', 'excellent cost efficiency', 'higher cost requirements', NULL, 1),
+  ('scalability', 'Scalability', 'How well the option handles growth in load', '📈', 'higher_is_better', 'excellent scalability characteristics', 'limited scalability options', NULL, 2),
+  ('complexity', 'Complexity', 'Effort needed to set up and operate the option', '⚙️', 'lower_is_better', 'straightforward operations', 'significant operational complexity', 'setup', 3),
+  ('maintenance', 'Maintenance', 'Ongoing upkeep such as patching, tuning and monitoring', '🔧', 'lower_is_better', 'minimal maintenance burden', 'substantial maintenance requirements', 'maintenance', 4);
 
 -- Insert Options (reduced to 3 core examples)
-INSERT INTO options (id, name, description, category) VALUES
-  ('11111111-1111-1111-1111-111111111111', 'AWS Lambda', 'Serverless compute service that runs code in response to events. Pay only for compute time consumed with automatic scaling.', 'compute'),
-  ('22222222-2222-2222-2222-222222222222', 'AWS EC2', 'Virtual servers in the cloud with full control over the operating system. Flexible instance types for various workloads.', 'compute'),
-  ('33333333-3333-3333-3333-333333333333', 'PostgreSQL', 'Powerful open-source relational database with ACID compliance, complex queries, and strong data integrity.', 'database');
+INSERT INTO options (id, name, description, category, monthly_cost_min, monthly_cost_typical, monthly_cost_max) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'AWS Lambda', 'Serverless compute service that runs code in response to events. Pay only for compute time consumed with automatic scaling.', 'compute', 0, 150, 4000),
+  ('22222222-2222-2222-2222-222222222222', 'AWS EC2', 'Virtual servers in the cloud with full control over the operating system. Flexible instance types for various workloads.', 'compute', 70, 600, 6000),
+  ('33333333-3333-3333-3333-333333333333', 'PostgreSQL', 'Powerful open-source relational database with ACID compliance, complex queries, and strong data integrity.', 'database', 25, 200, 2500);
 
 -- Insert Attributes for AWS Lambda
 INSERT INTO attributes (option_id, attribute_type, value, rating, description) VALUES
@@ -31,6 +38,17 @@ INSERT INTO attributes (option_id, attribute_type, value, rating, description) V
   ('33333333-3333-3333-3333-333333333333', 'complexity', 'SQL expertise needed', 'medium', 'Requires understanding of relational modeling'),
   ('33333333-3333-3333-3333-333333333333', 'maintenance', 'Regular tuning', 'medium', 'Needs periodic vacuum, index optimization');
 
+-- Insert Pricing (on-demand list prices, USD)
+INSERT INTO option_pricing (option_id, unit, unit_price, free_units, description) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'request', 0.0000002, 1000000, 'Per invocation, first 1M free'),
+  -- Lambda bills per GB-second; usage counts compute hours, so this is the
+  -- hourly price of a 1 GB function ($0.0000166667 per GB-second)
+  ('11111111-1111-1111-1111-111111111111', 'hour', 0.06, 111, 'Per compute hour at 1 GB memory, first 111 free'),
+  ('22222222-2222-2222-2222-222222222222', 'hour', 0.0832, 0, 'Per t3.large instance hour'),
+  ('22222222-2222-2222-2222-222222222222', 'gb', 0.08, 0, 'Per GB-month of gp3 storage'),
+  ('33333333-3333-3333-3333-333333333333', 'hour', 0.072, 0, 'Per db.t3.medium instance hour (managed hosting)'),
+  ('33333333-3333-3333-3333-333333333333', 'gb', 0.115, 0, 'Per GB-month of database storage');
+
 -- Insert Default Weights
 INSERT INTO weights (attribute_type, default_weight, scalability_low_modifier, scalability_medium_modifier, scalability_high_modifier) VALUES
   ('cost_model', 0.30, 1.2, 1.0, 0.8),
@@ -38,6 +56,26 @@ INSERT INTO weights (attribute_type, default_weight, scalability_low_modifier, s
   ('complexity', 0.25, 1.0, 1.0, 0.9),
   ('maintenance', 0.20, 1.1, 1.0, 0.9);
 
+-- Insert Weight Profiles
+INSERT INTO weight_profiles (id, name, description) VALUES
+  ('dddddddd-0000-0000-0000-000000000001', 'Early-stage startup', 'Small team and tight budget: cost and simplicity matter most'),
+  ('dddddddd-0000-0000-0000-000000000002', 'Enterprise', 'Large workloads and dedicated ops teams: scalability comes first'),
+  ('dddddddd-0000-0000-0000-000000000003', 'Regulated industry', 'Audits and change control: predictable, low-maintenance options win');
+
+INSERT INTO weight_profile_weights (profile_id, attribute_type, default_weight, scalability_low_modifier, scalability_medium_modifier, scalability_high_modifier) VALUES
+  ('dddddddd-0000-0000-0000-000000000001', 'cost_model', 0.40, 1.2, 1.0, 0.9),
+  ('dddddddd-0000-0000-0000-000000000001', 'scalability', 0.15, 0.6, 1.0, 1.5),
+  ('dddddddd-0000-0000-0000-000000000001', 'complexity', 0.30, 1.1, 1.0, 0.9),
+  ('dddddddd-0000-0000-0000-000000000001', 'maintenance', 0.15, 1.1, 1.0, 0.9),
+  ('dddddddd-0000-0000-0000-000000000002', 'cost_model', 0.15, 1.2, 1.0, 0.8),
+  ('dddddddd-0000-0000-0000-000000000002', 'scalability', 0.40, 0.8, 1.0, 1.3),
+  ('dddddddd-0000-0000-0000-000000000002', 'complexity', 0.20, 1.0, 1.0, 0.9),
+  ('dddddddd-0000-0000-0000-000000000002', 'maintenance', 0.25, 1.0, 1.0, 1.0),
+  ('dddddddd-0000-0000-0000-000000000003', 'cost_model', 0.15, 1.1, 1.0, 0.9),
+  ('dddddddd-0000-0000-0000-000000000003', 'scalability', 0.20, 0.6, 1.0, 1.3),
+  ('dddddddd-0000-0000-0000-000000000003', 'complexity', 0.30, 1.0, 1.0, 1.0),
+  ('dddddddd-0000-0000-0000-000000000003', 'maintenance', 0.35, 1.0, 1.0, 1.0);
+
 -- Insert Integrations (reduced to 3 core examples)
 INSERT INTO integrations (id, name, category) VALUES
   ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'AWS S3', 'storage'),
@@ -8,15 +8,57 @@ import { ConstraintPanel } from '@/components/ConstraintPanel';
 import { ComparisonView } from '@/components/ComparisonView';
 import { TradeOffPanel } from '@/components/TradeOffPanel';
 import { PivotSummary } from '@/components/PivotSummary';
+import { SensitivityChart } from '@/components/SensitivityChart';
 import { AdminPanel } from '@/components/AdminPanel';
 import { PersonalizedInsightsCard } from '@/components/PersonalizedInsightsCard';
-import { useConstraints, useComparison, useApiHealth } from '@/hooks';
+import { GroupDecisionPanel } from '@/components/GroupDecisionPanel';
+import { ScenarioPanel } from '@/components/ScenarioPanel';
+import { useConstraints, useComparison, useApiHealth, useDecisionSession, useScenarios } from '@/hooks';
+import type { ExportFormat } from '@/types';
 import './App.css';
 
+// Query parameters that carry a saved comparison or a group decision
+// session ID in shareable links
+const SHARED_COMPARISON_PARAM = 'comparison';
+const SESSION_PARAM = 'session';
+
+/**
+ * Points the address bar at a saved comparison or session (or clears the
+ * parameter) without reloading, and returns the resulting URL.
+ */
+function setIdInUrl(param: string, id: string | null): string {
+  const url = new URL(window.location.href);
+  if (id) {
+    url.searchParams.set(param, id);
+  } else {
+    url.searchParams.delete(param);
+  }
+  window.history.replaceState(null, '', url);
+  return url.toString();
+}
+
+// File names for each export format
+const EXPORT_FILENAMES: Record<ExportFormat, string> = {
+  adr: 'decision-record.md',
+  markdown: 'comparison.md',
+};
+
+/**
+ * Hands a text document to the browser as a file download.
+ */
+function downloadTextFile(filename: string, content: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/markdown' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Main App component with three-panel layout.
- * Left: ConstraintPanel, Center: ComparisonView, Right: TradeOffPanel
- * Bottom: PivotSummary
+ * Left: ConstraintPanel, Center: ComparisonView and ScenarioPanel, Right: TradeOffPanel and GroupDecisionPanel
+ * Bottom: PivotSummary with the weight sensitivity chart beside it
  * 
  * Requirements: 8.1, 8.2, 7.1, 7.2
  */
@@ -31,49 +73,170 @@ function App() {
     error: comparisonError,
     availableIntegrations,
     availableOptions,
+    availableAttributeTypes,
+    availableWeightProfiles,
     selectedOptions,
     aiEnhanced,
     aiAnalysis,
+    sensitivity,
+    uncertainty,
+    tco,
     setSelectedOptions,
     fetchOptions,
+    fetchRecommendedOptions,
     fetchIntegrations,
+    fetchAttributeTypes,
+    fetchWeightProfiles,
     runComparison,
+    savedComparisonId,
+    saveCurrentComparison,
+    exportCurrentComparison,
+    loadSavedComparison,
   } = useComparison();
+  const {
+    session: decisionSession,
+    participant: sessionParticipant,
+    result: groupResult,
+    status: sessionStatus,
+    error: sessionError,
+    startSession,
+    loadSession,
+    submitRatings,
+    leaveSession,
+  } = useDecisionSession();
+  const {
+    scenarios,
+    result: scenarioResult,
+    status: scenarioStatus,
+    error: scenarioError,
+    addScenario,
+    removeScenario,
+    runScenarios,
+  } = useScenarios();
 
   const [isInitialized, setIsInitialized] = useState(false);
   const [showAdmin, setShowAdmin] = useState(false);
   const [lastUserContext, setLastUserContext] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
 
-  // Fetch options and integrations when API becomes healthy
+  // Fetch options, attribute types, weight profiles and integrations when API becomes healthy
   useEffect(() => {
     if (isHealthy && !isInitialized) {
-      fetchOptions().then((options) => {
+      fetchAttributeTypes();
+      fetchWeightProfiles();
+      fetchIntegrations();
+      fetchOptions().then(async (options) => {
         setIsInitialized(true);
-        // Auto-select first two options if available
-        if (options.length >= 2) {
-          setSelectedOptions([options[0].id, options[1].id]);
+
+        // Join a group decision session when the URL points at one
+        const params = new URLSearchParams(window.location.search);
+        const sessionId = params.get(SESSION_PARAM);
+        if (sessionId) {
+          const session = await loadSession(sessionId);
+          if (session) {
+            updateConstraints(session.constraints);
+            setSelectedOptions(session.optionIds);
+            return;
+          }
         }
-      });
-    }
-  }, [isHealthy, isInitialized, fetchOptions, setSelectedOptions]);
 
-  // Fetch supported integrations when selected options change
-  useEffect(() => {
-    if (selectedOptions && selectedOptions[0] && selectedOptions[1]) {
-      fetchIntegrations(selectedOptions);
+        // Reopen a shared comparison when the URL points at one
+        const sharedId = params.get(SHARED_COMPARISON_PARAM);
+        if (sharedId) {
+          const saved = await loadSavedComparison(sharedId);
+          if (saved) {
+            updateConstraints(saved.request.constraints);
+            setLastUserContext(saved.request.additionalContext || '');
+            return;
+          }
+        }
+
+        // Pre-select the top-ranked pair for the current constraints,
+        // falling back to the first two options
+        const recommended = await fetchRecommendedOptions(constraints);
+        const [first, second] = recommended.length >= 2 ? recommended : options.map((o) => o.id);
+        if (first && second) {
+          setSelectedOptions([first, second]);
+        }
+      });
     }
-  }, [selectedOptions, fetchIntegrations]);
+  }, [
+    isHealthy,
+    isInitialized,
+    constraints,
+    fetchOptions,
+    fetchRecommendedOptions,
+    fetchAttributeTypes,
+    fetchWeightProfiles,
+    fetchIntegrations,
+    setSelectedOptions,
+    loadSavedComparison,
+    loadSession,
+    updateConstraints,
+  ]);
 
   const handleRunComparison = async (useAI: boolean = false, additionalContext?: string) => {
-    if (!selectedOptions) return;
+    if (!selectedOptions || selectedOptions.length < 2) return;
     if (additionalContext) {
       setLastUserContext(additionalContext);
     } else {
       setLastUserContext('');
     }
+    setLinkCopied(false);
+    setIdInUrl(SHARED_COMPARISON_PARAM, null);
     await runComparison(constraints, selectedOptions, useAI, additionalContext);
   };
 
+  const handleShare = async () => {
+    setIsSharing(true);
+    const id = savedComparisonId ?? (await saveCurrentComparison());
+    setIsSharing(false);
+    if (!id) return;
+
+    const url = setIdInUrl(SHARED_COMPARISON_PARAM, id);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+    } catch {
+      // Clipboard access can be denied; the link is still in the address bar
+      setLinkCopied(false);
+    }
+  };
+
+  const handleStartSession = async (title: string) => {
+    if (!selectedOptions || selectedOptions.length < 2) return;
+    const session = await startSession(title, constraints, selectedOptions);
+    if (session) {
+      setIdInUrl(SESSION_PARAM, session.id);
+    }
+  };
+
+  const handleSubmitRatings = (name: string) => {
+    submitRatings({
+      name,
+      attributeWeights: constraints.attributeWeights ?? {},
+      scalabilityPriority: constraints.scalabilityPriority,
+    });
+  };
+
+  const handleLeaveSession = () => {
+    leaveSession();
+    setIdInUrl(SESSION_PARAM, null);
+  };
+
+  const handleRunScenarios = () => {
+    if (!selectedOptions || selectedOptions.length < 2) return;
+    runScenarios(selectedOptions);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const content = await exportCurrentComparison(format);
+    if (content) {
+      downloadTextFile(EXPORT_FILENAMES[format], content);
+    }
+  };
+
   // Show loading state while checking API health
   if (isChecking) {
     return (
@@ -146,6 +309,8 @@ function App() {
                 isLoading={status === 'loading'}
                 availableIntegrations={availableIntegrations}
                 availableOptions={availableOptions}
+                availableAttributeTypes={availableAttributeTypes}
+                availableWeightProfiles={availableWeightProfiles}
                 selectedOptions={selectedOptions}
                 onSelectedOptionsChange={setSelectedOptions}
                 error={comparisonError}
@@ -161,6 +326,13 @@ function App() {
                 error={comparisonError}
                 aiEnhanced={aiEnhanced}
                 aiAnalysis={aiAnalysis}
+                uncertainty={uncertainty}
+                tco={tco}
+                onShare={handleShare}
+                isSharing={isSharing}
+                isShared={savedComparisonId !== null}
+                linkCopied={linkCopied}
+                onExport={handleExport}
               />
               
               {/* Personalized Insights Card - Show when AI analysis has insights */}
@@ -170,20 +342,54 @@ function App() {
                   userContext={lastUserContext || ''}
                 />
               )}
+
+              <ScenarioPanel
+                scenarios={scenarios}
+                result={scenarioResult}
+                status={scenarioStatus}
+                error={scenarioError}
+                canRun={selectedOptions !== null && selectedOptions.length >= 2}
+                onAdd={(name) => addScenario(name, constraints)}
+                onRemove={removeScenario}
+                onRun={handleRunScenarios}
+              />
             </section>
 
             {/* Right Panel - Trade-Off Analysis */}
-            <aside className="lg:col-span-4">
+            <aside className="lg:col-span-4 space-y-4">
               <TradeOffPanel
                 explanation={explanation}
                 status={status}
               />
+              <GroupDecisionPanel
+                session={decisionSession}
+                participant={sessionParticipant}
+                result={groupResult}
+                status={sessionStatus}
+                error={sessionError}
+                canStart={selectedOptions !== null && selectedOptions.length >= 2}
+                onStart={handleStartSession}
+                onSubmit={handleSubmitRatings}
+                onLeave={handleLeaveSession}
+              />
             </aside>
           </div>
 
-          {/* Bottom - Pivot Summary */}
-          <div className="mt-6">
-            <PivotSummary pivot={pivot} status={status} aiAnalysis={aiAnalysis} />
+          {/* Bottom - Pivot Summary + Sensitivity */}
+          <div className="mt-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+            <div className={sensitivity && status === 'success' ? 'lg:col-span-8' : 'lg:col-span-12'}>
+              <PivotSummary
+                pivot={pivot}
+                status={status}
+                aiAnalysis={aiAnalysis}
+                scenarios={scenarioResult}
+              />
+            </div>
+            {sensitivity && status === 'success' && (
+              <div className="lg:col-span-4">
+                <SensitivityChart sensitivity={sensitivity} status={status} />
+              </div>
+            )}
           </div>
         </main>
 
@@ -192,13 +398,11 @@ function App() {
           <AdminPanel
             onClose={() => {
               setShowAdmin(false);
-              // Refresh options after admin changes
-              fetchOptions().then(() => {
-                // Refetch integrations for current selection
-                if (selectedOptions) {
-                  fetchIntegrations(selectedOptions);
-                }
-              });
+              // Refresh options, attribute types, profiles and integrations after admin changes
+              fetchAttributeTypes();
+              fetchWeightProfiles();
+              fetchOptions();
+              fetchIntegrations();
             }}
           />
         )}
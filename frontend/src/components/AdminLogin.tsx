@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Loader2, LogIn, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { login } from '@/lib/auth';
+import type { AuthSession } from '@/types';
+
+interface AdminLoginProps {
+  onLogin: (session: AuthSession) => void;
+  onClose: () => void;
+}
+
+/**
+ * AdminLogin asks for credentials before the Admin Panel opens.
+ * Accounts are local to this deployment.
+ */
+export function AdminLogin({ onLogin, onClose }: AdminLoginProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password) {
+      setError('Please enter your username and password');
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      onLogin(await login(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-background rounded-lg w-full max-w-sm">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold">Admin Sign In</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          {error && (
+            <div className="p-3 bg-destructive/10 text-destructive rounded-md text-sm">{error}</div>
+          )}
+          <div>
+            <Label htmlFor="admin-username">Username</Label>
+            <input
+              id="admin-username"
+              className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+            />
+          </div>
+          <div>
+            <Label htmlFor="admin-password">Password</Label>
+            <input
+              id="admin-password"
+              type="password"
+              className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={submitting}>
+            {submitting ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <LogIn className="h-4 w-4 mr-1" />
+            )}
+            Sign In
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default AdminLogin;
@@ -1,9 +1,14 @@
-import { useState, useEffect } from 'react';
-import { Plus, Trash2, Save, X, Sparkles, Loader2 } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Save, X, Sparkles, Loader2, Pencil, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { AdminLogin } from '@/components/AdminLogin';
+import { AdminUsersSection } from '@/components/AdminUsersSection';
+import { AdminWeightsSection } from '@/components/AdminWeightsSection';
+import { clearStoredSession, getStoredSession, hasRole, logout } from '@/lib/auth';
+import type { AuthSession } from '@/types';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 
@@ -12,12 +17,49 @@ interface AdminOption {
   name: string;
   description: string;
   category: string;
+  monthly_cost_min: string | null;
+  monthly_cost_typical: string | null;
+  monthly_cost_max: string | null;
   attributes: Array<{
     type: string;
     value: string;
     rating: string;
+    numericValue: string | null;
+    confidence: 'low' | 'medium' | 'high' | null;
+    ratingDistribution: Record<'low' | 'medium' | 'high', number> | null;
     description: string;
   }>;
+  pricing: Array<{
+    unit: PricingUnit;
+    unitPrice: string;
+    freeUnits: string;
+    description: string | null;
+  }>;
+  integrations: Array<{
+    integrationId: string;
+    supportLevel: SupportLevel;
+  }>;
+}
+
+type SupportLevel = 'native' | 'plugin' | 'custom';
+
+const SUPPORT_LEVELS: SupportLevel[] = ['native', 'plugin', 'custom'];
+
+type PricingUnit = 'request' | 'gb' | 'hour' | 'seat' | 'month';
+
+const PRICING_UNITS: Array<{ value: PricingUnit; label: string }> = [
+  { value: 'request', label: 'per request' },
+  { value: 'gb', label: 'per GB-month' },
+  { value: 'hour', label: 'per hour' },
+  { value: 'seat', label: 'per seat' },
+  { value: 'month', label: 'flat per month' },
+];
+
+interface PricingForm {
+  unit: PricingUnit;
+  unitPrice: string;
+  freeUnits: string;
+  description: string;
 }
 
 interface AdminIntegration {
@@ -26,43 +68,182 @@ interface AdminIntegration {
   category: string;
 }
 
+interface AdminAttributeType {
+  key: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  direction: 'higher_is_better' | 'lower_is_better';
+  strength_text: string | null;
+  weakness_text: string | null;
+  unit: string | null;
+  tco_effort: 'maintenance' | 'setup' | null;
+  sort_order: number;
+}
+
+interface AttributeTypeForm {
+  key: string;
+  name: string;
+  description: string;
+  icon: string;
+  direction: AdminAttributeType['direction'];
+  strengthText: string;
+  weaknessText: string;
+  unit: string;
+  // Blank means it plays no part in the cost of ownership projection
+  tcoEffort: '' | NonNullable<AdminAttributeType['tco_effort']>;
+}
+
 interface IntegrationSuggestion {
   name: string;
   category: string;
   reason: string;
 }
 
+interface NewAttribute {
+  value: string;
+  rating: 'low' | 'medium' | 'high';
+  // Only offered for attribute types with a unit; blank means rating only
+  numericValue: string;
+  // Blank means the rating is certain
+  confidence: '' | 'low' | 'medium' | 'high';
+  // Not editable here; kept so saving an option doesn't drop it
+  ratingDistribution?: AdminOption['attributes'][number]['ratingDistribution'];
+  description: string;
+}
+
 interface NewOption {
   name: string;
   description: string;
   category: string;
-  attributes: {
-    cost_model: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    scalability: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    complexity: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-    maintenance: { value: string; rating: 'low' | 'medium' | 'high'; description: string };
-  };
+  // Keyed by attribute type; catalog entries missing here use emptyAttribute
+  attributes: Record<string, NewAttribute>;
+  costEstimate: { min: string; typical: string; max: string };
+  pricing: PricingForm[];
+  // Keyed by integration id; integrations missing here are not mapped
+  integrations: Record<string, SupportLevel>;
 }
 
+const emptyAttribute: NewAttribute = {
+  value: '',
+  rating: 'medium',
+  numericValue: '',
+  confidence: '',
+  description: '',
+};
+
 const emptyOption: NewOption = {
   name: '',
   description: '',
   category: '',
-  attributes: {
-    cost_model: { value: '', rating: 'medium', description: '' },
-    scalability: { value: '', rating: 'medium', description: '' },
-    complexity: { value: '', rating: 'medium', description: '' },
-    maintenance: { value: '', rating: 'medium', description: '' },
-  },
+  attributes: {},
+  costEstimate: { min: '', typical: '', max: '' },
+  pricing: [],
+  integrations: {},
 };
 
+const emptyAttributeType: AttributeTypeForm = {
+  key: '',
+  name: '',
+  description: '',
+  icon: '',
+  direction: 'higher_is_better',
+  strengthText: '',
+  weaknessText: '',
+  unit: '',
+  tcoEffort: '',
+};
+
+/**
+ * Converts the attribute type form into a request payload, dropping blank fields.
+ */
+function toAttributeTypePayload(form: AttributeTypeForm, includeKey: boolean) {
+  return {
+    ...(includeKey ? { key: form.key.trim() } : {}),
+    name: form.name.trim(),
+    description: form.description.trim() || undefined,
+    icon: form.icon.trim() || undefined,
+    direction: form.direction,
+    strengthText: form.strengthText.trim() || undefined,
+    weaknessText: form.weaknessText.trim() || undefined,
+    unit: form.unit.trim() || undefined,
+    // null clears the effort on an existing attribute type
+    tcoEffort: form.tcoEffort || (includeKey ? undefined : null),
+  };
+}
+
+/**
+ * Converts an attribute's form fields into a request payload.
+ * Returns null when the measured value is not a number.
+ */
+function toAttributePayload(attr: NewAttribute) {
+  const numericValue = attr.numericValue.trim() === '' ? null : Number(attr.numericValue);
+  if (numericValue !== null && !Number.isFinite(numericValue)) return null;
+  return {
+    value: attr.value,
+    rating: attr.rating,
+    numericValue,
+    confidence: attr.confidence || null,
+    ratingDistribution: attr.ratingDistribution ?? null,
+    description: attr.description,
+  };
+}
+
+/**
+ * Converts the cost estimate form fields into a request payload.
+ * Returns undefined when left blank, and null when partially filled or out of order.
+ */
+function toCostEstimatePayload(
+  cost: NewOption['costEstimate']
+): { min: number; typical: number; max: number } | undefined | null {
+  const fields = [cost.min, cost.typical, cost.max];
+  if (fields.every((f) => f.trim() === '')) return undefined;
+  const [min, typical, max] = fields.map(Number);
+  if (fields.some((f) => f.trim() === '') || [min, typical, max].some((n) => isNaN(n) || n < 0)) {
+    return null;
+  }
+  if (min > typical || typical > max) return null;
+  return { min, typical, max };
+}
+
+/**
+ * Converts the pricing form rows into a request payload. Returns null when a
+ * price is not a non-negative number or a unit is used twice.
+ */
+function toPricingPayload(pricing: PricingForm[]) {
+  const payload = pricing.map((p) => ({
+    unit: p.unit,
+    unitPrice: Number(p.unitPrice),
+    freeUnits: p.freeUnits.trim() === '' ? 0 : Number(p.freeUnits),
+    description: p.description.trim() || undefined,
+  }));
+  const invalid = pricing.some((p) => p.unitPrice.trim() === '') ||
+    payload.some((p) => !(p.unitPrice >= 0) || !(p.freeUnits >= 0));
+  if (invalid || new Set(payload.map((p) => p.unit)).size !== payload.length) return null;
+  return payload;
+}
+
+/**
+ * Converts the integration support levels into a request payload.
+ */
+function toIntegrationsPayload(integrations: NewOption['integrations']) {
+  return Object.entries(integrations).map(([integrationId, supportLevel]) => ({ integrationId, supportLevel }));
+}
+
 export function AdminPanel({ onClose }: { onClose: () => void }) {
+  const [session, setSession] = useState<AuthSession | null>(getStoredSession);
   const [options, setOptions] = useState<AdminOption[]>([]);
   const [integrations, setIntegrations] = useState<AdminIntegration[]>([]);
+  const [attributeTypes, setAttributeTypes] = useState<AdminAttributeType[]>([]);
+  const [showAddAttributeType, setShowAddAttributeType] = useState(false);
+  const [attributeTypeForm, setAttributeTypeForm] = useState<AttributeTypeForm>(emptyAttributeType);
+  const [editingAttributeType, setEditingAttributeType] = useState<string | null>(null);
   const [showAddOption, setShowAddOption] = useState(false);
   const [showAddIntegration, setShowAddIntegration] = useState(false);
   const [newOption, setNewOption] = useState<NewOption>(emptyOption);
   const [newIntegration, setNewIntegration] = useState({ name: '', category: '' });
+  const [editingOption, setEditingOption] = useState<string | null>(null);
+  const [editingIntegration, setEditingIntegration] = useState<AdminIntegration | null>(null);
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -71,55 +252,179 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
   const [suggestionOption, setSuggestionOption] = useState('');
   const [suggestionUseCase, setSuggestionUseCase] = useState('');
 
-  useEffect(() => {
-    fetchData();
-  }, []);
+  /**
+   * fetch() with the session token attached. An expired or revoked session
+   * drops back to the sign-in form; a role that is too low is an error.
+   */
+  const adminFetch = useCallback(async (url: string, init?: RequestInit): Promise<Response> => {
+    const res = await fetch(url, {
+      ...init,
+      headers: { ...init?.headers, Authorization: `Bearer ${session?.token}` },
+    });
+    if (res.status === 401) {
+      clearStoredSession();
+      setSession(null);
+      throw new Error('Session expired');
+    }
+    if (res.status === 403) {
+      throw new Error('Not permitted');
+    }
+    return res;
+  }, [session?.token]);
 
-  const fetchData = async () => {
+  const handleSignOut = async () => {
+    if (session) await logout(session);
+    setSession(null);
+  };
+
+  const fetchData = useCallback(async () => {
     try {
-      const [optRes, intRes] = await Promise.all([
-        fetch(`${API_BASE_URL}/admin/options`),
-        fetch(`${API_BASE_URL}/admin/integrations`),
+      const [optRes, intRes, typeRes] = await Promise.all([
+        adminFetch(`${API_BASE_URL}/admin/options`),
+        adminFetch(`${API_BASE_URL}/admin/integrations`),
+        adminFetch(`${API_BASE_URL}/admin/attribute-types`),
       ]);
       const optData = await optRes.json();
       const intData = await intRes.json();
+      const typeData = await typeRes.json();
       setOptions(optData.options || []);
       setIntegrations(intData.integrations || []);
-    } catch (err) {
+      setAttributeTypes(typeData.attributeTypes || []);
+    } catch {
       setError('Failed to fetch data');
     }
-  };
+  }, [adminFetch]);
 
-  const handleAddOption = async () => {
+  useEffect(() => {
+    if (session) {
+      fetchData();
+    }
+  }, [session, fetchData]);
+
+  const handleSaveOption = async () => {
     if (!newOption.name || !newOption.description || !newOption.category) {
       setError('Please fill in all required fields');
       return;
     }
+    const costEstimate = toCostEstimatePayload(newOption.costEstimate);
+    if (costEstimate === null) {
+      setError('Monthly cost needs min, typical and max values with min ≤ typical ≤ max');
+      return;
+    }
+    // New options get every catalog attribute; edits keep only filled-in ones,
+    // so clearing a value removes that attribute
+    const attributeEntries = editingOption
+      ? Object.entries(newOption.attributes).filter(([, attr]) => attr.value.trim() !== '')
+      : attributeTypes.map((t): [string, NewAttribute] => [t.key, newOption.attributes[t.key] ?? emptyAttribute]);
+    const payloads = attributeEntries.map(([key, attr]) => [key, toAttributePayload(attr)] as const);
+    if (payloads.some(([, payload]) => payload === null)) {
+      setError('Measured values must be numbers');
+      return;
+    }
+    const attributes = Object.fromEntries(payloads);
+    const pricing = toPricingPayload(newOption.pricing);
+    if (pricing === null) {
+      setError('Pricing needs a non-negative price per row and each unit only once');
+      return;
+    }
+    const optionIntegrations = toIntegrationsPayload(newOption.integrations);
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`${API_BASE_URL}/admin/options`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newOption),
-      });
-      if (!res.ok) throw new Error('Failed to create option');
+      const res = editingOption
+        ? await adminFetch(`${API_BASE_URL}/admin/options/${editingOption}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              name: newOption.name,
+              description: newOption.description,
+              category: newOption.category,
+              attributes,
+              costEstimate,
+              pricing,
+              integrations: optionIntegrations,
+            }),
+          })
+        : await adminFetch(`${API_BASE_URL}/admin/options`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              ...newOption,
+              attributes,
+              costEstimate,
+              pricing,
+              integrations: optionIntegrations,
+            }),
+          });
+      if (!res.ok) throw new Error('Failed to save option');
       setNewOption(emptyOption);
+      setEditingOption(null);
       setShowAddOption(false);
       await fetchData();
-    } catch (err) {
-      setError('Failed to create option');
+    } catch {
+      setError(editingOption ? 'Failed to update option' : 'Failed to create option');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleEditOption = (option: AdminOption) => {
+    setNewOption({
+      name: option.name,
+      description: option.description,
+      category: option.category,
+      attributes: Object.fromEntries(
+        option.attributes
+          .filter((attr) => attr.type)
+          .map((attr) => [
+            attr.type,
+            {
+              value: attr.value,
+              rating: attr.rating as NewAttribute['rating'],
+              numericValue: attr.numericValue === null ? '' : String(Number(attr.numericValue)),
+              confidence: attr.confidence ?? '',
+              ratingDistribution: attr.ratingDistribution,
+              description: attr.description ?? '',
+            },
+          ])
+      ),
+      costEstimate: {
+        min: option.monthly_cost_min ?? '',
+        typical: option.monthly_cost_typical ?? '',
+        max: option.monthly_cost_max ?? '',
+      },
+      pricing: (option.pricing ?? []).map((p) => ({
+        unit: p.unit,
+        unitPrice: String(Number(p.unitPrice)),
+        freeUnits: String(Number(p.freeUnits)),
+        description: p.description ?? '',
+      })),
+      integrations: Object.fromEntries(
+        (option.integrations ?? []).map((i) => [i.integrationId, i.supportLevel])
+      ),
+    });
+    setEditingOption(option.id);
+    setShowAddOption(false);
+  };
+
+  const handleCancelOption = () => {
+    setNewOption(emptyOption);
+    setEditingOption(null);
+    setShowAddOption(false);
+  };
+
+  const handleToggleAddOption = () => {
+    const open = !showAddOption || editingOption !== null;
+    handleCancelOption();
+    setShowAddOption(open);
+  };
+
   const handleDeleteOption = async (id: string) => {
     if (!confirm('Are you sure you want to delete this option?')) return;
     try {
-      await fetch(`${API_BASE_URL}/admin/options/${id}`, { method: 'DELETE' });
+      await adminFetch(`${API_BASE_URL}/admin/options/${id}`, { method: 'DELETE' });
       await fetchData();
-    } catch (err) {
+    } catch {
       setError('Failed to delete option');
     }
   };
@@ -131,7 +436,7 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
     }
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE_URL}/admin/integrations`, {
+      const res = await adminFetch(`${API_BASE_URL}/admin/integrations`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(newIntegration),
@@ -140,23 +445,109 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
       setNewIntegration({ name: '', category: '' });
       setShowAddIntegration(false);
       await fetchData();
-    } catch (err) {
+    } catch {
       setError('Failed to create integration');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleUpdateIntegration = async () => {
+    if (!editingIntegration || !editingIntegration.name || !editingIntegration.category) {
+      setError('Please fill in all fields');
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await adminFetch(`${API_BASE_URL}/admin/integrations/${editingIntegration.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: editingIntegration.name, category: editingIntegration.category }),
+      });
+      if (!res.ok) throw new Error('Failed to update integration');
+      setEditingIntegration(null);
+      await fetchData();
+    } catch {
+      setError('Failed to update integration');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleDeleteIntegration = async (id: string) => {
     if (!confirm('Are you sure you want to delete this integration?')) return;
     try {
-      await fetch(`${API_BASE_URL}/admin/integrations/${id}`, { method: 'DELETE' });
+      await adminFetch(`${API_BASE_URL}/admin/integrations/${id}`, { method: 'DELETE' });
       await fetchData();
-    } catch (err) {
+    } catch {
       setError('Failed to delete integration');
     }
   };
 
+  const handleSaveAttributeType = async () => {
+    if (!attributeTypeForm.name || (!editingAttributeType && !attributeTypeForm.key)) {
+      setError('Attribute types need a key and a name');
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = editingAttributeType
+        ? await adminFetch(`${API_BASE_URL}/admin/attribute-types/${editingAttributeType}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(toAttributeTypePayload(attributeTypeForm, false)),
+          })
+        : await adminFetch(`${API_BASE_URL}/admin/attribute-types`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(toAttributeTypePayload(attributeTypeForm, true)),
+          });
+      if (!res.ok) throw new Error('Failed to save attribute type');
+      setAttributeTypeForm(emptyAttributeType);
+      setEditingAttributeType(null);
+      setShowAddAttributeType(false);
+      await fetchData();
+    } catch {
+      setError('Failed to save attribute type. Keys must be unique snake_case.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditAttributeType = (attributeType: AdminAttributeType) => {
+    setAttributeTypeForm({
+      key: attributeType.key,
+      name: attributeType.name,
+      description: attributeType.description ?? '',
+      icon: attributeType.icon,
+      direction: attributeType.direction,
+      strengthText: attributeType.strength_text ?? '',
+      weaknessText: attributeType.weakness_text ?? '',
+      unit: attributeType.unit ?? '',
+      tcoEffort: attributeType.tco_effort ?? '',
+    });
+    setEditingAttributeType(attributeType.key);
+    setShowAddAttributeType(true);
+  };
+
+  const handleCancelAttributeType = () => {
+    setAttributeTypeForm(emptyAttributeType);
+    setEditingAttributeType(null);
+    setShowAddAttributeType(false);
+  };
+
+  const handleDeleteAttributeType = async (key: string) => {
+    if (!confirm('Delete this attribute type? Every option loses its value for it.')) return;
+    try {
+      await adminFetch(`${API_BASE_URL}/admin/attribute-types/${key}`, { method: 'DELETE' });
+      await fetchData();
+    } catch {
+      setError('Failed to delete attribute type');
+    }
+  };
+
   const handleSuggestIntegrations = async () => {
     if (!suggestionOption) {
       setError('Please select an option first');
@@ -165,7 +556,7 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
     setSuggestingIntegrations(true);
     setError(null);
     try {
-      const res = await fetch(`${API_BASE_URL}/admin/suggest-integrations`, {
+      const res = await adminFetch(`${API_BASE_URL}/admin/suggest-integrations`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ optionName: suggestionOption, useCase: suggestionUseCase }),
@@ -173,7 +564,7 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
       if (!res.ok) throw new Error('Failed to get suggestions');
       const data = await res.json();
       setIntegrationSuggestions(data.suggestions || []);
-    } catch (err) {
+    } catch {
       setError('Failed to get AI suggestions');
     } finally {
       setSuggestingIntegrations(false);
@@ -183,7 +574,7 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
   const handleAddSuggestedIntegration = async (suggestion: IntegrationSuggestion) => {
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE_URL}/admin/integrations`, {
+      const res = await adminFetch(`${API_BASE_URL}/admin/integrations`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name: suggestion.name, category: suggestion.category }),
@@ -191,7 +582,7 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
       if (!res.ok) throw new Error('Failed to add integration');
       setIntegrationSuggestions(prev => prev.filter(s => s.name !== suggestion.name));
       await fetchData();
-    } catch (err) {
+    } catch {
       setError('Failed to add integration');
     } finally {
       setLoading(false);
@@ -206,7 +597,7 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
     setGenerating(true);
     setError(null);
     try {
-      const res = await fetch(`${API_BASE_URL}/admin/generate`, {
+      const res = await adminFetch(`${API_BASE_URL}/admin/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name: newOption.name }),
@@ -217,23 +608,288 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
         ...newOption,
         description: generated.description,
         category: generated.category,
-        attributes: generated.attributes,
+        attributes: Object.fromEntries(
+          Object.entries(generated.attributes ?? {}).map(([key, attr]) => [
+            key,
+            { ...emptyAttribute, ...(attr as Partial<NewAttribute>) },
+          ])
+        ),
       });
-    } catch (err) {
+    } catch {
       setError('AI generation failed. Make sure AWS credentials are configured.');
     } finally {
       setGenerating(false);
     }
   };
 
+  if (!session) {
+    return (
+      <AdminLogin
+        onLogin={(newSession) => {
+          setError(null);
+          setSession(newSession);
+        }}
+        onClose={onClose}
+      />
+    );
+  }
+
+  const canEdit = hasRole(session.user, 'editor');
+  const isAdmin = hasRole(session.user, 'admin');
+
+  // Shared by the add form and the inline edit form for an option
+  const optionForm = (
+    <div className="p-4 border rounded-lg space-y-4 bg-muted/30">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Name *</Label>
+          <div className="flex gap-2 mt-1">
+            <input
+              className="flex-1 px-3 py-2 border rounded-md bg-background"
+              value={newOption.name}
+              onChange={(e) => setNewOption({ ...newOption, name: e.target.value })}
+              placeholder="e.g., AWS DynamoDB"
+            />
+            <Button 
+              variant="outline" 
+              onClick={handleGenerateWithAI}
+              disabled={generating || !newOption.name}
+              title="Generate description and attributes with AI"
+            >
+              {generating ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Enter name and click ✨ to auto-generate details
+          </p>
+        </div>
+        <div>
+          <Label>Category *</Label>
+          <input
+            className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+            value={newOption.category}
+            onChange={(e) => setNewOption({ ...newOption, category: e.target.value })}
+            placeholder="e.g., database"
+          />
+        </div>
+      </div>
+      <div>
+        <Label>Description *</Label>
+        <textarea
+          className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+          value={newOption.description}
+          onChange={(e) => setNewOption({ ...newOption, description: e.target.value })}
+          placeholder="Describe this option..."
+          rows={2}
+        />
+      </div>
+      <div>
+        <Label>Monthly Cost Estimate (USD, optional)</Label>
+        <div className="grid grid-cols-3 gap-2 mt-1">
+          {(['min', 'typical', 'max'] as const).map((field) => (
+            <input
+              key={field}
+              type="number"
+              min={0}
+              className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+              value={newOption.costEstimate[field]}
+              onChange={(e) => setNewOption({
+                ...newOption,
+                costEstimate: { ...newOption.costEstimate, [field]: e.target.value },
+              })}
+              placeholder={field.charAt(0).toUpperCase() + field.slice(1)}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Used to check options against the user's budget range
+        </p>
+      </div>
+      <div>
+        <div className="flex items-center justify-between">
+          <Label>Pricing (USD, optional)</Label>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setNewOption({
+              ...newOption,
+              pricing: [...newOption.pricing, { unit: 'hour', unitPrice: '', freeUnits: '', description: '' }],
+            })}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add Price
+          </Button>
+        </div>
+        {newOption.pricing.map((price, index) => {
+          const setPrice = (changes: Partial<PricingForm>) => setNewOption({
+            ...newOption,
+            pricing: newOption.pricing.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+          });
+          return (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2 mt-1 items-center">
+              <select
+                className="px-2 py-2 border rounded-md bg-background text-sm"
+                value={price.unit}
+                onChange={(e) => setPrice({ unit: e.target.value as PricingUnit })}
+              >
+                {PRICING_UNITS.map((u) => (
+                  <option key={u.value} value={u.value}>{u.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                className="w-full px-2 py-2 border rounded-md bg-background text-sm"
+                value={price.unitPrice}
+                onChange={(e) => setPrice({ unitPrice: e.target.value })}
+                placeholder="Price"
+              />
+              <input
+                type="number"
+                min={0}
+                className="w-full px-2 py-2 border rounded-md bg-background text-sm"
+                value={price.freeUnits}
+                onChange={(e) => setPrice({ freeUnits: e.target.value })}
+                placeholder="Free units"
+              />
+              <input
+                className="w-full px-2 py-2 border rounded-md bg-background text-sm"
+                value={price.description}
+                onChange={(e) => setPrice({ description: e.target.value })}
+                placeholder="Description"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setNewOption({
+                  ...newOption,
+                  pricing: newOption.pricing.filter((_, i) => i !== index),
+                })}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground mt-1">
+          Prices options on the user's expected usage instead of the estimate above
+        </p>
+      </div>
+      {integrations.length > 0 && (
+        <div>
+          <Label>Integrations</Label>
+          <div className="grid grid-cols-3 gap-2 mt-1">
+            {integrations.map((integration) => (
+              <div key={integration.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate" title={integration.category}>{integration.name}</span>
+                <select
+                  className="px-2 py-1 border rounded-md bg-background text-sm"
+                  value={newOption.integrations[integration.id] ?? ''}
+                  onChange={(e) => {
+                    const rest = Object.fromEntries(
+                      Object.entries(newOption.integrations).filter(([id]) => id !== integration.id)
+                    );
+                    setNewOption({
+                      ...newOption,
+                      integrations: e.target.value
+                        ? { ...rest, [integration.id]: e.target.value as SupportLevel }
+                        : rest,
+                    });
+                  }}
+                >
+                  <option value="">Not supported</option>
+                  {SUPPORT_LEVELS.map((level) => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            How the option supports each integration; unsupported ones fail strict comparisons
+          </p>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        {attributeTypes.map((attributeType) => {
+          const attr = newOption.attributes[attributeType.key] ?? emptyAttribute;
+          const setAttr = (changes: Partial<NewAttribute>) => setNewOption({
+            ...newOption,
+            attributes: {
+              ...newOption.attributes,
+              [attributeType.key]: { ...attr, ...changes },
+            },
+          });
+          return (
+            <div key={attributeType.key} className="space-y-2 p-3 border rounded-md">
+              <Label>{attributeType.icon} {attributeType.name}</Label>
+              <input
+                className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                value={attr.value}
+                onChange={(e) => setAttr({ value: e.target.value })}
+                placeholder="Value"
+              />
+              <select
+                className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                value={attr.rating}
+                onChange={(e) => setAttr({ rating: e.target.value as NewAttribute['rating'] })}
+              >
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+              </select>
+              <select
+                className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                value={attr.confidence}
+                onChange={(e) => setAttr({ confidence: e.target.value as NewAttribute['confidence'] })}
+                title="How sure the rating is; uncertain ratings vary in score simulations"
+              >
+                <option value="">Certain</option>
+                <option value="high">High confidence</option>
+                <option value="medium">Medium confidence</option>
+                <option value="low">Low confidence</option>
+              </select>
+              {attributeType.unit && (
+                <input
+                  type="number"
+                  className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                  value={attr.numericValue}
+                  onChange={(e) => setAttr({ numericValue: e.target.value })}
+                  placeholder={`Measured value (${attributeType.unit})`}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={handleSaveOption} disabled={loading}>
+          <Save className="h-4 w-4 mr-1" /> Save Option
+        </Button>
+        <Button variant="outline" onClick={handleCancelOption}>Cancel</Button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-background rounded-lg w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
         <div className="flex items-center justify-between p-4 border-b">
           <h2 className="text-xl font-bold">Admin Panel - Manage Data</h2>
-          <Button variant="ghost" size="sm" onClick={onClose}>
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">{session.user.username}</span>
+            <Badge variant="secondary">{session.user.role}</Badge>
+            <Button variant="ghost" size="sm" onClick={handleSignOut} title="Sign out">
+              <LogOut className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         {error && (
@@ -247,130 +903,223 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle className="text-lg">Options ({options.length})</CardTitle>
-              <Button size="sm" onClick={() => setShowAddOption(!showAddOption)}>
-                <Plus className="h-4 w-4 mr-1" /> Add Option
-              </Button>
+              {canEdit && (
+                <Button size="sm" onClick={handleToggleAddOption}>
+                  <Plus className="h-4 w-4 mr-1" /> Add Option
+                </Button>
+              )}
             </CardHeader>
             <CardContent className="space-y-4">
-              {showAddOption && (
-                <div className="p-4 border rounded-lg space-y-4 bg-muted/30">
-                  <div className="grid grid-cols-2 gap-4">
+              {canEdit && showAddOption && !editingOption && optionForm}
+
+              <div className="space-y-2">
+                {options.map((option) => editingOption === option.id ? (
+                  <div key={option.id}>{optionForm}</div>
+                ) : (
+                  <div key={option.id} className="flex items-center justify-between p-3 border rounded-md">
                     <div>
-                      <Label>Name *</Label>
-                      <div className="flex gap-2 mt-1">
-                        <input
-                          className="flex-1 px-3 py-2 border rounded-md bg-background"
-                          value={newOption.name}
-                          onChange={(e) => setNewOption({ ...newOption, name: e.target.value })}
-                          placeholder="e.g., AWS DynamoDB"
-                        />
-                        <Button 
-                          variant="outline" 
-                          onClick={handleGenerateWithAI}
-                          disabled={generating || !newOption.name}
-                          title="Generate description and attributes with AI"
-                        >
-                          {generating ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <Sparkles className="h-4 w-4" />
-                          )}
+                      <span className="font-medium">{option.name}</span>
+                      <Badge variant="outline" className="ml-2">{option.category}</Badge>
+                      {option.monthly_cost_typical !== null && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          ~${Number(option.monthly_cost_typical).toLocaleString()}/mo
+                        </span>
+                      )}
+                      <p className="text-sm text-muted-foreground mt-1">{option.description.slice(0, 100)}...</p>
+                    </div>
+                    {canEdit && (
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" onClick={() => handleEditOption(option)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteOption(option.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
                         </Button>
                       </div>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Enter name and click ✨ to auto-generate details
-                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Attribute Types Section */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg">Attribute Types ({attributeTypes.length})</CardTitle>
+              {isAdmin && (
+                <Button
+                  size="sm"
+                  onClick={() => (showAddAttributeType ? handleCancelAttributeType() : setShowAddAttributeType(true))}
+                >
+                  <Plus className="h-4 w-4 mr-1" /> Add Attribute Type
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isAdmin && showAddAttributeType && (
+                <div className="p-4 border rounded-lg space-y-4 bg-muted/30">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label>Key *</Label>
+                      <input
+                        className="w-full mt-1 px-3 py-2 border rounded-md bg-background disabled:opacity-50"
+                        value={attributeTypeForm.key}
+                        onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, key: e.target.value })}
+                        placeholder="e.g., vendor_lock_in"
+                        disabled={editingAttributeType !== null}
+                      />
                     </div>
                     <div>
-                      <Label>Category *</Label>
+                      <Label>Name *</Label>
+                      <input
+                        className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                        value={attributeTypeForm.name}
+                        onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, name: e.target.value })}
+                        placeholder="e.g., Vendor Lock-in"
+                      />
+                    </div>
+                    <div>
+                      <Label>Icon</Label>
                       <input
                         className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
-                        value={newOption.category}
-                        onChange={(e) => setNewOption({ ...newOption, category: e.target.value })}
-                        placeholder="e.g., database"
+                        value={attributeTypeForm.icon}
+                        onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, icon: e.target.value })}
+                        placeholder="e.g., 🔒"
                       />
                     </div>
                   </div>
-                  <div>
-                    <Label>Description *</Label>
-                    <textarea
-                      className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
-                      value={newOption.description}
-                      onChange={(e) => setNewOption({ ...newOption, description: e.target.value })}
-                      placeholder="Describe this option..."
-                      rows={2}
-                    />
+                  <div className="grid grid-cols-4 gap-4">
+                    <div className="col-span-2">
+                      <Label>Description</Label>
+                      <input
+                        className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                        value={attributeTypeForm.description}
+                        onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, description: e.target.value })}
+                        placeholder="What this attribute measures"
+                      />
+                    </div>
+                    <div>
+                      <Label>Direction</Label>
+                      <select
+                        className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                        value={attributeTypeForm.direction}
+                        onChange={(e) => setAttributeTypeForm({
+                          ...attributeTypeForm,
+                          direction: e.target.value as AttributeTypeForm['direction'],
+                        })}
+                      >
+                        <option value="higher_is_better">Higher is better</option>
+                        <option value="lower_is_better">Lower is better</option>
+                      </select>
+                    </div>
+                    <div>
+                      <Label>Unit</Label>
+                      <input
+                        className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                        value={attributeTypeForm.unit}
+                        onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, unit: e.target.value })}
+                        placeholder="e.g., ms (optional)"
+                      />
+                    </div>
                   </div>
                   <div className="grid grid-cols-2 gap-4">
-                    {(['cost_model', 'scalability', 'complexity', 'maintenance'] as const).map((attr) => (
-                      <div key={attr} className="space-y-2 p-3 border rounded-md">
-                        <Label className="capitalize">{attr.replace('_', ' ')}</Label>
-                        <input
-                          className="w-full px-2 py-1 border rounded-md bg-background text-sm"
-                          value={newOption.attributes[attr].value}
-                          onChange={(e) => setNewOption({
-                            ...newOption,
-                            attributes: {
-                              ...newOption.attributes,
-                              [attr]: { ...newOption.attributes[attr], value: e.target.value }
-                            }
-                          })}
-                          placeholder="Value"
-                        />
-                        <select
-                          className="w-full px-2 py-1 border rounded-md bg-background text-sm"
-                          value={newOption.attributes[attr].rating}
-                          onChange={(e) => setNewOption({
-                            ...newOption,
-                            attributes: {
-                              ...newOption.attributes,
-                              [attr]: { ...newOption.attributes[attr], rating: e.target.value as 'low' | 'medium' | 'high' }
-                            }
-                          })}
-                        >
-                          <option value="low">Low</option>
-                          <option value="medium">Medium</option>
-                          <option value="high">High</option>
-                        </select>
-                      </div>
-                    ))}
+                    <div>
+                      <Label>Strength text</Label>
+                      <input
+                        className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                        value={attributeTypeForm.strengthText}
+                        onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, strengthText: e.target.value })}
+                        placeholder="Shown when the rating is favorable"
+                      />
+                    </div>
+                    <div>
+                      <Label>Weakness text</Label>
+                      <input
+                        className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                        value={attributeTypeForm.weaknessText}
+                        onChange={(e) => setAttributeTypeForm({ ...attributeTypeForm, weaknessText: e.target.value })}
+                        placeholder="Shown when the rating is unfavorable"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label>Cost of ownership</Label>
+                    <select
+                      className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                      value={attributeTypeForm.tcoEffort}
+                      onChange={(e) => setAttributeTypeForm({
+                        ...attributeTypeForm,
+                        tcoEffort: e.target.value as AttributeTypeForm['tcoEffort'],
+                      })}
+                    >
+                      <option value="">Not used</option>
+                      <option value="maintenance">Sets monthly maintenance hours</option>
+                      <option value="setup">Sets one-time setup hours</option>
+                    </select>
                   </div>
                   <div className="flex gap-2">
-                    <Button onClick={handleAddOption} disabled={loading}>
-                      <Save className="h-4 w-4 mr-1" /> Save Option
+                    <Button onClick={handleSaveAttributeType} disabled={loading}>
+                      <Save className="h-4 w-4 mr-1" /> Save Attribute Type
                     </Button>
-                    <Button variant="outline" onClick={() => setShowAddOption(false)}>Cancel</Button>
+                    <Button variant="outline" onClick={handleCancelAttributeType}>Cancel</Button>
                   </div>
                 </div>
               )}
 
-              <div className="space-y-2">
-                {options.map((option) => (
-                  <div key={option.id} className="flex items-center justify-between p-3 border rounded-md">
+              <div className="grid grid-cols-2 gap-2">
+                {attributeTypes.map((attributeType) => (
+                  <div key={attributeType.key} className="flex items-center justify-between p-2 border rounded-md">
                     <div>
-                      <span className="font-medium">{option.name}</span>
-                      <Badge variant="outline" className="ml-2">{option.category}</Badge>
-                      <p className="text-sm text-muted-foreground mt-1">{option.description.slice(0, 100)}...</p>
+                      <span className="text-sm font-medium">{attributeType.icon} {attributeType.name}</span>
+                      <Badge variant="outline" className="ml-2 text-xs">{attributeType.key}</Badge>
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {attributeType.direction === 'lower_is_better' ? 'lower is better' : 'higher is better'}
+                        {attributeType.unit && `, measured in ${attributeType.unit}`}
+                        {attributeType.tco_effort && `, sets ${attributeType.tco_effort} hours`}
+                      </span>
+                      {attributeType.description && (
+                        <p className="text-xs text-muted-foreground mt-1">{attributeType.description}</p>
+                      )}
                     </div>
-                    <Button variant="ghost" size="sm" onClick={() => handleDeleteOption(option.id)}>
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    {isAdmin && (
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" onClick={() => handleEditAttributeType(attributeType)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteAttributeType(attributeType.key)}>
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             </CardContent>
           </Card>
 
+          {/* Weights Section (reloaded when attribute types are added or removed) */}
+          <AdminWeightsSection
+            key={attributeTypes.length}
+            options={options}
+            attributeTypes={attributeTypes}
+            canEdit={isAdmin}
+            adminFetch={adminFetch}
+            onError={setError}
+          />
+
           {/* Integrations Section */}
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle className="text-lg">Integrations ({integrations.length})</CardTitle>
-              <Button size="sm" onClick={() => setShowAddIntegration(!showAddIntegration)}>
-                <Plus className="h-4 w-4 mr-1" /> Add Integration
-              </Button>
+              {canEdit && (
+                <Button size="sm" onClick={() => setShowAddIntegration(!showAddIntegration)}>
+                  <Plus className="h-4 w-4 mr-1" /> Add Integration
+                </Button>
+              )}
             </CardHeader>
             <CardContent className="space-y-4">
-              {showAddIntegration && (
+              {canEdit && showAddIntegration && (
                 <div className="p-4 border rounded-lg space-y-4 bg-muted/30">
                   <div className="grid grid-cols-2 gap-4">
                     <div>
@@ -402,6 +1151,7 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
               )}
 
               {/* AI Integration Suggestions */}
+              {canEdit && (
               <div className="p-4 border rounded-lg bg-gradient-to-r from-purple-500/5 to-pink-500/5">
                 <Label className="text-sm font-medium flex items-center gap-2 mb-3">
                   <Sparkles className="h-4 w-4 text-purple-400" />
@@ -462,22 +1212,60 @@ export function AdminPanel({ onClose }: { onClose: () => void }) {
                   </div>
                 )}
               </div>
+              )}
 
               <div className="grid grid-cols-2 gap-2">
-                {integrations.map((integration) => (
+                {integrations.map((integration) => editingIntegration?.id === integration.id ? (
+                  <div key={integration.id} className="flex items-center gap-1 p-2 border rounded-md">
+                    <input
+                      className="flex-1 min-w-0 px-2 py-1 border rounded-md bg-background text-sm"
+                      value={editingIntegration.name}
+                      onChange={(e) => setEditingIntegration({ ...editingIntegration, name: e.target.value })}
+                      aria-label="Integration name"
+                    />
+                    <input
+                      className="w-24 px-2 py-1 border rounded-md bg-background text-sm"
+                      value={editingIntegration.category}
+                      onChange={(e) => setEditingIntegration({ ...editingIntegration, category: e.target.value })}
+                      aria-label="Integration category"
+                    />
+                    <Button variant="ghost" size="sm" onClick={handleUpdateIntegration} disabled={loading}>
+                      <Save className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingIntegration(null)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ) : (
                   <div key={integration.id} className="flex items-center justify-between p-2 border rounded-md">
                     <div>
                       <span className="text-sm font-medium">{integration.name}</span>
                       <Badge variant="outline" className="ml-2 text-xs">{integration.category}</Badge>
                     </div>
-                    <Button variant="ghost" size="sm" onClick={() => handleDeleteIntegration(integration.id)}>
-                      <Trash2 className="h-3 w-3 text-destructive" />
-                    </Button>
+                    {canEdit && (
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" onClick={() => setEditingIntegration(integration)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteIntegration(integration.id)}>
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             </CardContent>
           </Card>
+
+          {/* Users Section */}
+          {isAdmin && (
+            <AdminUsersSection
+              currentUser={session.user}
+              adminFetch={adminFetch}
+              onError={setError}
+            />
+          )}
         </div>
       </div>
     </div>
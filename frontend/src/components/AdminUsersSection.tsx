@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import type { AuthUser, UserRole } from '@/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+const ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const emptyUser = { username: '', password: '', role: 'viewer' as UserRole };
+
+interface AdminUsersSectionProps {
+  currentUser: AuthUser;
+  adminFetch: (url: string, init?: RequestInit) => Promise<Response>;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * AdminUsersSection lists user accounts and lets admins add or remove them.
+ */
+export function AdminUsersSection({ currentUser, adminFetch, onError }: AdminUsersSectionProps) {
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [showAddUser, setShowAddUser] = useState(false);
+  const [newUser, setNewUser] = useState(emptyUser);
+  const [loading, setLoading] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const res = await adminFetch(`${API_BASE_URL}/admin/users`);
+      const data = await res.json();
+      setUsers(data.users || []);
+    } catch {
+      onError('Failed to fetch users');
+    }
+  }, [adminFetch, onError]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleAddUser = async () => {
+    if (!newUser.username || newUser.password.length < MIN_PASSWORD_LENGTH) {
+      onError(`Users need a username and a password of at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    setLoading(true);
+    onError(null);
+    try {
+      const res = await adminFetch(`${API_BASE_URL}/admin/users`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newUser),
+      });
+      if (!res.ok) throw new Error('Failed to create user');
+      setNewUser(emptyUser);
+      setShowAddUser(false);
+      await fetchUsers();
+    } catch {
+      onError('Failed to create user. Usernames must be unique.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteUser = async (id: string) => {
+    if (!confirm('Delete this user? They will be signed out.')) return;
+    try {
+      const res = await adminFetch(`${API_BASE_URL}/admin/users/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete user');
+      await fetchUsers();
+    } catch {
+      onError('Failed to delete user');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Users ({users.length})</CardTitle>
+        <Button size="sm" onClick={() => setShowAddUser(!showAddUser)}>
+          <Plus className="h-4 w-4 mr-1" /> Add User
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showAddUser && (
+          <div className="p-4 border rounded-lg space-y-4 bg-muted/30">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Username *</Label>
+                <input
+                  className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                  value={newUser.username}
+                  onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <Label>Password *</Label>
+                <input
+                  type="password"
+                  className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div>
+                <Label>Role</Label>
+                <select
+                  className="w-full mt-1 px-3 py-2 border rounded-md bg-background"
+                  value={newUser.role}
+                  onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleAddUser} disabled={loading}>
+                <Save className="h-4 w-4 mr-1" /> Save User
+              </Button>
+              <Button variant="outline" onClick={() => setShowAddUser(false)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          {users.map((user) => (
+            <div key={user.id} className="flex items-center justify-between p-2 border rounded-md">
+              <div>
+                <span className="text-sm font-medium">{user.username}</span>
+                <Badge variant="outline" className="ml-2 text-xs">{user.role}</Badge>
+              </div>
+              {user.id !== currentUser.id && (
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteUser(user.id)}>
+                  <Trash2 className="h-3 w-3 text-destructive" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AdminUsersSection;
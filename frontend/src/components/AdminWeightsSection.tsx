@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Eye, Loader2, RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+// Options scored in the preview until the admin picks others
+const DEFAULT_SAMPLE_SIZE = 3;
+const MIN_SAMPLE_SIZE = 2;
+const MAX_SAMPLE_SIZE = 6;
+
+// Modifiers are stored as DECIMAL(3,2) (mirrors the API)
+const MAX_SCALABILITY_MODIFIER = 9.99;
+
+const INVALID_WEIGHTS_MESSAGE =
+  `Weights must be between 0 and 1 and modifiers between 0 and ${MAX_SCALABILITY_MODIFIER}, with at most two decimals`;
+
+const WEIGHT_FIELDS = [
+  { key: 'defaultWeight', label: 'Weight', max: 1 },
+  { key: 'scalabilityLowModifier', label: 'Low', max: MAX_SCALABILITY_MODIFIER },
+  { key: 'scalabilityMediumModifier', label: 'Medium', max: MAX_SCALABILITY_MODIFIER },
+  { key: 'scalabilityHighModifier', label: 'High', max: MAX_SCALABILITY_MODIFIER },
+] as const;
+
+type WeightField = (typeof WEIGHT_FIELDS)[number]['key'];
+
+type WeightInput = Record<WeightField, number>;
+
+// Form values as typed, keyed by attribute type
+type WeightsForm = Record<string, Record<WeightField, string>>;
+
+interface WeightPreviewOption {
+  id: string;
+  name: string;
+  currentScore: number;
+  proposedScore: number;
+  currentRank: number;
+  proposedRank: number;
+}
+
+interface WeightPreview {
+  options: WeightPreviewOption[];
+  currentWinner: string | null;
+  proposedWinner: string | null;
+}
+
+interface AdminWeightsSectionProps {
+  options: Array<{ id: string; name: string }>;
+  attributeTypes: Array<{ key: string; name: string; icon: string }>;
+  canEdit: boolean;
+  adminFetch: (url: string, init?: RequestInit) => Promise<Response>;
+  onError: (message: string | null) => void;
+}
+
+function toForm(weights: Record<string, WeightInput>): WeightsForm {
+  return Object.fromEntries(
+    Object.entries(weights).map(([key, weight]) => [
+      key,
+      Object.fromEntries(WEIGHT_FIELDS.map((f) => [f.key, String(weight[f.key])])) as Record<WeightField, string>,
+    ])
+  );
+}
+
+/**
+ * Converts the form into a request payload. Returns null when a value is
+ * not a number in range with at most two decimals.
+ */
+function toWeightsPayload(form: WeightsForm): Record<string, WeightInput> | null {
+  const payload: Record<string, WeightInput> = {};
+  for (const [key, values] of Object.entries(form)) {
+    const weight = {} as WeightInput;
+    for (const field of WEIGHT_FIELDS) {
+      const raw = values[field.key].trim();
+      if (!/^\d*(\.\d{1,2})?$/.test(raw) || raw === '' || Number(raw) > field.max) {
+        return null;
+      }
+      weight[field.key] = Number(raw);
+    }
+    payload[key] = weight;
+  }
+  return payload;
+}
+
+/**
+ * AdminWeightsSection edits the default weight and scalability modifiers of
+ * each attribute type, and previews how a sample comparison's scores shift
+ * before the change is saved.
+ */
+export function AdminWeightsSection({
+  options,
+  attributeTypes,
+  canEdit,
+  adminFetch,
+  onError,
+}: AdminWeightsSectionProps) {
+  const [saved, setSaved] = useState<WeightsForm>({});
+  const [form, setForm] = useState<WeightsForm>({});
+  const [sampleIds, setSampleIds] = useState<string[] | null>(null);
+  const [preview, setPreview] = useState<WeightPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const sample = sampleIds ?? options.slice(0, DEFAULT_SAMPLE_SIZE).map((o) => o.id);
+  const isDirty = JSON.stringify(form) !== JSON.stringify(saved);
+
+  const fetchWeights = useCallback(async () => {
+    try {
+      const res = await adminFetch(`${API_BASE_URL}/admin/weights`);
+      const data = await res.json();
+      const weights = toForm(data.weights || {});
+      setSaved(weights);
+      setForm(weights);
+    } catch {
+      onError('Failed to fetch weights');
+    }
+  }, [adminFetch, onError]);
+
+  useEffect(() => {
+    fetchWeights();
+  }, [fetchWeights]);
+
+  const handleChange = (key: string, field: WeightField, value: string) => {
+    setForm({ ...form, [key]: { ...form[key], [field]: value } });
+    setPreview(null);
+  };
+
+  const handleToggleSample = (id: string) => {
+    setSampleIds(sample.includes(id) ? sample.filter((s) => s !== id) : [...sample, id]);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    const weights = toWeightsPayload(form);
+    if (!weights) {
+      onError(INVALID_WEIGHTS_MESSAGE);
+      return;
+    }
+    if (sample.length < MIN_SAMPLE_SIZE || sample.length > MAX_SAMPLE_SIZE) {
+      onError(`Pick ${MIN_SAMPLE_SIZE}-${MAX_SAMPLE_SIZE} options to preview`);
+      return;
+    }
+    setPreviewing(true);
+    onError(null);
+    try {
+      const res = await adminFetch(`${API_BASE_URL}/admin/weights/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weights, optionIds: sample }),
+      });
+      if (!res.ok) throw new Error('Failed to preview weights');
+      setPreview(await res.json());
+    } catch {
+      onError('Failed to preview weights');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const weights = toWeightsPayload(form);
+    if (!weights) {
+      onError(INVALID_WEIGHTS_MESSAGE);
+      return;
+    }
+    setLoading(true);
+    onError(null);
+    try {
+      const res = await adminFetch(`${API_BASE_URL}/admin/weights`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weights }),
+      });
+      if (!res.ok) throw new Error('Failed to save weights');
+      const data = await res.json();
+      const updated = toForm(data.weights || {});
+      setSaved(updated);
+      setForm(updated);
+      setPreview(null);
+    } catch {
+      onError('Failed to save weights');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setForm(saved);
+    setPreview(null);
+  };
+
+  const getAttributeLabel = (key: string) => {
+    const attributeType = attributeTypes.find((t) => t.key === key);
+    return attributeType ? `${attributeType.icon} ${attributeType.name}` : key;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Weights</CardTitle>
+        <div className="flex gap-2">
+          {isDirty && (
+            <Button size="sm" variant="ghost" onClick={handleReset}>
+              <RotateCcw className="h-4 w-4 mr-1" /> Reset
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={handlePreview} disabled={previewing}>
+            {previewing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Eye className="h-4 w-4 mr-1" />}
+            Preview
+          </Button>
+          {canEdit && (
+            <Button size="sm" onClick={handleSave} disabled={loading || !isDirty}>
+              <Save className="h-4 w-4 mr-1" /> Save Weights
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="grid grid-cols-5 gap-2 text-xs text-muted-foreground">
+            <span>Attribute</span>
+            {WEIGHT_FIELDS.map((field) => (
+              <span key={field.key}>
+                {field.key === 'defaultWeight' ? field.label : `${field.label} scalability ×`}
+              </span>
+            ))}
+          </div>
+          {Object.entries(form).map(([key, values]) => (
+            <div key={key} className="grid grid-cols-5 gap-2 items-center">
+              <span className="text-sm font-medium">{getAttributeLabel(key)}</span>
+              {WEIGHT_FIELDS.map((field) => (
+                <input
+                  key={field.key}
+                  type="number"
+                  min={0}
+                  max={field.max}
+                  step={0.01}
+                  className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                  value={values[field.key]}
+                  onChange={(e) => handleChange(key, field.key, e.target.value)}
+                  aria-label={`${getAttributeLabel(key)} ${field.label}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">
+            Sample comparison ({MIN_SAMPLE_SIZE}-{MAX_SAMPLE_SIZE} options, default constraints)
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {options.map((option) => (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={sample.includes(option.id) ? 'default' : 'outline'}
+                onClick={() => handleToggleSample(option.id)}
+              >
+                {option.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {preview && (
+          <div className="p-3 border rounded-md space-y-2 bg-muted/30">
+            <p className="text-sm">
+              {preview.currentWinner === preview.proposedWinner ? (
+                <>Winner stays <span className="font-medium">{preview.proposedWinner ?? 'none'}</span></>
+              ) : (
+                <>
+                  Winner changes from <span className="font-medium">{preview.currentWinner ?? 'none'}</span> to{' '}
+                  <span className="font-medium">{preview.proposedWinner ?? 'none'}</span>
+                </>
+              )}
+            </p>
+            {preview.options.map((option) => {
+              const delta = Math.round((option.proposedScore - option.currentScore) * 10) / 10;
+              return (
+                <div key={option.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    #{option.proposedRank} {option.name}
+                    {option.proposedRank !== option.currentRank && (
+                      <span className="ml-1 text-xs text-muted-foreground">(was #{option.currentRank})</span>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{option.currentScore} → {option.proposedScore}</span>
+                    <Badge variant={delta > 0 ? 'success' : delta < 0 ? 'warning' : 'outline'} className="text-xs">
+                      {delta > 0 ? `+${delta}` : delta}
+                    </Badge>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AdminWeightsSection;
@@ -0,0 +1,129 @@
+import { Table2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AttributeValue, ComparisonResult, IntegrationSupportLevel } from '@/types';
+import { cn, formatMeasurement } from '@/lib/utils';
+
+interface AttributeMatrixTableProps {
+  comparison: ComparisonResult;
+  className?: string;
+}
+
+// Map rating sentiments to badge variants
+const SENTIMENT_VARIANTS: Record<AttributeValue['sentiment'], 'destructive' | 'warning' | 'success'> = {
+  unfavorable: 'destructive',
+  neutral: 'warning',
+  favorable: 'success',
+};
+
+// Map integration support levels to badge variants; 'unknown' is an unmet requirement
+const SUPPORT_LEVEL_VARIANTS: Record<IntegrationSupportLevel, 'destructive' | 'warning' | 'success' | 'outline'> = {
+  native: 'success',
+  plugin: 'warning',
+  custom: 'outline',
+  unknown: 'destructive',
+};
+
+/**
+ * AttributeMatrixTable renders the comparison matrix with one column per option.
+ * Columns follow the ranked order of the comparison result. Required
+ * integrations get a row each, with unmet ones flagged.
+ */
+export function AttributeMatrixTable({ comparison, className }: AttributeMatrixTableProps) {
+  const { options, matrix, attributeTypes } = comparison;
+  const requiredIntegrations = options[0]?.integrationFit.integrations ?? [];
+
+  return (
+    <Card className={cn('overflow-hidden', className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Table2 className="h-4 w-4" />
+          Attribute Matrix
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left font-medium text-muted-foreground py-2 pr-3">Attribute</th>
+              {options.map((option) => (
+                <th key={option.id} className="text-left font-medium py-2 px-3 whitespace-nowrap">
+                  <span className="text-muted-foreground mr-1">#{option.rank}</span>
+                  {option.name}
+                  {option.disqualified && (
+                    <Badge variant="destructive" className="ml-2 text-xs" title={option.disqualifications.join('\n')}>
+                      Disqualified
+                    </Badge>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {attributeTypes.map((attributeType) => (
+              <tr key={attributeType.key} className="border-b last:border-0">
+                <td className="py-2 pr-3 font-medium whitespace-nowrap" title={attributeType.description ?? undefined}>
+                  <span className="mr-1">{attributeType.icon}</span>
+                  {attributeType.name}
+                </td>
+                {options.map((option) => {
+                  const cell = matrix[attributeType.key]?.[option.id];
+                  return (
+                    <td key={option.id} className="py-2 px-3">
+                      {cell ? (
+                        <div className="flex flex-col items-start gap-1">
+                          <span className="text-xs text-muted-foreground">{cell.value}</span>
+                          {cell.measurement ? (
+                            <Badge variant={SENTIMENT_VARIANTS[cell.sentiment]} className="text-xs" title="Score relative to the compared options">
+                              {formatMeasurement(cell.measurement)} · {cell.score}
+                            </Badge>
+                          ) : (
+                            <Badge variant={SENTIMENT_VARIANTS[cell.sentiment]} className="capitalize text-xs">
+                              {cell.rating}
+                            </Badge>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">N/A</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {requiredIntegrations.map((integration) => (
+              <tr key={integration.integrationId} className="border-b last:border-0">
+                <td className="py-2 pr-3 font-medium whitespace-nowrap">
+                  <span className="mr-1">🔌</span>
+                  {integration.name}
+                </td>
+                {options.map((option) => {
+                  const supportLevel = option.integrationFit.integrations.find(
+                    (i) => i.integrationId === integration.integrationId
+                  )?.supportLevel ?? 'unknown';
+                  return (
+                    <td key={option.id} className="py-2 px-3">
+                      <Badge variant={SUPPORT_LEVEL_VARIANTS[supportLevel]} className="capitalize text-xs">
+                        {supportLevel === 'unknown' ? 'Unmet' : supportLevel}
+                      </Badge>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="py-2 pr-3 font-medium">Score</td>
+              {options.map((option) => (
+                <td key={option.id} className="py-2 px-3 font-bold text-primary">
+                  {option.score}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AttributeMatrixTable;
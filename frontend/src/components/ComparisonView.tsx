@@ -1,9 +1,25 @@
-import { AlertCircle, ArrowRight, Scale, Sparkles } from 'lucide-react';
+import { AlertCircle, ArrowRight, Check, FileDown, Link2, Scale, Sparkles } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LoadingState, LoadingCard } from '@/components/LoadingState';
 import { OptionCard } from '@/components/OptionCard';
-import type { ComparisonResult, RequestStatus, AIComparisonResult } from '@/types';
+import { AttributeMatrixTable } from '@/components/AttributeMatrixTable';
+import { ScoreBreakdownChart } from '@/components/ScoreBreakdownChart';
+import { ScoreDistributionChart } from '@/components/ScoreDistributionChart';
+import { CostProjectionChart } from '@/components/CostProjectionChart';
+import { Badge } from '@/components/ui/badge';
+import type {
+  ComparisonResult,
+  RequestStatus,
+  AIComparisonResult,
+  ExportFormat,
+  ScoringMetadata,
+  ScoringMethod,
+  TcoProjection,
+  UncertaintyResult,
+  WeightProfileSummary,
+} from '@/types';
 import { cn } from '@/lib/utils';
 
 interface ComparisonViewProps {
@@ -12,11 +28,62 @@ interface ComparisonViewProps {
   error: string | null;
   aiEnhanced?: boolean;
   aiAnalysis?: AIComparisonResult | null;
+  uncertainty?: UncertaintyResult | null;
+  tco?: TcoProjection | null;
+  onShare?: () => void;
+  isSharing?: boolean;
+  isShared?: boolean;
+  linkCopied?: boolean;
+  onExport?: (format: ExportFormat) => void;
   className?: string;
 }
 
+const SCORING_METHOD_LABELS: Record<ScoringMethod, string> = {
+  weighted_sum: 'Weighted sum',
+  topsis: 'TOPSIS',
+  ahp: 'AHP',
+};
+
+/**
+ * Shows the scoring method and weight profile used and the top option
+ * under every method, so users can see whether the ranking depends on the
+ * method.
+ */
+function ScoringSummary({
+  scoring,
+  weightProfile,
+}: {
+  scoring: ScoringMetadata;
+  weightProfile?: WeightProfileSummary | null;
+}) {
+  const methods = Object.keys(SCORING_METHOD_LABELS) as ScoringMethod[];
+  const agreed = new Set(methods.map((method) => scoring.winners[method])).size === 1;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <span>
+        Scored with <span className="font-medium text-foreground">{scoring.label}</span>
+        {weightProfile && (
+          <>
+            {' '}using <span className="font-medium text-foreground">{weightProfile.name}</span> weights
+          </>
+        )}
+      </span>
+      <Badge variant={agreed ? 'success' : 'warning'} className="text-xs">
+        {agreed ? 'All methods agree' : 'Methods disagree'}
+      </Badge>
+      {methods.map((method) => (
+        <span key={method}>
+          {SCORING_METHOD_LABELS[method]}: {scoring.winners[method] ?? 'none qualified'}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 /**
- * ComparisonView component displays two options side-by-side.
+ * ComparisonView component displays the compared options side-by-side,
+ * ranked best-first, with an N-column attribute matrix.
  * Handles loading, empty, and error states appropriately.
  * 
  * Requirements: 2.1, 2.6, 2.7, 2.8
@@ -27,6 +94,13 @@ export function ComparisonView({
   error,
   aiEnhanced,
   aiAnalysis,
+  uncertainty,
+  tco,
+  onShare,
+  isSharing,
+  isShared,
+  linkCopied,
+  onExport,
   className,
 }: ComparisonViewProps) {
   // Loading state
@@ -89,7 +163,7 @@ export function ComparisonView({
   }
 
   // Validate comparison data
-  if (!comparison.options || comparison.options.length !== 2) {
+  if (!comparison.options || comparison.options.length < 2) {
     return (
       <Card className={cn('border-destructive/50', className)}>
         <CardContent className="pt-6">
@@ -98,7 +172,7 @@ export function ComparisonView({
             <AlertTitle>Invalid Data</AlertTitle>
             <AlertDescription>
               The comparison data received from the server is malformed or incomplete.
-              Expected exactly 2 options but received {comparison.options?.length ?? 0}.
+              Expected at least 2 options but received {comparison.options?.length ?? 0}.
               <p className="mt-2 text-xs">
                 Please try running the comparison again. If this persists, contact support.
               </p>
@@ -110,8 +184,6 @@ export function ComparisonView({
   }
 
   // Success state - display comparison
-  const [optionA, optionB] = comparison.options;
-
   return (
     <div className={cn('space-y-4 animate-fade-in', className)}>
       <Card>
@@ -125,8 +197,49 @@ export function ComparisonView({
                 AI Enhanced
               </span>
             )}
+            <div className="ml-auto flex items-center gap-2">
+              {onExport && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onExport('adr')}
+                    title="Download an Architecture Decision Record (Markdown)"
+                  >
+                    <FileDown className="h-4 w-4 mr-1" />
+                    ADR
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onExport('markdown')}
+                    title="Download the comparison as a Markdown report"
+                  >
+                    <FileDown className="h-4 w-4 mr-1" />
+                    Markdown
+                  </Button>
+                </>
+              )}
+              {onShare && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onShare}
+                  disabled={isSharing}
+                  title={isShared ? 'Copy the link to this saved comparison' : 'Save this comparison and copy a shareable link'}
+                >
+                  {linkCopied ? <Check className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+                  {isSharing ? 'Saving...' : linkCopied ? 'Link copied' : 'Share'}
+                </Button>
+              )}
+            </div>
           </CardTitle>
         </CardHeader>
+        {comparison.scoring && (
+          <CardContent className="pt-0 pb-4">
+            <ScoringSummary scoring={comparison.scoring} weightProfile={comparison.weightProfile} />
+          </CardContent>
+        )}
         {aiAnalysis && (
           <CardContent className="pt-0 space-y-3">
             <div className="p-3 rounded-lg bg-gradient-to-r from-purple-500/10 to-pink-500/10 border border-purple-500/20">
@@ -136,8 +249,11 @@ export function ComparisonView({
               <p className="text-sm text-muted-foreground">
                 {aiAnalysis.recommendation}
               </p>
-              {aiAnalysis.confidenceScore && (
-                <p className="text-xs text-muted-foreground mt-1">
+              {aiAnalysis.confidenceScore > 0 && (
+                <p
+                  className="text-xs text-muted-foreground mt-1"
+                  title="Chance the leader stays on top as uncertain ratings and weights vary"
+                >
                   Confidence: {aiAnalysis.confidenceScore}%
                 </p>
               )}
@@ -146,17 +262,24 @@ export function ComparisonView({
         )}
       </Card>
       
+      <AttributeMatrixTable comparison={comparison} />
+
+      <ScoreBreakdownChart options={comparison.options} />
+
+      {uncertainty && <ScoreDistributionChart uncertainty={uncertainty} />}
+
+      {tco && <CostProjectionChart tco={tco} />}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 animate-fade-in-stagger">
-        <OptionCard 
-          option={optionA} 
-          aiAnalysis={aiAnalysis?.detailedAnalysis?.find(a => a.optionName === optionA.name)}
-          className="hover:border-primary/50 hover:shadow-lg hover:shadow-primary/5" 
-        />
-        <OptionCard 
-          option={optionB} 
-          aiAnalysis={aiAnalysis?.detailedAnalysis?.find(a => a.optionName === optionB.name)}
-          className="hover:border-primary/50 hover:shadow-lg hover:shadow-primary/5" 
-        />
+        {comparison.options.map((option) => (
+          <OptionCard
+            key={option.id}
+            option={option}
+            attributeTypes={comparison.attributeTypes}
+            aiAnalysis={aiAnalysis?.detailedAnalysis?.find(a => a.optionName === option.name)}
+            className="hover:border-primary/50 hover:shadow-lg hover:shadow-primary/5"
+          />
+        ))}
       </div>
     </div>
   );
@@ -1,12 +1,23 @@
 import { useState } from 'react';
-import { AlertCircle, Loader2, Sparkles, Calculator } from 'lucide-react';
+import { AlertCircle, Loader2, Sparkles, Calculator, Plus, X, RotateCcw } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
-import type { Constraints, Integration, Option } from '@/types';
+import { HardRulesBuilder } from '@/components/HardRulesBuilder';
+import type {
+  AttributeType,
+  Constraints,
+  HardRule,
+  Integration,
+  Option,
+  ScoringMethod,
+  UsageProfile,
+  TcoSettings,
+  WeightProfile,
+} from '@/types';
 
 interface ConstraintPanelProps {
   constraints: Constraints;
@@ -15,8 +26,10 @@ interface ConstraintPanelProps {
   isLoading: boolean;
   availableIntegrations: Integration[];
   availableOptions: Option[];
-  selectedOptions: [string, string] | null;
-  onSelectedOptionsChange: (options: [string, string]) => void;
+  availableAttributeTypes: AttributeType[];
+  availableWeightProfiles: WeightProfile[];
+  selectedOptions: string[] | null;
+  onSelectedOptionsChange: (options: string[]) => void;
   error?: string | null;
 }
 
@@ -26,9 +39,43 @@ const SCALABILITY_OPTIONS: Array<{ value: Constraints['scalabilityPriority']; la
   { value: 'high', label: 'High' },
 ];
 
+const SCORING_METHOD_OPTIONS: Array<{ value: ScoringMethod; label: string; description: string }> = [
+  { value: 'weighted_sum', label: 'Weighted', description: 'Weighted average of attribute scores' },
+  { value: 'topsis', label: 'TOPSIS', description: 'Closeness to the ideal option across all attributes' },
+  { value: 'ahp', label: 'AHP', description: 'Pairwise preferences between options, combined by weight' },
+];
+
+// Bounds on how many options can be compared at once (mirrors the API)
+const MIN_COMPARE_OPTIONS = 2;
+const MAX_COMPARE_OPTIONS = 6;
+
+// Upper bound of the monthly budget sliders, in USD
+const MAX_MONTHLY_BUDGET = 20000;
+
+// Usage fields options with pricing formulas are priced on, and the profile
+// filled in when usage pricing is turned on (one always-on instance)
+const USAGE_FIELDS: Array<{ key: keyof UsageProfile; label: string }> = [
+  { key: 'requestsPerMonth', label: 'Requests / month' },
+  { key: 'storageGb', label: 'Storage (GB)' },
+  { key: 'hoursPerMonth', label: 'Compute hours / month' },
+  { key: 'seats', label: 'Seats' },
+];
+const DEFAULT_USAGE: UsageProfile = { requestsPerMonth: 1000000, storageGb: 50, hoursPerMonth: 730, seats: 5 };
+
+// Cost of ownership assumptions the API falls back to when left blank
+const DEFAULT_HOURLY_RATE = 100;
+const DEFAULT_GROWTH_PERCENT = 10;
+
+// Scale of the attribute importance sliders (mirrors the API)
+const MAX_ATTRIBUTE_IMPORTANCE = 10;
+// Slider position shown for attributes still on their default weight
+const DEFAULT_IMPORTANCE_POSITION = 5;
+
 /**
  * ConstraintPanel component for configuring comparison constraints.
- * Includes budget range slider, scalability priority buttons, and integration checkboxes.
+ * Includes option selection (2-6 options), budget range slider with optional
+ * usage pricing and cost of ownership assumptions, scalability priority buttons, per-attribute importance
+ * sliders, integration checkboxes, and deal-breaker rules.
  * 
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6
  */
@@ -39,12 +86,31 @@ export function ConstraintPanel({
   isLoading,
   availableIntegrations,
   availableOptions,
+  availableAttributeTypes,
+  availableWeightProfiles,
   selectedOptions,
   onSelectedOptionsChange,
   error,
 }: ConstraintPanelProps) {
   const [additionalContext, setAdditionalContext] = useState('');
   const [useAIMode, setUseAIMode] = useState(true);
+  const selected = selectedOptions ?? [];
+
+  const handleOptionChange = (index: number, optionId: string) => {
+    onSelectedOptionsChange(selected.map((id, i) => (i === index ? optionId : id)));
+  };
+
+  const handleAddOption = () => {
+    const next = availableOptions.find((option) => !selected.includes(option.id));
+    if (next) {
+      onSelectedOptionsChange([...selected, next.id]);
+    }
+  };
+
+  const handleRemoveOption = (index: number) => {
+    onSelectedOptionsChange(selected.filter((_, i) => i !== index));
+  };
+
   const handleBudgetMinChange = (value: number[]) => {
     const newMin = value[0];
     onConstraintsChange({
@@ -72,6 +138,33 @@ export function ConstraintPanel({
     });
   };
 
+  const handleScoringMethodChange = (method: ScoringMethod) => {
+    onConstraintsChange({
+      ...constraints,
+      scoringMethod: method,
+    });
+  };
+
+  const handleImportanceChange = (attributeType: string, value: number[]) => {
+    onConstraintsChange({
+      ...constraints,
+      attributeWeights: { ...constraints.attributeWeights, [attributeType]: value[0] },
+    });
+  };
+
+  const handleWeightProfileChange = (profileId: string) => {
+    onConstraintsChange({ ...constraints, weightProfileId: profileId || undefined });
+  };
+
+  const selectedProfile = availableWeightProfiles.find((p) => p.id === constraints.weightProfileId);
+
+  const handleResetImportance = () => {
+    onConstraintsChange({ ...constraints, attributeWeights: undefined });
+  };
+
+  const attributeWeights = constraints.attributeWeights ?? {};
+  const hasCustomImportance = Object.keys(attributeWeights).length > 0;
+
   const handleIntegrationToggle = (integrationId: string) => {
     const currentIntegrations = constraints.requiredIntegrations;
     const newIntegrations = currentIntegrations.includes(integrationId)
@@ -84,6 +177,51 @@ export function ConstraintPanel({
     });
   };
 
+  const handleIntegrationModeToggle = (lenient: boolean) => {
+    onConstraintsChange({
+      ...constraints,
+      integrationMode: lenient ? 'lenient' : 'strict',
+    });
+  };
+
+  const handleUsageToggle = (enabled: boolean) => {
+    onConstraintsChange({ ...constraints, usage: enabled ? DEFAULT_USAGE : undefined });
+  };
+
+  const handleUsageChange = (field: keyof UsageProfile, value: string) => {
+    const amount = Number(value);
+    onConstraintsChange({
+      ...constraints,
+      usage: {
+        ...constraints.usage,
+        [field]: value === '' || !Number.isFinite(amount) ? undefined : Math.max(0, amount),
+      },
+    });
+  };
+
+  const handleTcoChange = (field: keyof TcoSettings, value: string) => {
+    const amount = Number(value);
+    const parsed = value === '' || !Number.isFinite(amount) ? undefined : amount;
+    const tco: TcoSettings = {
+      ...constraints.tco,
+      // Growth is entered as a percentage but sent as a fraction
+      [field]: field === 'annualGrowthRate' && parsed !== undefined ? parsed / 100 : parsed,
+    };
+    onConstraintsChange({
+      ...constraints,
+      tco: tco.hourlyRate === undefined && tco.annualGrowthRate === undefined ? undefined : tco,
+    });
+  };
+
+  const handleRulesChange = (rules: HardRule[]) => {
+    onConstraintsChange({
+      ...constraints,
+      rules: rules.length > 0 ? rules : undefined,
+    });
+  };
+
+  const categories = [...new Set(availableOptions.map((option) => option.category))].sort();
+
   // Group integrations by category
   const integrationsByCategory = availableIntegrations.reduce<Record<string, Integration[]>>(
     (acc, integration) => {
@@ -117,64 +255,74 @@ export function ConstraintPanel({
           <Label className="text-sm font-medium">Select Options to Compare</Label>
           
           <div className="space-y-2">
-            <div className="space-y-1">
-              <Label className="text-xs text-muted-foreground">Option A</Label>
-              <select
-                value={selectedOptions?.[0] || ''}
-                onChange={(e) => {
-                  if (selectedOptions) {
-                    onSelectedOptionsChange([e.target.value, selectedOptions[1]]);
-                  }
-                }}
-                disabled={isLoading || availableOptions.length === 0}
-                className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              >
-                {availableOptions.map((option) => (
-                  <option key={option.id} value={option.id} disabled={option.id === selectedOptions?.[1]}>
-                    {option.name} ({option.category})
-                  </option>
-                ))}
-              </select>
-            </div>
-            
-            <div className="space-y-1">
-              <Label className="text-xs text-muted-foreground">Option B</Label>
-              <select
-                value={selectedOptions?.[1] || ''}
-                onChange={(e) => {
-                  if (selectedOptions) {
-                    onSelectedOptionsChange([selectedOptions[0], e.target.value]);
-                  }
-                }}
-                disabled={isLoading || availableOptions.length === 0}
-                className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              >
-                {availableOptions.map((option) => (
-                  <option key={option.id} value={option.id} disabled={option.id === selectedOptions?.[0]}>
-                    {option.name} ({option.category})
-                  </option>
-                ))}
-              </select>
-            </div>
+            {selected.map((optionId, index) => (
+              <div key={index} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">
+                  Option {String.fromCharCode(65 + index)}
+                </Label>
+                <div className="flex gap-2">
+                  <select
+                    value={optionId}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                    disabled={isLoading || availableOptions.length === 0}
+                    className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {availableOptions.map((option) => (
+                      <option
+                        key={option.id}
+                        value={option.id}
+                        disabled={option.id !== optionId && selected.includes(option.id)}
+                      >
+                        {option.name} ({option.category})
+                      </option>
+                    ))}
+                  </select>
+                  {selected.length > MIN_COMPARE_OPTIONS && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveOption(index)}
+                      disabled={isLoading}
+                      title="Remove option"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
           </div>
+
+          {selected.length < MAX_COMPARE_OPTIONS && selected.length < availableOptions.length && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddOption}
+              disabled={isLoading}
+              className="w-full gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add Option
+            </Button>
+          )}
         </div>
 
         {/* Budget Range Section */}
         <div className="space-y-4">
-          <Label className="text-sm font-medium">Budget Range</Label>
+          <Label className="text-sm font-medium">Monthly Budget</Label>
           
           <div className="space-y-3">
             <div className="space-y-2">
               <div className="flex justify-between text-xs text-muted-foreground">
                 <span>Minimum</span>
-                <span>${constraints.budgetMin.toLocaleString()}</span>
+                <span>${constraints.budgetMin.toLocaleString()}/mo</span>
               </div>
               <Slider
                 value={[constraints.budgetMin]}
                 onValueChange={handleBudgetMinChange}
                 min={0}
-                max={100000}
-                step={1000}
+                max={MAX_MONTHLY_BUDGET}
+                step={100}
                 disabled={isLoading}
               />
             </div>
@@ -182,15 +330,83 @@ export function ConstraintPanel({
             <div className="space-y-2">
               <div className="flex justify-between text-xs text-muted-foreground">
                 <span>Maximum</span>
-                <span>${constraints.budgetMax.toLocaleString()}</span>
+                <span>${constraints.budgetMax.toLocaleString()}/mo</span>
               </div>
               <Slider
                 value={[constraints.budgetMax]}
                 onValueChange={handleBudgetMaxChange}
                 min={0}
-                max={100000}
-                step={1000}
+                max={MAX_MONTHLY_BUDGET}
+                step={100}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="usage-pricing"
+              checked={constraints.usage !== undefined}
+              onCheckedChange={(checked) => handleUsageToggle(checked === true)}
+              disabled={isLoading}
+            />
+            <Label htmlFor="usage-pricing" className="text-xs font-normal text-muted-foreground cursor-pointer">
+              Price options on expected usage
+            </Label>
+          </div>
+          {constraints.usage && (
+            <div className="grid grid-cols-2 gap-2">
+              {USAGE_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`usage-${field.key}`} className="text-xs text-muted-foreground">
+                    {field.label}
+                  </Label>
+                  <input
+                    id={`usage-${field.key}`}
+                    type="number"
+                    min={0}
+                    value={constraints.usage?.[field.key] ?? ''}
+                    onChange={(e) => handleUsageChange(field.key, e.target.value)}
+                    disabled={isLoading}
+                    className="w-full h-8 px-2 rounded-md border border-input bg-background text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="tco-hourly-rate" className="text-xs text-muted-foreground">
+                Engineer hourly rate ($)
+              </Label>
+              <input
+                id="tco-hourly-rate"
+                type="number"
+                min={0}
+                placeholder={String(DEFAULT_HOURLY_RATE)}
+                value={constraints.tco?.hourlyRate ?? ''}
+                onChange={(e) => handleTcoChange('hourlyRate', e.target.value)}
+                disabled={isLoading}
+                className="w-full h-8 px-2 rounded-md border border-input bg-background text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tco-growth" className="text-xs text-muted-foreground">
+                Infra cost growth (%/yr)
+              </Label>
+              <input
+                id="tco-growth"
+                type="number"
+                placeholder={String(DEFAULT_GROWTH_PERCENT)}
+                value={
+                  constraints.tco?.annualGrowthRate === undefined
+                    ? ''
+                    : Number((constraints.tco.annualGrowthRate * 100).toFixed(2))
+                }
+                onChange={(e) => handleTcoChange('annualGrowthRate', e.target.value)}
                 disabled={isLoading}
+                className="w-full h-8 px-2 rounded-md border border-input bg-background text-sm"
               />
             </div>
           </div>
@@ -215,6 +431,92 @@ export function ConstraintPanel({
           </div>
         </div>
 
+        {/* Scoring Method Section */}
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Scoring Method</Label>
+          <div className="flex gap-2">
+            {SCORING_METHOD_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                variant={(constraints.scoringMethod ?? 'weighted_sum') === option.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleScoringMethodChange(option.value)}
+                disabled={isLoading}
+                title={option.description}
+                className="flex-1 transition-all duration-200"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Weight Profile Section */}
+        {availableWeightProfiles.length > 0 && (
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Weight Profile</Label>
+            <select
+              value={constraints.weightProfileId ?? ''}
+              onChange={(e) => handleWeightProfileChange(e.target.value)}
+              disabled={isLoading}
+              className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <option value="">Default weights</option>
+              {availableWeightProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+            {selectedProfile?.description && (
+              <p className="text-xs text-muted-foreground">{selectedProfile.description}</p>
+            )}
+          </div>
+        )}
+
+        {/* Attribute Importance Section */}
+        {availableAttributeTypes.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Attribute Importance</Label>
+              {hasCustomImportance && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleResetImportance}
+                  disabled={isLoading}
+                  className="h-6 px-2 text-xs gap-1"
+                  title="Use default weights"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Reset
+                </Button>
+              )}
+            </div>
+            {availableAttributeTypes.map((attributeType) => {
+              const importance = attributeWeights[attributeType.key];
+              return (
+                <div key={attributeType.key} className="space-y-2">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span title={attributeType.description ?? undefined}>
+                      {attributeType.icon} {attributeType.name}
+                    </span>
+                    <span>{importance === undefined ? 'Default' : `${importance}/${MAX_ATTRIBUTE_IMPORTANCE}`}</span>
+                  </div>
+                  <Slider
+                    value={[importance ?? DEFAULT_IMPORTANCE_POSITION]}
+                    onValueChange={(value) => handleImportanceChange(attributeType.key, value)}
+                    min={0}
+                    max={MAX_ATTRIBUTE_IMPORTANCE}
+                    step={1}
+                    disabled={isLoading}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Required Integrations Section */}
         <div className="space-y-3">
           <Label className="text-sm font-medium">Required Integrations</Label>
@@ -249,8 +551,33 @@ export function ConstraintPanel({
               ))}
             </div>
           )}
+          {constraints.requiredIntegrations.length > 0 && (
+            <div className="flex items-center space-x-2 pt-1">
+              <Checkbox
+                id="integration-mode-lenient"
+                checked={constraints.integrationMode === 'lenient'}
+                onCheckedChange={(checked) => handleIntegrationModeToggle(checked === true)}
+                disabled={isLoading}
+              />
+              <Label
+                htmlFor="integration-mode-lenient"
+                className="text-xs font-normal text-muted-foreground cursor-pointer"
+              >
+                Compare options even if they lack a required integration
+              </Label>
+            </div>
+          )}
         </div>
 
+        {/* Deal-breaker Rules Section */}
+        <HardRulesBuilder
+          rules={constraints.rules ?? []}
+          onRulesChange={handleRulesChange}
+          attributeTypes={availableAttributeTypes}
+          categories={categories}
+          disabled={isLoading}
+        />
+
         {/* Additional Context for AI - Only visible in AI mode */}
         {useAIMode && (
           <div className="space-y-3 p-3 rounded-lg bg-gradient-to-r from-purple-500/5 to-pink-500/5 border border-purple-500/20">
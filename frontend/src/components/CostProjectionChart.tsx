@@ -0,0 +1,146 @@
+import { TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { TcoProjection } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface CostProjectionChartProps {
+  tco: TcoProjection;
+  className?: string;
+}
+
+// One color per option, as line stroke and legend swatch
+const LINE_COLORS = [
+  { stroke: 'stroke-sky-500', swatch: 'bg-sky-500' },
+  { stroke: 'stroke-emerald-500', swatch: 'bg-emerald-500' },
+  { stroke: 'stroke-amber-500', swatch: 'bg-amber-500' },
+  { stroke: 'stroke-violet-500', swatch: 'bg-violet-500' },
+  { stroke: 'stroke-rose-500', swatch: 'bg-rose-500' },
+  { stroke: 'stroke-teal-500', swatch: 'bg-teal-500' },
+];
+
+// Plot area in SVG units; lines are stretched to the card width
+const CHART_WIDTH = 100;
+const CHART_HEIGHT = 40;
+
+/**
+ * CostProjectionChart plots each option's cumulative cost of ownership
+ * (setup, infrastructure and maintenance) year by year. Dashed lines mark
+ * the points where one option becomes cheaper to own than another, and the
+ * table lists the 1, 3 and 5-year totals.
+ */
+export function CostProjectionChart({ tco, className }: CostProjectionChartProps) {
+  const { options, crossovers, years, hourlyRate, annualGrowthRate } = tco;
+  if (options.length === 0 || years <= 0) return null;
+
+  const maxCost = Math.max(1, ...options.flatMap((o) => o.cumulative));
+  const x = (year: number) => (year / years) * CHART_WIDTH;
+  const y = (cost: number) => CHART_HEIGHT - (cost / maxCost) * CHART_HEIGHT;
+
+  return (
+    <Card className={cn('animate-fade-in', className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <TrendingUp className="h-4 w-4" />
+          Total Cost of Ownership
+          <span className="ml-auto text-xs font-normal text-muted-foreground">
+            ${maxCost.toLocaleString()} max over {years} years
+          </span>
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Setup and maintenance at ${hourlyRate.toLocaleString()}/hour, infrastructure growing{' '}
+          {Math.round(annualGrowthRate * 100)}% a year
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="relative">
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="h-40 w-full overflow-visible"
+            role="img"
+            aria-label="Cumulative cost of ownership by year"
+          >
+            {crossovers.map((crossover) => (
+              <line
+                key={`${crossover.cheaperBefore}-${crossover.cheaperAfter}-${crossover.year}`}
+                x1={x(crossover.year)}
+                x2={x(crossover.year)}
+                y1={0}
+                y2={CHART_HEIGHT}
+                className="stroke-muted-foreground"
+                strokeDasharray="2 2"
+                vectorEffect="non-scaling-stroke"
+              >
+                <title>
+                  {crossover.cheaperAfter} becomes cheaper than {crossover.cheaperBefore} at year {crossover.year}
+                </title>
+              </line>
+            ))}
+            {options.map((option, index) => (
+              <polyline
+                key={option.optionId}
+                points={option.cumulative.map((cost, year) => `${x(year)},${y(cost)}`).join(' ')}
+                fill="none"
+                className={LINE_COLORS[index % LINE_COLORS.length].stroke}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              >
+                <title>{option.name}</title>
+              </polyline>
+            ))}
+          </svg>
+          <div className="flex justify-between text-xs text-muted-foreground mt-1">
+            {Array.from({ length: years + 1 }, (_, year) => (
+              <span key={year}>{year === 0 ? 'Start' : `Y${year}`}</span>
+            ))}
+          </div>
+        </div>
+
+        {crossovers.length > 0 && (
+          <ul className="space-y-1 text-xs text-muted-foreground">
+            {crossovers.map((crossover) => (
+              <li key={`${crossover.cheaperBefore}-${crossover.cheaperAfter}-${crossover.year}`}>
+                <span className="font-medium text-foreground">{crossover.cheaperAfter}</span> becomes cheaper
+                than {crossover.cheaperBefore} in year {crossover.year}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-normal">Option</th>
+              <th className="text-right font-normal">1 year</th>
+              <th className="text-right font-normal">3 years</th>
+              <th className="text-right font-normal">5 years</th>
+            </tr>
+          </thead>
+          <tbody>
+            {options.map((option, index) => (
+              <tr
+                key={option.optionId}
+                title={`Setup $${option.setupCost.toLocaleString()}, ${option.maintenanceHoursPerMonth} maintenance hours/month`}
+              >
+                <td className="py-0.5">
+                  <span className="inline-flex items-center gap-1.5">
+                    <span className={cn('h-2 w-2 rounded-full', LINE_COLORS[index % LINE_COLORS.length].swatch)} />
+                    {option.name}
+                    {option.monthlyInfrastructure === null && (
+                      <span className="text-muted-foreground">(no infrastructure cost data)</span>
+                    )}
+                  </span>
+                </td>
+                <td className="text-right">${option.totals.year1.toLocaleString()}</td>
+                <td className="text-right">${option.totals.year3.toLocaleString()}</td>
+                <td className="text-right">${option.totals.year5.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CostProjectionChart;
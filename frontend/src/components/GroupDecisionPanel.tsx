@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Loader2, LogOut, Send, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import type { DecisionSession, GroupDecisionResult, RequestStatus, SessionParticipant } from '@/types';
+import { cn } from '@/lib/utils';
+
+// Disagreements listed before the rest are left out
+const MAX_DISAGREEMENTS = 3;
+
+const INPUT_CLASS =
+  'w-full h-9 px-3 rounded-md border border-input bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+interface GroupDecisionPanelProps {
+  session: DecisionSession | null;
+  // The participant this browser joined as, whose ratings a submission replaces
+  participant: SessionParticipant | null;
+  result: GroupDecisionResult | null;
+  status: RequestStatus;
+  error: string | null;
+  // Whether enough options are selected to start a session
+  canStart: boolean;
+  onStart: (title: string) => void;
+  onSubmit: (name: string) => void;
+  onLeave: () => void;
+  className?: string;
+}
+
+/**
+ * GroupDecisionPanel lets several people weigh in on one decision. Each
+ * participant submits the importance ratings set in the constraint panel
+ * under their name; the group result combines everyone's ratings and shows
+ * where they disagree most.
+ */
+export function GroupDecisionPanel({
+  session,
+  participant,
+  result,
+  status,
+  error,
+  canStart,
+  onStart,
+  onSubmit,
+  onLeave,
+  className,
+}: GroupDecisionPanelProps) {
+  const [title, setTitle] = useState('');
+  const [name, setName] = useState('');
+  const isLoading = status === 'loading';
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Group Decision
+          {session && (
+            <Button size="sm" variant="ghost" className="ml-auto" onClick={onLeave}>
+              <LogOut className="h-4 w-4 mr-1" /> Leave
+            </Button>
+          )}
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {session
+            ? `${session.title} · share this page's link to invite others`
+            : 'Start a session on the selected options and constraints, then share the link'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {!session ? (
+          <div className="space-y-2">
+            <Label htmlFor="session-title" className="text-xs text-muted-foreground">Decision</Label>
+            <input
+              id="session-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Primary database for the billing service"
+              maxLength={200}
+              disabled={isLoading}
+              className={INPUT_CLASS}
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={() => onStart(title.trim())}
+              disabled={isLoading || !canStart || title.trim() === ''}
+            >
+              {isLoading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Users className="h-4 w-4 mr-1" />}
+              Start Session
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {participant ? (
+                <div className="flex items-center gap-2">
+                  <p className="flex-1 text-xs text-muted-foreground">
+                    Replace your importance ratings as <span className="font-medium text-foreground">{participant.name}</span> with
+                    the ones in the constraint panel
+                  </p>
+                  <Button size="sm" onClick={() => onSubmit(participant.name)} disabled={isLoading}>
+                    {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <Label htmlFor="participant-name" className="text-xs text-muted-foreground">
+                    Submit the importance ratings from the constraint panel as
+                  </Label>
+                  <div className="flex gap-2">
+                    <input
+                      id="participant-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Your name"
+                      maxLength={100}
+                      disabled={isLoading}
+                      className={INPUT_CLASS}
+                    />
+                    <Button size="sm" onClick={() => onSubmit(name.trim())} disabled={isLoading || name.trim() === ''}>
+                      {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </>
+              )}
+              {session.participants.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {session.participants.map((p) => (
+                    <Badge key={p.id} variant="outline" className="text-xs">{p.name}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {result && (
+              <div className="space-y-3 p-3 border rounded-md bg-muted/30">
+                <p className="text-sm">
+                  Group pick: <span className="font-medium">{result.winner ?? 'none'}</span>
+                </p>
+
+                {result.disagreements.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground uppercase tracking-wide">Biggest disagreements</p>
+                    {result.disagreements.slice(0, MAX_DISAGREEMENTS).map((d) => (
+                      <div
+                        key={d.attributeType}
+                        className="flex justify-between text-xs"
+                        title={Object.entries(d.ratings).map(([who, r]) => `${who}: ${r}`).join(', ')}
+                      >
+                        <span>{d.name}</span>
+                        <span className="text-muted-foreground">{d.min}–{d.max} of 10</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground uppercase tracking-wide">On their own ratings</p>
+                  {result.participants.map((p) => (
+                    <div key={p.name} className="flex justify-between text-xs">
+                      <span>{p.name}</span>
+                      <Badge variant={p.agreesWithGroup ? 'success' : 'warning'} className="text-xs">
+                        {p.winner ?? 'none'}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default GroupDecisionPanel;
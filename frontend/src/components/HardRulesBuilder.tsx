@@ -0,0 +1,169 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { AttributeType, HardRule, RuleOperator } from '@/types';
+
+interface HardRulesBuilderProps {
+  rules: HardRule[];
+  onRulesChange: (rules: HardRule[]) => void;
+  attributeTypes: AttributeType[];
+  categories: string[];
+  disabled?: boolean;
+}
+
+// Mirrors the API limit
+const MAX_HARD_RULES = 20;
+
+const CATEGORY_FIELD = 'category';
+
+const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+};
+
+const ALL_OPERATORS = Object.keys(OPERATOR_LABELS) as RuleOperator[];
+const CATEGORY_OPERATORS: RuleOperator[] = ['eq', 'neq'];
+
+const RATINGS = ['low', 'medium', 'high'];
+
+const selectClass = 'px-2 py-1 border rounded-md bg-background text-xs';
+
+/**
+ * HardRulesBuilder edits the deal-breaker rules checked before scoring,
+ * such as "maintenance ≠ high" or "category = database".
+ * Attributes with a unit are compared by measured value, others by rating.
+ */
+export function HardRulesBuilder({
+  rules,
+  onRulesChange,
+  attributeTypes,
+  categories,
+  disabled,
+}: HardRulesBuilderProps) {
+  // Picks a sensible starting rule for a field
+  const defaultRuleFor = (field: string): HardRule => {
+    if (field === CATEGORY_FIELD) {
+      return { field, operator: 'eq', value: categories[0] ?? '' };
+    }
+    const unit = attributeTypes.find((t) => t.key === field)?.unit;
+    return unit ? { field, operator: 'lte', value: 0 } : { field, operator: 'neq', value: 'high' };
+  };
+
+  const updateRule = (index: number, rule: HardRule) => {
+    onRulesChange(rules.map((r, i) => (i === index ? rule : r)));
+  };
+
+  const handleAddRule = () => {
+    const field = attributeTypes[0]?.key ?? CATEGORY_FIELD;
+    onRulesChange([...rules, defaultRuleFor(field)]);
+  };
+
+  const handleRemoveRule = (index: number) => {
+    onRulesChange(rules.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Deal-breakers</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleAddRule}
+          disabled={disabled || rules.length >= MAX_HARD_RULES}
+          className="h-6 px-2 text-xs gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          Add rule
+        </Button>
+      </div>
+      {rules.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Options breaking a rule are disqualified whatever their score
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule, index) => {
+            const isCategory = rule.field === CATEGORY_FIELD;
+            const unit = attributeTypes.find((t) => t.key === rule.field)?.unit;
+            return (
+              <div key={index} className="flex items-center gap-1">
+                <select
+                  className={`${selectClass} flex-1 min-w-0`}
+                  value={rule.field}
+                  onChange={(e) => updateRule(index, defaultRuleFor(e.target.value))}
+                  disabled={disabled}
+                >
+                  {attributeTypes.map((attributeType) => (
+                    <option key={attributeType.key} value={attributeType.key}>
+                      {attributeType.name}
+                    </option>
+                  ))}
+                  <option value={CATEGORY_FIELD}>Category</option>
+                </select>
+                <select
+                  className={selectClass}
+                  value={rule.operator}
+                  onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as RuleOperator })}
+                  disabled={disabled}
+                >
+                  {(isCategory ? CATEGORY_OPERATORS : ALL_OPERATORS).map((operator) => (
+                    <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+                  ))}
+                </select>
+                {isCategory ? (
+                  <select
+                    className={`${selectClass} flex-1 min-w-0`}
+                    value={String(rule.value)}
+                    onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+                    disabled={disabled}
+                  >
+                    {categories.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                ) : unit ? (
+                  <input
+                    type="number"
+                    className={`${selectClass} w-20`}
+                    value={rule.value}
+                    onChange={(e) => updateRule(index, { ...rule, value: Number(e.target.value) || 0 })}
+                    title={unit}
+                    disabled={disabled}
+                  />
+                ) : (
+                  <select
+                    className={`${selectClass} capitalize`}
+                    value={String(rule.value)}
+                    onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+                    disabled={disabled}
+                  >
+                    {RATINGS.map((rating) => (
+                      <option key={rating} value={rating}>{rating}</option>
+                    ))}
+                  </select>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveRule(index)}
+                  disabled={disabled}
+                  className="h-6 w-6 p-0"
+                  title="Remove rule"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HardRulesBuilder;
@@ -5,67 +5,150 @@ import {
   Wrench,
   CheckCircle,
   XCircle,
+  Wallet,
+  Plug,
   type LucideIcon,
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import type { AttributeValue, OptionComparison, AIDetailedAnalysis } from '@/types';
-import { cn } from '@/lib/utils';
+import type {
+  AttributeType,
+  AttributeValue,
+  BudgetFit,
+  IntegrationFit,
+  IntegrationSupportLevel,
+  OptionComparison,
+  AIDetailedAnalysis,
+} from '@/types';
+import { cn, formatMeasurement } from '@/lib/utils';
 
 interface OptionCardProps {
   option: OptionComparison;
+  attributeTypes: AttributeType[];
   aiAnalysis?: AIDetailedAnalysis;
   className?: string;
 }
 
-// Map attribute types to icons
+// Icons for the built-in attribute types; others fall back to their catalog emoji
 const ATTRIBUTE_ICONS: Record<string, LucideIcon> = {
-  costModel: DollarSign,
+  cost_model: DollarSign,
   scalability: TrendingUp,
   complexity: Settings,
   maintenance: Wrench,
 };
 
-// Map attribute types to display labels
-const ATTRIBUTE_LABELS: Record<string, string> = {
-  costModel: 'Cost Model',
-  scalability: 'Scalability',
-  complexity: 'Complexity',
-  maintenance: 'Maintenance',
-};
-
-// Map ratings to badge variants and colors
-const RATING_STYLES: Record<AttributeValue['rating'], {
+// Map rating sentiments to badge variants and colors
+const SENTIMENT_STYLES: Record<AttributeValue['sentiment'], {
   variant: 'destructive' | 'warning' | 'success';
   bgClass: string;
   textClass: string;
 }> = {
-  low: {
+  unfavorable: {
     variant: 'destructive',
     bgClass: 'bg-red-500/10',
     textClass: 'text-red-400',
   },
-  medium: {
+  neutral: {
     variant: 'warning',
     bgClass: 'bg-yellow-500/10',
     textClass: 'text-yellow-400',
   },
-  high: {
+  favorable: {
     variant: 'success',
     bgClass: 'bg-green-500/10',
     textClass: 'text-green-400',
   },
 };
 
+// Map budget fit statuses to badge variants and labels
+const BUDGET_FIT_STYLES: Record<BudgetFit['status'], {
+  variant: 'destructive' | 'warning' | 'success' | 'outline';
+  label: string;
+}> = {
+  within: { variant: 'success', label: 'Within budget' },
+  under: { variant: 'success', label: 'Under budget' },
+  stretch: { variant: 'warning', label: 'Stretches budget' },
+  over: { variant: 'destructive', label: 'Over budget' },
+  exceeds: { variant: 'destructive', label: 'Exceeds budget' },
+  unknown: { variant: 'outline', label: 'Cost unknown' },
+};
+
+function BudgetFitRow({ budgetFit }: { budgetFit: BudgetFit }) {
+  const style = BUDGET_FIT_STYLES[budgetFit.status];
+  const { estimate } = budgetFit;
+
+  return (
+    <div className="flex items-start gap-2 p-3 rounded-lg border border-border/50">
+      <Wallet className="h-4 w-4 mt-0.5 text-muted-foreground" />
+      <div className="flex-1 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">Budget Fit</span>
+          <Badge variant={style.variant} className="text-xs">
+            {style.label}
+            {budgetFit.penalty > 0 && budgetFit.status !== 'exceeds' && ` (-${budgetFit.penalty})`}
+          </Badge>
+        </div>
+        {estimate && (
+          <p className="text-xs text-muted-foreground">
+            {estimate.basis === 'usage' ? (
+              <>${estimate.typical.toLocaleString()}/mo for your usage</>
+            ) : (
+              <>
+                ${estimate.min.toLocaleString()}–${estimate.max.toLocaleString()}/mo
+                {' '}(typically ${estimate.typical.toLocaleString()})
+              </>
+            )}
+          </p>
+        )}
+        {budgetFit.reason && budgetFit.status !== 'within' && (
+          <p className="text-xs text-muted-foreground">{budgetFit.reason}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Map integration support levels to badge variants; 'unknown' is an unmet requirement
+const SUPPORT_LEVEL_VARIANTS: Record<IntegrationSupportLevel, 'success' | 'warning' | 'destructive' | 'outline'> = {
+  native: 'success',
+  plugin: 'warning',
+  custom: 'outline',
+  unknown: 'destructive',
+};
+
+function IntegrationFitRow({ integrationFit }: { integrationFit: IntegrationFit }) {
+  return (
+    <div className="flex items-start gap-2 p-3 rounded-lg border border-border/50">
+      <Plug className="h-4 w-4 mt-0.5 text-muted-foreground" />
+      <div className="flex-1 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">Integration Fit</span>
+          <span className="text-xs text-muted-foreground">{integrationFit.score}/100</span>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {integrationFit.integrations.map((integration) => (
+            <Badge
+              key={integration.integrationId}
+              variant={SUPPORT_LEVEL_VARIANTS[integration.supportLevel]}
+              className="text-xs"
+            >
+              {integration.name}: {integration.supportLevel}
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 interface AttributeRowProps {
-  type: string;
+  attributeType: AttributeType;
   attribute: AttributeValue;
 }
 
-function AttributeRow({ type, attribute }: AttributeRowProps) {
-  const Icon = ATTRIBUTE_ICONS[type] || Settings;
-  const label = ATTRIBUTE_LABELS[type] || type;
-  const ratingStyle = RATING_STYLES[attribute.rating];
+function AttributeRow({ attributeType, attribute }: AttributeRowProps) {
+  const Icon = ATTRIBUTE_ICONS[attributeType.key];
+  const ratingStyle = SENTIMENT_STYLES[attribute.sentiment];
 
   return (
     <div className={cn(
@@ -74,14 +157,24 @@ function AttributeRow({ type, attribute }: AttributeRowProps) {
       ratingStyle.bgClass
     )}>
       <div className="flex items-center gap-2">
-        <Icon className={cn('h-4 w-4 transition-colors duration-200', ratingStyle.textClass)} />
-        <span className="text-sm font-medium w-12">{label}</span>
+        {Icon ? (
+          <Icon className={cn('h-4 w-4 transition-colors duration-200', ratingStyle.textClass)} />
+        ) : (
+          <span className="text-sm leading-none">{attributeType.icon}</span>
+        )}
+        <span className="text-sm font-medium w-12">{attributeType.name}</span>
       </div>
       <div className="flex items-center gap-2">
         <span className="text-sm text-muted-foreground w-20 break-word">{attribute.value}</span>
-        <Badge variant={ratingStyle.variant} className="capitalize text-xs">
-          {attribute.rating}
-        </Badge>
+        {attribute.measurement ? (
+          <Badge variant={ratingStyle.variant} className="text-xs" title="Score relative to the compared options">
+            {formatMeasurement(attribute.measurement)} · {attribute.score}
+          </Badge>
+        ) : (
+          <Badge variant={ratingStyle.variant} className="capitalize text-xs">
+            {attribute.rating}
+          </Badge>
+        )}
       </div>
     </div>
   );
@@ -89,34 +182,57 @@ function AttributeRow({ type, attribute }: AttributeRowProps) {
 
 /**
  * OptionCard component displays a single option with all its attributes.
- * Uses visual indicators (icons, badges, colors) based on rating values.
+ * Uses visual indicators (icons, badges, colors) based on whether each rating
+ * is good or bad for that attribute.
  * 
  * Requirements: 2.2, 2.3, 2.4, 2.5, 8.5
  */
-export function OptionCard({ option, aiAnalysis, className }: OptionCardProps) {
-  const { name, description, attributes, score } = option;
+export function OptionCard({ option, attributeTypes, aiAnalysis, className }: OptionCardProps) {
+  const { name, description, attributes, budgetFit, integrationFit, disqualified, disqualifications, score, rank } = option;
 
   return (
     <Card className={cn('h-full', className)}>
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
           <div className="space-y-1">
-            <CardTitle className="text-xl">{name}</CardTitle>
+            <CardTitle className="text-xl flex items-center gap-2">
+              {name}
+              <Badge variant={rank === 1 ? 'default' : 'outline'} className="text-xs">
+                #{rank}
+              </Badge>
+            </CardTitle>
             <CardDescription className="text-sm w-35">{description}</CardDescription>
           </div>
           <div className="flex flex-col items-end">
             <span className="text-xs text-muted-foreground">Fit Score</span>
             <span className="text-2xl font-bold text-primary">
-              {Math.round(score * 100)}%
+              {score}/100
             </span>
           </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-2">
-        <AttributeRow type="costModel" attribute={attributes.costModel} />
-        <AttributeRow type="scalability" attribute={attributes.scalability} />
-        <AttributeRow type="complexity" attribute={attributes.complexity} />
-        <AttributeRow type="maintenance" attribute={attributes.maintenance} />
+        {disqualified && (
+          <div className="p-3 rounded-lg bg-red-500/10 space-y-1">
+            <p className="text-sm font-medium text-red-400 flex items-center gap-1">
+              <XCircle className="h-4 w-4" /> Disqualified
+            </p>
+            {disqualifications.map((reason) => (
+              <p key={reason} className="text-xs text-muted-foreground">{reason}</p>
+            ))}
+          </div>
+        )}
+        {attributeTypes.map((attributeType) =>
+          attributes[attributeType.key] ? (
+            <AttributeRow
+              key={attributeType.key}
+              attributeType={attributeType}
+              attribute={attributes[attributeType.key]}
+            />
+          ) : null
+        )}
+        <BudgetFitRow budgetFit={budgetFit} />
+        {integrationFit.score !== null && <IntegrationFitRow integrationFit={integrationFit} />}
         
         {/* AI Analysis Section */}
         {aiAnalysis && (
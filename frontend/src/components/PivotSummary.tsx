@@ -1,19 +1,65 @@
-import { Compass, ArrowRight, Sparkles, Target } from 'lucide-react';
+import { Compass, ArrowRight, Layers, Sparkles, Target, Trophy } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import type { PivotResult, RequestStatus, AIComparisonResult } from '@/types';
+import type { PivotResult, RequestStatus, AIComparisonResult, ScenarioCompareResponse } from '@/types';
 import { cn } from '@/lib/utils';
 
 interface PivotSummaryProps {
   pivot: PivotResult | null;
   status: RequestStatus;
   aiAnalysis?: AIComparisonResult | null;
+  // Scenario comparison whose boundaries to highlight
+  scenarios?: ScenarioCompareResponse | null;
   className?: string;
 }
 
+/**
+ * Lists the points between adjacent scenarios where the winner changes,
+ * with the guidance for the scenario on the far side of each boundary.
+ */
+function ScenarioBoundaries({ scenarios }: { scenarios: ScenarioCompareResponse }) {
+  const boundaries = scenarios.scenarios
+    .map((scenario, index) => ({ before: scenarios.scenarios[index - 1], after: scenario }))
+    .filter(({ after }) => after.winnerChanged);
+
+  return (
+    <div className="space-y-2 pt-1">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Layers className="h-3 w-3" />
+        <span>Across {scenarios.scenarios.length} scenarios</span>
+      </div>
+      {boundaries.length === 0 ? (
+        <p className="text-sm">
+          <span className="font-bold text-green-400">{scenarios.scenarios[0]?.winner ?? 'No option'}</span>
+          {' '}wins in every scenario
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {boundaries.map(({ before, after }) => (
+            <li
+              key={after.name}
+              className="text-sm p-2 rounded-md bg-yellow-500/10 border border-yellow-500/30"
+            >
+              <span className="font-medium">{before.name}</span>
+              <ArrowRight className="inline h-3 w-3 mx-1 text-muted-foreground" />
+              <span className="font-medium">{after.name}</span>: the winner changes from{' '}
+              <span className="font-bold text-blue-400">{before.winner ?? 'none'}</span> to{' '}
+              <span className="font-bold text-green-400">{after.winner ?? 'none'}</span>
+              {after.pivot.statement && (
+                <p className="text-xs text-muted-foreground mt-1">{after.pivot.statement}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 /**
  * PivotSummary component displays the decision pivot statement prominently.
- * Highlights conditional factors and styled as a decision callout.
+ * Highlights conditional factors and styled as a decision callout, and
+ * after a scenario comparison, the scenarios between which the winner changes.
  * 
  * Requirements: 4.1, 4.2, 4.3, 4.4
  */
@@ -21,6 +67,7 @@ export function PivotSummary({
   pivot,
   status,
   aiAnalysis,
+  scenarios,
   className,
 }: PivotSummaryProps) {
   // Loading state
@@ -40,7 +87,17 @@ export function PivotSummary({
     );
   }
 
-  // Empty/idle state
+  // Empty/idle state; scenario boundaries still show without a comparison
+  if ((status === 'idle' || !pivot) && scenarios) {
+    return (
+      <Card className={cn('border-yellow-500/30', className)}>
+        <CardContent className="py-4">
+          <ScenarioBoundaries scenarios={scenarios} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (status === 'idle' || !pivot) {
     return (
       <Card className={cn('border-dashed bg-muted/20', className)}>
@@ -150,6 +207,36 @@ export function PivotSummary({
                 {pivot.secondaryFactor}
               </Badge>
             </div>
+
+            {/* Winner per factor */}
+            {pivot.factorWinners.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pt-1">
+                {pivot.factorWinners.map((factorWinner) => (
+                  <div
+                    key={factorWinner.attributeType}
+                    className="flex items-center gap-2 text-xs p-2 rounded-md bg-background/40 border border-border/50"
+                  >
+                    <Trophy className="h-3 w-3 text-yellow-500 shrink-0" />
+                    <span className="capitalize text-muted-foreground">{factorWinner.factor}:</span>
+                    <span className="font-medium">{factorWinner.winners.join(', ')}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pairwise statements beyond the headline pair */}
+            {pivot.pairwise.length > 1 && (
+              <ul className="space-y-1 pt-1">
+                {pivot.pairwise.slice(1).map((pair) => (
+                  <li key={`${pair.optionA}-${pair.optionB}`} className="text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground">{pair.optionA} vs {pair.optionB}:</span>{' '}
+                    {pair.statement}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {scenarios && <ScenarioBoundaries scenarios={scenarios} />}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Layers, Loader2, Play, Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import type { NamedScenario, RequestStatus, ScenarioCompareResponse } from '@/types';
+import { cn } from '@/lib/utils';
+
+// Bounds on how many scenarios can be compared at once (mirrors the API)
+const MIN_SCENARIOS = 2;
+const MAX_SCENARIOS = 6;
+
+const INPUT_CLASS =
+  'w-full h-9 px-3 rounded-md border border-input bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+interface ScenarioPanelProps {
+  scenarios: NamedScenario[];
+  result: ScenarioCompareResponse | null;
+  status: RequestStatus;
+  error: string | null;
+  // Whether enough options are selected to compare
+  canRun: boolean;
+  onAdd: (name: string) => void;
+  onRemove: (name: string) => void;
+  onRun: () => void;
+  className?: string;
+}
+
+/**
+ * Score grid with one column per scenario, side by side. The winner of each
+ * scenario is highlighted, and a scenario whose winner differs from the one
+ * to its left gets a marked boundary.
+ */
+function ScenarioGrid({ result }: { result: ScenarioCompareResponse }) {
+  const boundary = 'border-l-2 border-l-yellow-500';
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr>
+            <th className="text-left font-normal text-muted-foreground p-2">Option</th>
+            {result.scenarios.map((scenario) => (
+              <th
+                key={scenario.name}
+                className={cn('text-right font-medium p-2', scenario.winnerChanged && boundary)}
+              >
+                <div>{scenario.name}</div>
+                {scenario.winnerChanged && (
+                  <Badge variant="warning" className="text-[10px] mt-1">Winner changes</Badge>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {result.options.map((option) => (
+            <tr key={option.id} className="border-t">
+              <td className="p-2 font-medium">{option.name}</td>
+              {result.scenarios.map((scenario) => {
+                const isWinner = scenario.winner === option.name;
+                const disqualified = scenario.disqualified.includes(option.id);
+                return (
+                  <td
+                    key={scenario.name}
+                    className={cn(
+                      'p-2 text-right',
+                      scenario.winnerChanged && boundary,
+                      isWinner && 'bg-green-600/15 font-semibold text-green-400',
+                      disqualified && 'text-muted-foreground line-through'
+                    )}
+                    title={disqualified ? 'Disqualified under this scenario' : undefined}
+                  >
+                    {scenario.scores[option.id] ?? '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * ScenarioPanel collects named constraint sets ("Today", "10x growth",
+ * "Budget cut") from the constraint panel and compares the selected options
+ * under all of them at once.
+ */
+export function ScenarioPanel({
+  scenarios,
+  result,
+  status,
+  error,
+  canRun,
+  onAdd,
+  onRemove,
+  onRun,
+  className,
+}: ScenarioPanelProps) {
+  const [name, setName] = useState('');
+  const isLoading = status === 'loading';
+  const trimmed = name.trim();
+  const isFull = scenarios.length >= MAX_SCENARIOS && !scenarios.some((s) => s.name === trimmed);
+
+  const handleAdd = () => {
+    onAdd(trimmed);
+    setName('');
+  };
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          Scenarios
+          {result && (
+            <Badge variant={result.winnerChanges ? 'warning' : 'success'} className="ml-auto text-xs">
+              {result.winnerChanges ? 'Winner depends on scenario' : 'Same winner in every scenario'}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Save the current constraints under a name, change them, save again, then compare
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <div className="space-y-2">
+          <Label htmlFor="scenario-name" className="text-xs text-muted-foreground">Scenario</Label>
+          <div className="flex gap-2">
+            <input
+              id="scenario-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. 10x growth"
+              maxLength={100}
+              disabled={isLoading}
+              className={INPUT_CLASS}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAdd}
+              disabled={isLoading || trimmed === '' || isFull}
+              title="Save the current constraints as this scenario"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {scenarios.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {scenarios.map((scenario) => (
+                <Badge key={scenario.name} variant="outline" className="text-xs gap-1">
+                  {scenario.name}
+                  <button
+                    type="button"
+                    onClick={() => onRemove(scenario.name)}
+                    disabled={isLoading}
+                    aria-label={`Remove ${scenario.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={onRun}
+            disabled={isLoading || !canRun || scenarios.length < MIN_SCENARIOS}
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+            Compare Scenarios
+          </Button>
+        </div>
+
+        {result && <ScenarioGrid result={result} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ScenarioPanel;
@@ -0,0 +1,110 @@
+import { BarChart3 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { OptionComparison } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ScoreBreakdownChartProps {
+  options: OptionComparison[];
+  className?: string;
+}
+
+// One color per criterion, in the order criteria first appear
+const SEGMENT_COLORS = [
+  'bg-sky-500',
+  'bg-emerald-500',
+  'bg-amber-500',
+  'bg-violet-500',
+  'bg-rose-500',
+  'bg-teal-500',
+  'bg-orange-500',
+  'bg-indigo-500',
+];
+
+/**
+ * Describes which criterion accounts for most of the leader's lead over
+ * the runner-up, e.g. "40% of Lambda's lead over EC2 comes from Maintenance".
+ */
+function describeLead(leader: OptionComparison, runnerUp: OptionComparison): string | null {
+  const gaps = leader.contributions.map((c) => ({
+    name: c.name,
+    gap: c.points - (runnerUp.contributions.find((r) => r.attributeType === c.attributeType)?.points ?? 0),
+  }));
+  const lead = gaps.reduce((sum, g) => sum + g.gap, 0);
+  if (lead <= 0) return null;
+
+  const [top] = [...gaps].sort((a, b) => b.gap - a.gap);
+  if (top.gap <= 0) return null;
+  const share = Math.round((top.gap / lead) * 100);
+  return `${share}% of ${leader.name}'s lead over ${runnerUp.name} comes from ${top.name}`;
+}
+
+/**
+ * ScoreBreakdownChart shows, as one stacked bar per option, how many points
+ * each criterion adds to the score. The unfilled part of a bar is what the
+ * option misses out on; budget penalties are listed beside the score.
+ */
+export function ScoreBreakdownChart({ options, className }: ScoreBreakdownChartProps) {
+  const criteria = [
+    ...new Map(options.flatMap((o) => o.contributions).map((c) => [c.attributeType, c.name])),
+  ];
+  if (criteria.length === 0) return null;
+
+  const colorOf = (attributeType: string) =>
+    SEGMENT_COLORS[criteria.findIndex(([key]) => key === attributeType) % SEGMENT_COLORS.length];
+
+  const qualified = options.filter((o) => !o.disqualified);
+  const leadStatement = qualified.length >= 2 ? describeLead(qualified[0], qualified[1]) : null;
+
+  return (
+    <Card className={cn('animate-fade-in', className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <BarChart3 className="h-4 w-4" />
+          Score Breakdown
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Points each attribute adds to the score, out of 100
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {options.map((option) => {
+          const penalty = option.budgetFit.penalty;
+          return (
+            <div key={option.id} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="font-medium">{option.name}</span>
+                <span className="text-muted-foreground">
+                  {option.score}/100
+                  {penalty > 0 && ` (−${penalty} budget)`}
+                </span>
+              </div>
+              <div className="flex h-4 w-full rounded bg-muted overflow-hidden">
+                {option.contributions.map((contribution) => (
+                  <div
+                    key={contribution.attributeType}
+                    className={colorOf(contribution.attributeType)}
+                    style={{ width: `${Math.max(0, contribution.points)}%` }}
+                    title={`${contribution.name}: ${contribution.points} pts (weight ${contribution.weight})`}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap gap-x-3 gap-y-1 pt-1">
+          {criteria.map(([key, name]) => (
+            <span key={key} className="flex items-center gap-1 text-xs text-muted-foreground">
+              <span className={cn('h-2 w-2 rounded-sm', colorOf(key))} />
+              {name}
+            </span>
+          ))}
+        </div>
+
+        {leadStatement && <p className="text-xs text-muted-foreground">{leadStatement}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ScoreBreakdownChart;
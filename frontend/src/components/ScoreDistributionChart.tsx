@@ -0,0 +1,64 @@
+import { Dices } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { UncertaintyResult } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ScoreDistributionChartProps {
+  uncertainty: UncertaintyResult;
+  className?: string;
+}
+
+/**
+ * ScoreDistributionChart shows how each option's score moves when uncertain
+ * ratings and the weights are sampled many times. Bars span the 10th to
+ * 90th percentile on a 0-100 scale; the marker is the median.
+ */
+export function ScoreDistributionChart({ uncertainty, className }: ScoreDistributionChartProps) {
+  const { iterations, options, confidence } = uncertainty;
+  if (options.length === 0) return null;
+
+  return (
+    <Card className={cn('animate-fade-in', className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Dices className="h-4 w-4" />
+          Score Uncertainty
+          <span className="ml-auto text-xs font-normal text-muted-foreground">
+            Leader holds in {confidence}% of runs
+          </span>
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {iterations} runs with uncertain ratings and weights varied; bars span the 10th–90th percentile
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {options.map((option) => (
+          <div
+            key={option.optionId}
+            className="space-y-1"
+            title={`Mean ${option.mean}, median ${option.p50}, 10th–90th percentile ${option.p10}–${option.p90}`}
+          >
+            <div className="flex justify-between text-xs">
+              <span className="font-medium">{option.name}</span>
+              <span className="text-muted-foreground">
+                Wins {Math.round(option.winProbability * 100)}%
+              </span>
+            </div>
+            <div className="relative h-3 w-full rounded bg-muted overflow-hidden">
+              <div
+                className="absolute inset-y-0 bg-primary/40"
+                style={{ left: `${option.p10}%`, width: `${Math.max(1, option.p90 - option.p10)}%` }}
+              />
+              <div
+                className="absolute inset-y-0 w-0.5 bg-foreground"
+                style={{ left: `${option.p50}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ScoreDistributionChart;
@@ -0,0 +1,106 @@
+import { Activity } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AttributeSensitivity, RequestStatus, SensitivityResult } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface SensitivityChartProps {
+  sensitivity: SensitivityResult | null;
+  status: RequestStatus;
+  className?: string;
+}
+
+interface TornadoRowProps {
+  attribute: AttributeSensitivity;
+  range: SensitivityResult['weightRange'];
+}
+
+/**
+ * Converts a weight to a horizontal position within the chart track.
+ */
+function toPercent(weight: number, range: SensitivityResult['weightRange']): number {
+  const span = range.max - range.min || 1;
+  return Math.min(100, Math.max(0, ((weight - range.min) / span) * 100));
+}
+
+function TornadoRow({ attribute, range }: TornadoRowProps) {
+  const from = toPercent(attribute.holdsFrom, range);
+  const to = toPercent(attribute.holdsTo, range);
+  const baseline = toPercent(attribute.baselineWeight, range);
+  const tips = [attribute.lowerTip, attribute.upperTip]
+    .filter((tip) => tip !== null)
+    .map((tip) => `${tip.newWinner} at ${tip.weight.toFixed(2)}`);
+
+  return (
+    <div className="space-y-1" title={attribute.statement}>
+      <div className="flex justify-between text-xs">
+        <span className="capitalize font-medium">{attribute.factor}</span>
+        <span className="text-muted-foreground">
+          {attribute.holdsFrom.toFixed(2)}–{attribute.holdsTo.toFixed(2)}
+        </span>
+      </div>
+      <div className="relative h-4 w-full rounded bg-red-500/20 overflow-hidden">
+        <div
+          className="absolute inset-y-0 bg-green-500/60"
+          style={{ left: `${from}%`, width: `${Math.max(0, to - from)}%` }}
+        />
+        <div
+          className="absolute inset-y-0 w-0.5 bg-foreground"
+          style={{ left: `${baseline}%` }}
+        />
+      </div>
+      {tips.length > 0 && (
+        <p className="text-xs text-muted-foreground">Flips to {tips.join(', ')}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * SensitivityChart shows, as a tornado chart, how far each attribute's weight
+ * can move before the leading option loses first place. Green spans are the
+ * weights where the current winner holds; the marker is the current weight.
+ */
+export function SensitivityChart({ sensitivity, status, className }: SensitivityChartProps) {
+  if (status !== 'success' || !sensitivity || sensitivity.attributes.length === 0) {
+    return null;
+  }
+
+  const { winner, weightRange, attributes } = sensitivity;
+  const flipping = attributes.filter((a) => a.lowerTip || a.upperTip);
+
+  return (
+    <Card className={cn('h-full animate-fade-in', className)}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Activity className="h-4 w-4" />
+          Weight Sensitivity
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Where {winner} stays on top as each weight moves from {weightRange.min} to {weightRange.max}
+          {' '}(weight × 10 = importance)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {attributes.map((attribute) => (
+          <TornadoRow key={attribute.attributeType} attribute={attribute} range={weightRange} />
+        ))}
+
+        {flipping.length === 0 ? (
+          <p className="text-xs text-muted-foreground pt-1">
+            No single weight change makes another option win.
+          </p>
+        ) : (
+          <ul className="space-y-1 pt-1">
+            {flipping.map((attribute) => (
+              <li key={attribute.attributeType} className="text-xs text-muted-foreground">
+                {attribute.statement}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default SensitivityChart;
@@ -1,3 +1,5 @@
 export { useConstraints } from './useConstraints';
 export { useComparison } from './useComparison';
 export { useApiHealth } from './useApiHealth';
+export { useDecisionSession } from './useDecisionSession';
+export { useScenarios } from './useScenarios';
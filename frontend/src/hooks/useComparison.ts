@@ -1,14 +1,35 @@
 import { useState, useCallback } from 'react';
-import { compare, getOptions, getIntegrations, getSupportedIntegrations, ApiClientError } from '@/lib/api';
+import {
+  compare,
+  getOptions,
+  getIntegrations,
+  getAttributeTypes,
+  getWeightProfiles,
+  getSensitivity,
+  recommend,
+  saveComparison,
+  getSavedComparison,
+  exportComparison,
+  ApiClientError,
+} from '@/lib/api';
 import type {
+  CompareResponse,
   Constraints,
   ComparisonResult,
   TradeOffExplanation,
   PivotResult,
   Option,
   Integration,
+  AttributeType,
+  WeightProfile,
   RequestStatus,
   AIComparisonResult,
+  SensitivityResult,
+  UncertaintyResult,
+  TcoProjection,
+  SavedCompareRequest,
+  SavedComparison,
+  ExportFormat,
 } from '@/types';
 
 interface UseComparisonState {
@@ -19,9 +40,16 @@ interface UseComparisonState {
   error: string | null;
   availableOptions: Option[];
   availableIntegrations: Integration[];
-  selectedOptions: [string, string] | null;
+  availableAttributeTypes: AttributeType[];
+  availableWeightProfiles: WeightProfile[];
+  selectedOptions: string[] | null;
   aiEnhanced: boolean;
   aiAnalysis: AIComparisonResult | null;
+  sensitivity: SensitivityResult | null;
+  uncertainty: UncertaintyResult | null;
+  tco: TcoProjection | null;
+  lastRequest: SavedCompareRequest | null;
+  savedComparisonId: string | null;
 }
 
 const initialState: UseComparisonState = {
@@ -32,11 +60,37 @@ const initialState: UseComparisonState = {
   error: null,
   availableOptions: [],
   availableIntegrations: [],
+  availableAttributeTypes: [],
+  availableWeightProfiles: [],
   selectedOptions: null,
   aiEnhanced: false,
   aiAnalysis: null,
+  sensitivity: null,
+  uncertainty: null,
+  tco: null,
+  lastRequest: null,
+  savedComparisonId: null,
 };
 
+/**
+ * Reassembles the compare response behind the current result, if there is one.
+ */
+function toCompareResponse(state: UseComparisonState): CompareResponse | null {
+  const { comparison, explanation, pivot, aiEnhanced, aiAnalysis, uncertainty, tco, status } = state;
+  if (status !== 'success' || !comparison || !explanation || !pivot) {
+    return null;
+  }
+  return {
+    comparison,
+    explanation,
+    pivot,
+    aiEnhanced,
+    aiAnalysis: aiAnalysis ?? undefined,
+    uncertainty: uncertainty ?? undefined,
+    tco: tco ?? undefined,
+  };
+}
+
 /**
  * Custom hook for managing comparison API calls and results.
  * Handles loading states, errors, and data fetching.
@@ -46,7 +100,7 @@ const initialState: UseComparisonState = {
 export function useComparison() {
   const [state, setState] = useState<UseComparisonState>(initialState);
 
-  const setSelectedOptions = useCallback((options: [string, string] | null) => {
+  const setSelectedOptions = useCallback((options: string[] | null) => {
     setState((prev) => ({ ...prev, selectedOptions: options }));
   }, []);
 
@@ -68,12 +122,22 @@ export function useComparison() {
     }
   }, []);
 
-  const fetchIntegrations = useCallback(async (optionIds?: string[]) => {
+  // IDs of the catalog options that best fit the constraints, best first.
+  // Returns an empty list on failure so callers can fall back quietly.
+  const fetchRecommendedOptions = useCallback(async (constraints: Constraints) => {
+    try {
+      const response = await recommend({ constraints });
+      return response.recommendations.map((r) => r.id);
+    } catch {
+      return [];
+    }
+  }, []);
+
+  // Lists every integration, not just those all selected options support,
+  // so options lacking one can be graded or rejected by the API
+  const fetchIntegrations = useCallback(async () => {
     try {
-      // If option IDs provided, fetch only supported integrations
-      const response = optionIds && optionIds.length > 0
-        ? await getSupportedIntegrations(optionIds)
-        : await getIntegrations();
+      const response = await getIntegrations();
       setState((prev) => ({
         ...prev,
         availableIntegrations: response.integrations,
@@ -89,12 +153,47 @@ export function useComparison() {
     }
   }, []);
 
+  const fetchAttributeTypes = useCallback(async () => {
+    try {
+      const response = await getAttributeTypes();
+      setState((prev) => ({
+        ...prev,
+        availableAttributeTypes: response.attributeTypes,
+      }));
+      return response.attributeTypes;
+    } catch (error) {
+      const message =
+        error instanceof ApiClientError
+          ? `${error.message}. ${error.suggestion}`
+          : 'Failed to fetch attribute types';
+      setState((prev) => ({ ...prev, error: message }));
+      return [];
+    }
+  }, []);
+
+  // Profiles are optional, so a failed fetch just leaves the selector empty
+  const fetchWeightProfiles = useCallback(async () => {
+    try {
+      const response = await getWeightProfiles();
+      setState((prev) => ({
+        ...prev,
+        availableWeightProfiles: response.weightProfiles,
+      }));
+      return response.weightProfiles;
+    } catch {
+      return [];
+    }
+  }, []);
+
   const runComparison = useCallback(
-    async (constraints: Constraints, optionIds: [string, string], useAI: boolean = false, additionalContext?: string) => {
+    async (constraints: Constraints, optionIds: string[], useAI: boolean = false, additionalContext?: string) => {
       setState((prev) => ({
         ...prev,
         status: 'loading',
         error: null,
+        sensitivity: null,
+        lastRequest: { constraints, optionIds, additionalContext, useAI },
+        savedComparisonId: null,
       }));
 
       try {
@@ -111,10 +210,17 @@ export function useComparison() {
           pivot: response.pivot,
           aiEnhanced: response.aiEnhanced || false,
           aiAnalysis: response.aiAnalysis || null,
+          uncertainty: response.uncertainty || null,
+          tco: response.tco || null,
           status: 'success',
           error: null,
         }));
 
+        // Sensitivity is supplementary; the comparison stands if it fails
+        getSensitivity({ constraints, optionIds })
+          .then((sensitivity) => setState((prev) => ({ ...prev, sensitivity })))
+          .catch(() => setState((prev) => ({ ...prev, sensitivity: null })));
+
         return response;
       } catch (error) {
         const message =
@@ -134,6 +240,91 @@ export function useComparison() {
     []
   );
 
+  const saveCurrentComparison = useCallback(async () => {
+    const response = toCompareResponse(state);
+    if (!response || !state.lastRequest) {
+      return null;
+    }
+
+    try {
+      const saved = await saveComparison(state.lastRequest, response);
+      setState((prev) => ({ ...prev, savedComparisonId: saved.id }));
+      return saved.id;
+    } catch (error) {
+      const message =
+        error instanceof ApiClientError
+          ? `${error.message}. ${error.suggestion}`
+          : 'Failed to save comparison';
+      setState((prev) => ({ ...prev, error: message }));
+      return null;
+    }
+  }, [state]);
+
+  const exportCurrentComparison = useCallback(async (format: ExportFormat) => {
+    const response = toCompareResponse(state);
+    if (!response) {
+      return null;
+    }
+
+    try {
+      return await exportComparison(response, format);
+    } catch (error) {
+      const message =
+        error instanceof ApiClientError
+          ? `${error.message}. ${error.suggestion}`
+          : 'Failed to export comparison';
+      setState((prev) => ({ ...prev, error: message }));
+      return null;
+    }
+  }, [state]);
+
+  const loadSavedComparison = useCallback(async (id: string): Promise<SavedComparison | null> => {
+    setState((prev) => ({
+      ...prev,
+      status: 'loading',
+      error: null,
+      sensitivity: null,
+    }));
+
+    try {
+      const saved = await getSavedComparison(id);
+      const { request, response } = saved;
+
+      // Show the result exactly as saved; sensitivity is not recomputed
+      // because current data may no longer match it
+      setState((prev) => ({
+        ...prev,
+        comparison: response.comparison,
+        explanation: response.explanation,
+        pivot: response.pivot,
+        aiEnhanced: response.aiEnhanced || false,
+        aiAnalysis: response.aiAnalysis || null,
+        uncertainty: response.uncertainty || null,
+        tco: response.tco || null,
+        selectedOptions: request.optionIds,
+        lastRequest: request,
+        savedComparisonId: saved.id,
+        status: 'success',
+        error: null,
+      }));
+
+      return saved;
+    } catch (error) {
+      const message =
+        error instanceof ApiClientError
+          ? `${error.message}. ${error.suggestion}`
+          : 'Failed to load saved comparison';
+
+      setState((prev) => ({
+        ...prev,
+        status: 'error',
+        error: message,
+      }));
+
+      return null;
+    }
+  }, []);
+
   const clearComparison = useCallback(() => {
     setState((prev) => ({
       ...prev,
@@ -142,6 +333,11 @@ export function useComparison() {
       pivot: null,
       aiEnhanced: false,
       aiAnalysis: null,
+      sensitivity: null,
+      uncertainty: null,
+      tco: null,
+      lastRequest: null,
+      savedComparisonId: null,
       status: 'idle',
       error: null,
     }));
@@ -155,8 +351,14 @@ export function useComparison() {
     ...state,
     setSelectedOptions,
     fetchOptions,
+    fetchRecommendedOptions,
     fetchIntegrations,
+    fetchAttributeTypes,
+    fetchWeightProfiles,
     runComparison,
+    saveCurrentComparison,
+    exportCurrentComparison,
+    loadSavedComparison,
     clearComparison,
     clearError,
   };
@@ -3,7 +3,7 @@ import type { Constraints } from '@/types';
 
 const DEFAULT_CONSTRAINTS: Constraints = {
   budgetMin: 0,
-  budgetMax: 50000,
+  budgetMax: 5000,
   scalabilityPriority: 'medium',
   requiredIntegrations: [],
 };
@@ -0,0 +1,167 @@
+import { useState, useCallback } from 'react';
+import {
+  createSession,
+  getSession,
+  submitSessionParticipant,
+  updateSessionParticipant,
+  getSessionResult,
+  ApiClientError,
+} from '@/lib/api';
+import type {
+  Constraints,
+  DecisionSession,
+  GroupDecisionResult,
+  RequestStatus,
+  SessionParticipant,
+  SessionParticipantRequest,
+} from '@/types';
+
+// Which participant this tab joined each session as, so a reload keeps updating the same ratings
+const PARTICIPANT_STORAGE_PREFIX = 'referee.sessionParticipant.';
+
+interface UseDecisionSessionState {
+  session: DecisionSession | null;
+  // The participant this tab joined as; null until it submits ratings
+  participant: SessionParticipant | null;
+  result: GroupDecisionResult | null;
+  status: RequestStatus;
+  error: string | null;
+}
+
+const initialState: UseDecisionSessionState = {
+  session: null,
+  participant: null,
+  result: null,
+  status: 'idle',
+  error: null,
+};
+
+function toErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof ApiClientError ? `${error.message}. ${error.suggestion}` : fallback;
+}
+
+function getStoredParticipantId(sessionId: string): string | null {
+  try {
+    return sessionStorage.getItem(PARTICIPANT_STORAGE_PREFIX + sessionId);
+  } catch {
+    return null;
+  }
+}
+
+function storeParticipantId(sessionId: string, participantId: string): void {
+  try {
+    sessionStorage.setItem(PARTICIPANT_STORAGE_PREFIX + sessionId, participantId);
+  } catch {
+    // Without storage a reload just means joining again under another name
+  }
+}
+
+/**
+ * Custom hook for a group decision session: starting or joining one,
+ * submitting a participant's ratings, and fetching the group result.
+ */
+export function useDecisionSession() {
+  const [state, setState] = useState<UseDecisionSessionState>(initialState);
+
+  const fetchResult = useCallback(async (sessionId: string) => {
+    try {
+      const result = await getSessionResult(sessionId);
+      setState((prev) => ({ ...prev, result }));
+    } catch {
+      // No result until someone has submitted ratings
+      setState((prev) => ({ ...prev, result: null }));
+    }
+  }, []);
+
+  const startSession = useCallback(
+    async (title: string, constraints: Constraints, optionIds: string[]): Promise<DecisionSession | null> => {
+      setState((prev) => ({ ...prev, status: 'loading', error: null }));
+
+      try {
+        const session = await createSession({ title, constraints, optionIds });
+        setState({ session, participant: null, result: null, status: 'success', error: null });
+        return session;
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          status: 'error',
+          error: toErrorMessage(error, 'Failed to start session'),
+        }));
+        return null;
+      }
+    },
+    []
+  );
+
+  const loadSession = useCallback(
+    async (id: string): Promise<DecisionSession | null> => {
+      setState((prev) => ({ ...prev, status: 'loading', error: null }));
+
+      try {
+        const session = await getSession(id);
+        const participantId = getStoredParticipantId(session.id);
+        const participant = session.participants.find((p) => p.id === participantId) ?? null;
+        setState({ session, participant, result: null, status: 'success', error: null });
+        if (session.participants.length > 0) {
+          await fetchResult(session.id);
+        }
+        return session;
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          status: 'error',
+          error: toErrorMessage(error, 'Failed to load session'),
+        }));
+        return null;
+      }
+    },
+    [fetchResult]
+  );
+
+  /**
+   * Joins the session on the first submission; later ones replace the
+   * ratings of the participant this tab joined as.
+   */
+  const submitRatings = useCallback(
+    async (participant: SessionParticipantRequest) => {
+      const sessionId = state.session?.id;
+      if (!sessionId) return;
+
+      setState((prev) => ({ ...prev, status: 'loading', error: null }));
+
+      try {
+        const joined = state.participant
+          ? await updateSessionParticipant(sessionId, state.participant.id, {
+              attributeWeights: participant.attributeWeights,
+              scalabilityPriority: participant.scalabilityPriority,
+            })
+          : await submitSessionParticipant(sessionId, participant);
+        storeParticipantId(sessionId, joined.id);
+        const session = await getSession(sessionId);
+        setState((prev) => ({ ...prev, session, participant: joined, status: 'success' }));
+        await fetchResult(sessionId);
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          status: 'error',
+          error: toErrorMessage(error, 'Failed to submit ratings'),
+        }));
+      }
+    },
+    [state.session, state.participant, fetchResult]
+  );
+
+  const leaveSession = useCallback(() => {
+    setState(initialState);
+  }, []);
+
+  return {
+    ...state,
+    startSession,
+    loadSession,
+    submitRatings,
+    leaveSession,
+  };
+}
+
+export default useDecisionSession;
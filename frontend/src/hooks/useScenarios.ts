@@ -0,0 +1,79 @@
+import { useState, useCallback } from 'react';
+import { compareScenarios, ApiClientError } from '@/lib/api';
+import type { Constraints, NamedScenario, RequestStatus, ScenarioCompareResponse } from '@/types';
+
+interface UseScenariosState {
+  scenarios: NamedScenario[];
+  result: ScenarioCompareResponse | null;
+  status: RequestStatus;
+  error: string | null;
+}
+
+const initialState: UseScenariosState = {
+  scenarios: [],
+  result: null,
+  status: 'idle',
+  error: null,
+};
+
+/**
+ * Custom hook for scenario comparison: collecting named constraint sets
+ * and running the selected options through each of them.
+ */
+export function useScenarios() {
+  const [state, setState] = useState<UseScenariosState>(initialState);
+
+  // Adding a scenario under an existing name replaces it in place
+  const addScenario = useCallback((name: string, constraints: Constraints) => {
+    setState((prev) => {
+      const exists = prev.scenarios.some((s) => s.name === name);
+      return {
+        ...prev,
+        scenarios: exists
+          ? prev.scenarios.map((s) => (s.name === name ? { name, constraints } : s))
+          : [...prev.scenarios, { name, constraints }],
+        result: null,
+      };
+    });
+  }, []);
+
+  const removeScenario = useCallback((name: string) => {
+    setState((prev) => ({
+      ...prev,
+      scenarios: prev.scenarios.filter((s) => s.name !== name),
+      result: null,
+    }));
+  }, []);
+
+  const runScenarios = useCallback(
+    async (optionIds: string[]) => {
+      setState((prev) => ({ ...prev, status: 'loading', error: null }));
+
+      try {
+        const result = await compareScenarios({ optionIds, scenarios: state.scenarios });
+        setState((prev) => ({ ...prev, result, status: 'success' }));
+      } catch (error) {
+        const message =
+          error instanceof ApiClientError
+            ? `${error.message}. ${error.suggestion}`
+            : 'Failed to compare scenarios';
+        setState((prev) => ({ ...prev, result: null, status: 'error', error: message }));
+      }
+    },
+    [state.scenarios]
+  );
+
+  const clearScenarios = useCallback(() => {
+    setState(initialState);
+  }, []);
+
+  return {
+    ...state,
+    addScenario,
+    removeScenario,
+    runScenarios,
+    clearScenarios,
+  };
+}
+
+export default useScenarios;
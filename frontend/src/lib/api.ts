@@ -1,16 +1,41 @@
 import type {
   ApiError,
+  AttributeTypesResponse,
   CompareRequest,
   CompareResponse,
+  CreateSessionRequest,
+  DecisionSession,
+  ExportFormat,
+  GroupDecisionResult,
   HealthResponse,
   IntegrationsResponse,
   OptionsResponse,
+  RecommendRequest,
+  RecommendResponse,
+  SavedCompareRequest,
+  SavedComparison,
+  ScenarioCompareRequest,
+  ScenarioCompareResponse,
+  SensitivityResult,
+  SessionParticipant,
+  SessionParticipantRequest,
+  SessionRatingsRequest,
+  WeightProfilesResponse,
 } from '@/types';
 import {
   validateCompareResponse,
   validateHealthResponse,
   validateOptionsResponse,
   validateIntegrationsResponse,
+  validateAttributeTypesResponse,
+  validateWeightProfilesResponse,
+  validateSensitivityResult,
+  validateScenarioCompareResponse,
+  validateRecommendResponse,
+  validateSavedComparison,
+  validateDecisionSession,
+  validateSessionParticipant,
+  validateGroupDecisionResult,
   ValidationError,
 } from './validation';
 
@@ -82,7 +107,8 @@ export class ApiClientError extends Error {
 async function fetchWithErrorHandling<T>(
   url: string,
   options?: RequestInit,
-  validator?: (data: unknown) => T
+  validator?: (data: unknown) => T,
+  responseType: 'json' | 'text' = 'json'
 ): Promise<T> {
   try {
     const response = await fetch(url, {
@@ -124,10 +150,10 @@ async function fetchWithErrorHandling<T>(
       throw new ApiClientError(ERROR_MESSAGES.API_UNAVAILABLE, response.status);
     }
 
-    // Parse JSON response
+    // Parse JSON (or plain text) response
     let data: unknown;
     try {
-      data = await response.json();
+      data = responseType === 'text' ? await response.text() : await response.json();
     } catch {
       throw new ApiClientError(ERROR_MESSAGES.PARSE_ERROR);
     }
@@ -200,6 +226,28 @@ export async function getIntegrations(): Promise<IntegrationsResponse> {
   );
 }
 
+/**
+ * Get the attribute types options are rated on
+ */
+export async function getAttributeTypes(): Promise<AttributeTypesResponse> {
+  return fetchWithErrorHandling<AttributeTypesResponse>(
+    `${API_BASE_URL}/options/attribute-types`,
+    undefined,
+    validateAttributeTypesResponse
+  );
+}
+
+/**
+ * Get the named weight profiles a comparison can be scored with
+ */
+export async function getWeightProfiles(): Promise<WeightProfilesResponse> {
+  return fetchWithErrorHandling<WeightProfilesResponse>(
+    `${API_BASE_URL}/options/weight-profiles`,
+    undefined,
+    validateWeightProfilesResponse
+  );
+}
+
 /**
  * Get integrations supported by specific options
  * @param optionIds - Array of option IDs to check
@@ -220,12 +268,15 @@ export interface CompareRequestWithContext extends CompareRequest {
 }
 
 /**
- * Run a comparison between two options with given constraints
+ * Run a comparison between two or more options with given constraints.
+ * Uncertain ratings and weights are always simulated.
  * @param request - The comparison request
  * @param useAI - If true, use full AI comparison mode
  */
 export async function compare(request: CompareRequestWithContext, useAI: boolean = false): Promise<CompareResponse> {
-  const url = useAI ? `${API_BASE_URL}/compare?useAI=true` : `${API_BASE_URL}/compare`;
+  const url = useAI
+    ? `${API_BASE_URL}/compare?useAI=true&simulate=true`
+    : `${API_BASE_URL}/compare?simulate=true`;
   return fetchWithErrorHandling<CompareResponse>(
     url,
     {
@@ -236,5 +287,180 @@ export async function compare(request: CompareRequestWithContext, useAI: boolean
   );
 }
 
+/**
+ * Analyze how far each attribute weight can move before the winner changes
+ * @param request - The same request used for the comparison
+ */
+export async function getSensitivity(request: CompareRequest): Promise<SensitivityResult> {
+  return fetchWithErrorHandling<SensitivityResult>(
+    `${API_BASE_URL}/compare/sensitivity`,
+    {
+      method: 'POST',
+      body: JSON.stringify(request),
+    },
+    validateSensitivityResult
+  );
+}
+
+/**
+ * Compare the same options under several named constraint scenarios
+ * @param request - Option IDs and the scenarios, in the order to show them
+ */
+export async function compareScenarios(request: ScenarioCompareRequest): Promise<ScenarioCompareResponse> {
+  return fetchWithErrorHandling<ScenarioCompareResponse>(
+    `${API_BASE_URL}/compare/scenarios`,
+    {
+      method: 'POST',
+      body: JSON.stringify(request),
+    },
+    validateScenarioCompareResponse
+  );
+}
+
+/**
+ * Shortlist the catalog options that best fit the given constraints
+ * @param request - Constraints, plus an optional category and shortlist length
+ */
+export async function recommend(request: RecommendRequest): Promise<RecommendResponse> {
+  return fetchWithErrorHandling<RecommendResponse>(
+    `${API_BASE_URL}/recommend`,
+    {
+      method: 'POST',
+      body: JSON.stringify(request),
+    },
+    validateRecommendResponse
+  );
+}
+
+/**
+ * Save a comparison so it can be reopened from a shareable link
+ * @param request - The request the comparison was run with
+ * @param response - The response it produced
+ */
+export async function saveComparison(
+  request: SavedCompareRequest,
+  response: CompareResponse
+): Promise<SavedComparison> {
+  return fetchWithErrorHandling<SavedComparison>(
+    `${API_BASE_URL}/comparisons`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ request, response }),
+    },
+    validateSavedComparison
+  );
+}
+
+/**
+ * Load a previously saved comparison
+ * @param id - The saved comparison ID
+ */
+export async function getSavedComparison(id: string): Promise<SavedComparison> {
+  return fetchWithErrorHandling<SavedComparison>(
+    `${API_BASE_URL}/comparisons/${encodeURIComponent(id)}`,
+    undefined,
+    validateSavedComparison
+  );
+}
+
+/**
+ * Render a comparison result as a Markdown decision record
+ * @param response - The comparison response to export
+ * @param format - 'adr' for an Architecture Decision Record, 'markdown' for a report
+ */
+export async function exportComparison(
+  response: CompareResponse,
+  format: ExportFormat
+): Promise<string> {
+  return fetchWithErrorHandling<string>(
+    `${API_BASE_URL}/compare/export?format=${format}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(response),
+    },
+    undefined,
+    'text'
+  );
+}
+
+/**
+ * Start a group decision session on a set of options
+ * @param request - Title, shared constraints and the options to compare
+ */
+export async function createSession(request: CreateSessionRequest): Promise<DecisionSession> {
+  return fetchWithErrorHandling<DecisionSession>(
+    `${API_BASE_URL}/sessions`,
+    {
+      method: 'POST',
+      body: JSON.stringify(request),
+    },
+    validateDecisionSession
+  );
+}
+
+/**
+ * Load a group decision session with everyone's submitted ratings
+ * @param id - The session ID
+ */
+export async function getSession(id: string): Promise<DecisionSession> {
+  return fetchWithErrorHandling<DecisionSession>(
+    `${API_BASE_URL}/sessions/${encodeURIComponent(id)}`,
+    undefined,
+    validateDecisionSession
+  );
+}
+
+/**
+ * Join a session with a participant's ratings; fails if the name is taken
+ * @param sessionId - The session ID
+ * @param participant - The participant's name and ratings
+ */
+export async function submitSessionParticipant(
+  sessionId: string,
+  participant: SessionParticipantRequest
+): Promise<SessionParticipant> {
+  return fetchWithErrorHandling<SessionParticipant>(
+    `${API_BASE_URL}/sessions/${encodeURIComponent(sessionId)}/participants`,
+    {
+      method: 'POST',
+      body: JSON.stringify(participant),
+    },
+    validateSessionParticipant
+  );
+}
+
+/**
+ * Replace the ratings of a participant who has joined a session
+ * @param sessionId - The session ID
+ * @param participantId - The participant ID returned when they joined
+ * @param ratings - The participant's new ratings
+ */
+export async function updateSessionParticipant(
+  sessionId: string,
+  participantId: string,
+  ratings: SessionRatingsRequest
+): Promise<SessionParticipant> {
+  return fetchWithErrorHandling<SessionParticipant>(
+    `${API_BASE_URL}/sessions/${encodeURIComponent(sessionId)}/participants/${encodeURIComponent(participantId)}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(ratings),
+    },
+    validateSessionParticipant
+  );
+}
+
+/**
+ * Compare a session's options on the participants' aggregated ratings
+ * @param sessionId - The session ID
+ */
+export async function getSessionResult(sessionId: string): Promise<GroupDecisionResult> {
+  return fetchWithErrorHandling<GroupDecisionResult>(
+    `${API_BASE_URL}/sessions/${encodeURIComponent(sessionId)}/result`,
+    undefined,
+    validateGroupDecisionResult
+  );
+}
+
 // Export error messages for use in components
 export { ERROR_MESSAGES };
@@ -0,0 +1,84 @@
+import type { AuthSession, AuthUser, UserRole } from '@/types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+// The session only lives as long as the browser tab
+const SESSION_STORAGE_KEY = 'referee.adminSession';
+
+// Higher roles can do everything lower roles can
+const ROLE_RANK: Record<UserRole, number> = { viewer: 1, editor: 2, admin: 3 };
+
+/**
+ * Whether a user's role is at least the required role.
+ */
+export function hasRole(user: AuthUser, required: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[required];
+}
+
+/**
+ * Returns the stored admin session, dropping it if it has expired.
+ */
+export function getStoredSession(): AuthSession | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AuthSession;
+    if (!session.token || new Date(session.expiresAt).getTime() <= Date.now()) {
+      clearStoredSession();
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function clearStoredSession(): void {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+/**
+ * Signs in and stores the session. Throws with a readable message on failure.
+ */
+export async function login(username: string, password: string): Promise<AuthSession> {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+  } catch {
+    throw new Error('Unable to connect to the server');
+  }
+
+  if (res.status === 401) {
+    throw new Error('Invalid username or password');
+  }
+  if (res.status === 429) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error ?? 'Too many failed sign-in attempts. Try again later.');
+  }
+  if (!res.ok) {
+    throw new Error('Sign-in failed. Please try again.');
+  }
+
+  const session = (await res.json()) as AuthSession;
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+}
+
+/**
+ * Ends the session on the server (best effort) and forgets it locally.
+ */
+export async function logout(session: AuthSession): Promise<void> {
+  clearStoredSession();
+  try {
+    await fetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${session.token}` },
+    });
+  } catch {
+    // The local session is already gone; an unreachable server changes nothing
+  }
+}
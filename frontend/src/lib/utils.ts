@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Formats a measured attribute value with its unit, e.g. "200 ms".
+ */
+export function formatMeasurement(measurement: { value: number; unit: string | null }) {
+  const value = measurement.value.toLocaleString()
+  return measurement.unit ? `${value} ${measurement.unit}` : value
+}
@@ -4,11 +4,42 @@ import type {
   TradeOffExplanation,
   PivotResult,
   OptionComparison,
+  AttributeType,
   AttributeValue,
+  Measurement,
+  RatingSentiment,
+  RuleOperator,
+  ScoreContribution,
+  ScoringMetadata,
+  ScoringMethod,
+  BudgetFit,
+  BudgetFitStatus,
+  CostEstimate,
+  IntegrationFit,
+  IntegrationSupport,
+  IntegrationSupportLevel,
   OptionAnalysis,
   HealthResponse,
   OptionsResponse,
   IntegrationsResponse,
+  AttributeTypesResponse,
+  AttributeSensitivity,
+  SensitivityResult,
+  TippingPoint,
+  Constraints,
+  RecommendResponse,
+  UncertaintyResult,
+  TcoProjection,
+  TcoSettings,
+  ScenarioCompareResponse,
+  SavedCompareRequest,
+  SavedComparison,
+  WeightProfilesResponse,
+  WeightProfileSummary,
+  DecisionSession,
+  SessionParticipant,
+  GroupDecisionResult,
+  UsageProfile,
 } from '@/types';
 
 /**
@@ -45,6 +76,30 @@ function isValidRating(value: unknown): value is 'low' | 'medium' | 'high' {
   return value === 'low' || value === 'medium' || value === 'high';
 }
 
+/**
+ * Validates that a value is a valid rating sentiment.
+ */
+function isValidSentiment(value: unknown): value is RatingSentiment {
+  return value === 'favorable' || value === 'neutral' || value === 'unfavorable';
+}
+
+const SENTIMENT_SCORES: Record<RatingSentiment, number> = {
+  unfavorable: 0,
+  neutral: 50,
+  favorable: 100,
+};
+
+/**
+ * Validates a Measurement object, returning null when absent or malformed.
+ */
+function validateMeasurement(data: unknown): Measurement | null {
+  if (!isObject(data) || typeof data.value !== 'number') return null;
+  return {
+    value: data.value,
+    unit: isNonEmptyString(data.unit) ? data.unit : null,
+  };
+}
+
 /**
  * Validates an AttributeValue object.
  */
@@ -64,13 +119,78 @@ function validateAttributeValue(data: unknown, fieldPath: string): AttributeValu
     );
   }
 
+  const sentiment = isValidSentiment(data.sentiment) ? data.sentiment : 'neutral';
+
   return {
     value: data.value,
     rating: data.rating,
+    measurement: validateMeasurement(data.measurement),
+    // Older responses have no score; fall back to where the sentiment sits
+    score: typeof data.score === 'number' ? data.score : SENTIMENT_SCORES[sentiment],
+    sentiment,
     icon: typeof data.icon === 'string' ? data.icon : '',
   };
 }
 
+const BUDGET_FIT_STATUSES: BudgetFitStatus[] = ['within', 'under', 'stretch', 'over', 'exceeds', 'unknown'];
+
+/**
+ * Validates a CostEstimate object, returning null when absent or malformed.
+ */
+function validateCostEstimate(data: unknown): CostEstimate | null {
+  if (!isObject(data)) return null;
+  const { min, typical, max } = data;
+  if (typeof min !== 'number' || typeof typical !== 'number' || typeof max !== 'number') {
+    return null;
+  }
+  return { min, typical, max, basis: data.basis === 'usage' ? 'usage' : 'catalog' };
+}
+
+/**
+ * Validates a BudgetFit object.
+ * Falls back to an 'unknown' fit so older responses still render.
+ */
+function validateBudgetFit(data: unknown): BudgetFit {
+  if (!isObject(data) || !BUDGET_FIT_STATUSES.includes(data.status as BudgetFitStatus)) {
+    return { status: 'unknown', estimate: null, penalty: 0, reason: '' };
+  }
+
+  return {
+    status: data.status as BudgetFitStatus,
+    estimate: validateCostEstimate(data.estimate),
+    penalty: typeof data.penalty === 'number' ? data.penalty : 0,
+    reason: typeof data.reason === 'string' ? data.reason : '',
+  };
+}
+
+const INTEGRATION_SUPPORT_LEVELS: IntegrationSupportLevel[] = ['native', 'plugin', 'custom', 'unknown'];
+
+/**
+ * Validates an IntegrationFit object, skipping malformed entries.
+ * Falls back to an ungraded fit so older responses still render.
+ */
+function validateIntegrationFit(data: unknown): IntegrationFit {
+  if (!isObject(data) || !Array.isArray(data.integrations)) {
+    return { score: null, integrations: [] };
+  }
+
+  const integrations: IntegrationSupport[] = data.integrations
+    .filter(isObject)
+    .filter((i) => isNonEmptyString(i.integrationId))
+    .map((i) => ({
+      integrationId: i.integrationId as string,
+      name: isNonEmptyString(i.name) ? i.name : (i.integrationId as string),
+      supportLevel: INTEGRATION_SUPPORT_LEVELS.includes(i.supportLevel as IntegrationSupportLevel)
+        ? (i.supportLevel as IntegrationSupportLevel)
+        : 'unknown',
+    }));
+
+  return {
+    score: typeof data.score === 'number' ? data.score : null,
+    integrations,
+  };
+}
+
 /**
  * Validates an OptionComparison object.
  */
@@ -101,22 +221,100 @@ function validateOptionComparison(data: unknown, index: number): OptionCompariso
     throw new ValidationError(`Missing 'attributes' object`, `${fieldPath}.attributes`);
   }
 
-  const attributes = data.attributes as Record<string, unknown>;
+  const attributes: OptionComparison['attributes'] = {};
+  for (const [key, value] of Object.entries(data.attributes)) {
+    attributes[key] = validateAttributeValue(value, `${fieldPath}.attributes.${key}`);
+  }
 
   return {
     id: data.id,
     name: data.name,
     description: data.description,
     score: data.score,
-    attributes: {
-      costModel: validateAttributeValue(attributes.costModel, `${fieldPath}.attributes.costModel`),
-      scalability: validateAttributeValue(attributes.scalability, `${fieldPath}.attributes.scalability`),
-      complexity: validateAttributeValue(attributes.complexity, `${fieldPath}.attributes.complexity`),
-      maintenance: validateAttributeValue(attributes.maintenance, `${fieldPath}.attributes.maintenance`),
-    },
+    contributions: validateContributions(data.contributions),
+    rank: typeof data.rank === 'number' ? data.rank : index + 1,
+    attributes,
+    budgetFit: validateBudgetFit(data.budgetFit),
+    integrationFit: validateIntegrationFit(data.integrationFit),
+    disqualified: data.disqualified === true,
+    disqualifications: Array.isArray(data.disqualifications)
+      ? data.disqualifications.filter((d): d is string => typeof d === 'string')
+      : [],
+  };
+}
+
+/**
+ * Validates an option's score contributions, skipping malformed entries.
+ * Responses from before the breakdown existed have none.
+ */
+function validateContributions(data: unknown): ScoreContribution[] {
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter(isObject)
+    .filter((c) => isNonEmptyString(c.attributeType) && typeof c.points === 'number')
+    .map((c) => ({
+      attributeType: c.attributeType as string,
+      name: isNonEmptyString(c.name) ? c.name : (c.attributeType as string),
+      weight: typeof c.weight === 'number' ? c.weight : 0,
+      points: c.points as number,
+    }));
+}
+
+/**
+ * Validates the attribute type catalog, skipping malformed entries.
+ */
+function validateAttributeTypes(data: unknown): AttributeType[] {
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter(isObject)
+    .filter((t) => isNonEmptyString(t.key))
+    .map((t) => ({
+      key: t.key as string,
+      name: isNonEmptyString(t.name) ? t.name : (t.key as string),
+      description: typeof t.description === 'string' ? t.description : null,
+      icon: isNonEmptyString(t.icon) ? t.icon : '📊',
+      direction: t.direction === 'lower_is_better' ? ('lower_is_better' as const) : ('higher_is_better' as const),
+      unit: isNonEmptyString(t.unit) ? t.unit : null,
+    }));
+}
+
+const SCORING_METHODS: ScoringMethod[] = ['weighted_sum', 'topsis', 'ahp'];
+
+function isScoringMethod(value: unknown): value is ScoringMethod {
+  return SCORING_METHODS.includes(value as ScoringMethod);
+}
+
+/**
+ * Validates scoring metadata, or returns undefined when it is missing
+ * or malformed.
+ */
+function validateScoring(data: unknown): ScoringMetadata | undefined {
+  if (!isObject(data) || !isScoringMethod(data.method) || !isObject(data.winners)) {
+    return undefined;
+  }
+  const winners = data.winners;
+  return {
+    method: data.method,
+    label: isNonEmptyString(data.label) ? data.label : data.method,
+    winners: Object.fromEntries(
+      SCORING_METHODS.map((method) => [method, isNonEmptyString(winners[method]) ? winners[method] : null])
+    ) as ScoringMetadata['winners'],
   };
 }
 
+/**
+ * Validates the weight profile a comparison was scored with, or returns
+ * null when it used the default weights.
+ */
+function validateWeightProfileSummary(data: unknown): WeightProfileSummary | null {
+  if (!isObject(data) || !isNonEmptyString(data.id) || !isNonEmptyString(data.name)) {
+    return null;
+  }
+  return { id: data.id, name: data.name };
+}
+
 /**
  * Validates a ComparisonResult object.
  */
@@ -129,9 +327,9 @@ function validateComparisonResult(data: unknown): ComparisonResult {
     throw new ValidationError('Missing or invalid options array', 'comparison.options');
   }
 
-  if (data.options.length !== 2) {
+  if (data.options.length < 2) {
     throw new ValidationError(
-      `Expected exactly 2 options, got ${data.options.length}`,
+      `Expected at least 2 options, got ${data.options.length}`,
       'comparison.options'
     );
   }
@@ -141,6 +339,9 @@ function validateComparisonResult(data: unknown): ComparisonResult {
   return {
     options,
     matrix: isObject(data.matrix) ? (data.matrix as ComparisonResult['matrix']) : {},
+    attributeTypes: validateAttributeTypes(data.attributeTypes),
+    scoring: validateScoring(data.scoring),
+    weightProfile: validateWeightProfileSummary(data.weightProfile),
   };
 }
 
@@ -200,12 +401,105 @@ function validatePivotResult(data: unknown): PivotResult {
     throw new ValidationError('Expected object for pivot result', 'pivot');
   }
 
+  const factorWinners = Array.isArray(data.factorWinners)
+    ? data.factorWinners
+        .filter(isObject)
+        .map((f) => ({
+          attributeType: typeof f.attributeType === 'string' ? f.attributeType : '',
+          factor: typeof f.factor === 'string' ? f.factor : '',
+          winners: Array.isArray(f.winners) ? f.winners.filter(isNonEmptyString) : [],
+        }))
+    : [];
+
+  const pairwise = Array.isArray(data.pairwise)
+    ? data.pairwise
+        .filter(isObject)
+        .map((p) => ({
+          optionA: typeof p.optionA === 'string' ? p.optionA : '',
+          optionB: typeof p.optionB === 'string' ? p.optionB : '',
+          statement: typeof p.statement === 'string' ? p.statement : '',
+        }))
+    : [];
+
   return {
     statement: typeof data.statement === 'string' ? data.statement : '',
     primaryFactor: typeof data.primaryFactor === 'string' ? data.primaryFactor : '',
     secondaryFactor: typeof data.secondaryFactor === 'string' ? data.secondaryFactor : '',
     optionA: typeof data.optionA === 'string' ? data.optionA : '',
     optionB: typeof data.optionB === 'string' ? data.optionB : '',
+    factorWinners,
+    pairwise,
+  };
+}
+
+/**
+ * Validates simulation results, or returns undefined when they are
+ * missing or malformed.
+ */
+function validateUncertainty(data: unknown): UncertaintyResult | undefined {
+  if (!isObject(data) || !Array.isArray(data.options)) return undefined;
+
+  const number = (value: unknown) => (typeof value === 'number' ? value : 0);
+  return {
+    iterations: number(data.iterations),
+    options: data.options
+      .filter(isObject)
+      .filter((o) => isNonEmptyString(o.optionId))
+      .map((o) => ({
+        optionId: o.optionId as string,
+        name: isNonEmptyString(o.name) ? o.name : (o.optionId as string),
+        mean: number(o.mean),
+        p10: number(o.p10),
+        p50: number(o.p50),
+        p90: number(o.p90),
+        winProbability: number(o.winProbability),
+      })),
+    confidence: number(data.confidence),
+  };
+}
+
+/**
+ * Validates a cost of ownership projection, or returns undefined when it
+ * is missing or malformed.
+ */
+function validateTco(data: unknown): TcoProjection | undefined {
+  if (!isObject(data) || !Array.isArray(data.options)) return undefined;
+
+  const number = (value: unknown) => (typeof value === 'number' ? value : 0);
+  return {
+    hourlyRate: number(data.hourlyRate),
+    annualGrowthRate: number(data.annualGrowthRate),
+    years: number(data.years),
+    options: data.options
+      .filter(isObject)
+      .filter((o) => isNonEmptyString(o.optionId) && Array.isArray(o.cumulative))
+      .map((o) => {
+        const cumulative = (o.cumulative as unknown[]).map(number);
+        const totals = isObject(o.totals) ? o.totals : {};
+        return {
+          optionId: o.optionId as string,
+          name: isNonEmptyString(o.name) ? o.name : (o.optionId as string),
+          setupCost: number(o.setupCost),
+          monthlyInfrastructure: typeof o.monthlyInfrastructure === 'number' ? o.monthlyInfrastructure : null,
+          maintenanceHoursPerMonth: number(o.maintenanceHoursPerMonth),
+          cumulative,
+          totals: {
+            year1: number(totals.year1),
+            year3: number(totals.year3),
+            year5: number(totals.year5),
+          },
+        };
+      }),
+    crossovers: Array.isArray(data.crossovers)
+      ? data.crossovers
+          .filter(isObject)
+          .filter((c) => isNonEmptyString(c.cheaperBefore) && isNonEmptyString(c.cheaperAfter))
+          .map((c) => ({
+            year: number(c.year),
+            cheaperBefore: c.cheaperBefore as string,
+            cheaperAfter: c.cheaperAfter as string,
+          }))
+      : [],
   };
 }
 
@@ -239,6 +533,16 @@ export function validateCompareResponse(data: unknown): CompareResponse {
     pivot: validatePivotResult(data.pivot),
   };
 
+  const uncertainty = validateUncertainty(data.uncertainty);
+  if (uncertainty) {
+    response.uncertainty = uncertainty;
+  }
+
+  const tco = validateTco(data.tco);
+  if (tco) {
+    response.tco = tco;
+  }
+
   // Include AI-enhanced fields if present
   if (data.aiEnhanced === true) {
     response.aiEnhanced = true;
@@ -347,6 +651,370 @@ export function validateIntegrationsResponse(data: unknown): IntegrationsRespons
   return { integrations };
 }
 
+/**
+ * Validates a WeightProfilesResponse from the API.
+ */
+export function validateWeightProfilesResponse(data: unknown): WeightProfilesResponse {
+  if (!isObject(data) || !Array.isArray(data.weightProfiles)) {
+    throw new ValidationError('Missing weightProfiles array', 'weightProfiles');
+  }
+
+  const weightProfiles = data.weightProfiles
+    .filter(isObject)
+    .filter((p) => isNonEmptyString(p.id) && isNonEmptyString(p.name))
+    .map((p) => ({
+      id: p.id as string,
+      name: p.name as string,
+      description: typeof p.description === 'string' ? p.description : null,
+    }));
+
+  return { weightProfiles };
+}
+
+/**
+ * Validates an AttributeTypesResponse from the API.
+ */
+export function validateAttributeTypesResponse(data: unknown): AttributeTypesResponse {
+  if (!isObject(data)) {
+    throw new ValidationError('Invalid attribute types response format', 'attributeTypes');
+  }
+
+  if (!Array.isArray(data.attributeTypes)) {
+    throw new ValidationError('Missing attributeTypes array', 'attributeTypes');
+  }
+
+  return { attributeTypes: validateAttributeTypes(data.attributeTypes) };
+}
+
+/**
+ * Validates a tipping point, returning null when absent or malformed.
+ */
+function validateTippingPoint(data: unknown): TippingPoint | null {
+  if (!isObject(data) || typeof data.weight !== 'number' || !isNonEmptyString(data.newWinner)) {
+    return null;
+  }
+  return { weight: data.weight, newWinner: data.newWinner };
+}
+
+/**
+ * Validates a SensitivityResult from the API.
+ */
+export function validateSensitivityResult(data: unknown): SensitivityResult {
+  if (!isObject(data)) {
+    throw new ValidationError('Invalid sensitivity response format', 'sensitivity');
+  }
+
+  if (!Array.isArray(data.attributes)) {
+    throw new ValidationError('Missing attributes array', 'sensitivity.attributes');
+  }
+
+  const range = isObject(data.weightRange) ? data.weightRange : {};
+  const min = typeof range.min === 'number' ? range.min : 0;
+  const max = typeof range.max === 'number' ? range.max : 1;
+
+  const attributes: AttributeSensitivity[] = data.attributes
+    .filter(isObject)
+    .filter((a) => isNonEmptyString(a.attributeType))
+    .map((a) => ({
+      attributeType: a.attributeType as string,
+      factor: isNonEmptyString(a.factor) ? a.factor : (a.attributeType as string),
+      baselineWeight: typeof a.baselineWeight === 'number' ? a.baselineWeight : min,
+      holdsFrom: typeof a.holdsFrom === 'number' ? a.holdsFrom : min,
+      holdsTo: typeof a.holdsTo === 'number' ? a.holdsTo : max,
+      lowerTip: validateTippingPoint(a.lowerTip),
+      upperTip: validateTippingPoint(a.upperTip),
+      statement: typeof a.statement === 'string' ? a.statement : '',
+    }));
+
+  return {
+    winner: typeof data.winner === 'string' ? data.winner : '',
+    weightRange: { min, max },
+    attributes,
+  };
+}
+
+const RULE_OPERATORS: RuleOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte'];
+
+const USAGE_FIELDS: Array<keyof UsageProfile> = ['requestsPerMonth', 'storageGb', 'hoursPerMonth', 'seats'];
+
+/**
+ * Validates stored constraints, filling in defaults for any that are
+ * missing or malformed.
+ */
+function validateConstraints(data: unknown): Constraints {
+  const c = isObject(data) ? data : {};
+  const constraints: Constraints = {
+    budgetMin: typeof c.budgetMin === 'number' ? c.budgetMin : 0,
+    budgetMax: typeof c.budgetMax === 'number' ? c.budgetMax : 0,
+    scalabilityPriority: isValidRating(c.scalabilityPriority) ? c.scalabilityPriority : 'medium',
+    requiredIntegrations: Array.isArray(c.requiredIntegrations)
+      ? c.requiredIntegrations.filter(isNonEmptyString)
+      : [],
+  };
+
+  if (c.integrationMode === 'strict' || c.integrationMode === 'lenient') {
+    constraints.integrationMode = c.integrationMode;
+  }
+
+  if (isScoringMethod(c.scoringMethod)) {
+    constraints.scoringMethod = c.scoringMethod;
+  }
+
+  if (isNonEmptyString(c.weightProfileId)) {
+    constraints.weightProfileId = c.weightProfileId;
+  }
+
+  if (Array.isArray(c.rules)) {
+    constraints.rules = c.rules
+      .filter(isObject)
+      .filter((r) => isNonEmptyString(r.field) && RULE_OPERATORS.includes(r.operator as RuleOperator))
+      .filter((r) => typeof r.value === 'number' || isNonEmptyString(r.value))
+      .map((r) => ({
+        field: r.field as string,
+        operator: r.operator as RuleOperator,
+        value: r.value as string | number,
+      }));
+  }
+
+  if (isObject(c.usage)) {
+    constraints.usage = Object.fromEntries(
+      Object.entries(c.usage).filter(
+        (entry): entry is [keyof UsageProfile, number] =>
+          USAGE_FIELDS.includes(entry[0] as keyof UsageProfile) && typeof entry[1] === 'number'
+      )
+    );
+  }
+
+  if (isObject(c.tco)) {
+    const tco: TcoSettings = {};
+    if (typeof c.tco.hourlyRate === 'number') tco.hourlyRate = c.tco.hourlyRate;
+    if (typeof c.tco.annualGrowthRate === 'number') tco.annualGrowthRate = c.tco.annualGrowthRate;
+    constraints.tco = tco;
+  }
+
+  if (isObject(c.attributeWeights)) {
+    constraints.attributeWeights = Object.fromEntries(
+      Object.entries(c.attributeWeights).filter(
+        (entry): entry is [string, number] => typeof entry[1] === 'number'
+      )
+    );
+  }
+
+  return constraints;
+}
+
+/**
+ * Validates the request stored with a saved comparison.
+ */
+function validateSavedCompareRequest(data: unknown): SavedCompareRequest {
+  if (!isObject(data) || !Array.isArray(data.optionIds)) {
+    throw new ValidationError('Missing request data in saved comparison', 'request');
+  }
+
+  return {
+    constraints: validateConstraints(data.constraints),
+    optionIds: data.optionIds.filter(isNonEmptyString),
+    additionalContext: typeof data.additionalContext === 'string' ? data.additionalContext : undefined,
+    useAI: data.useAI === true,
+  };
+}
+
+/**
+ * Validates a RecommendResponse from the API, skipping malformed entries.
+ */
+export function validateRecommendResponse(data: unknown): RecommendResponse {
+  if (!isObject(data)) {
+    throw new ValidationError('Invalid recommendation response format', 'recommend');
+  }
+
+  if (!Array.isArray(data.recommendations)) {
+    throw new ValidationError('Missing recommendations array', 'recommend.recommendations');
+  }
+
+  const recommendations = data.recommendations
+    .filter(isObject)
+    .filter((r) => isNonEmptyString(r.id) && isNonEmptyString(r.name) && typeof r.score === 'number')
+    .map((r, index) => ({
+      id: r.id as string,
+      name: r.name as string,
+      category: typeof r.category === 'string' ? r.category : '',
+      score: r.score as number,
+      rank: typeof r.rank === 'number' ? r.rank : index + 1,
+      fitReason: typeof r.fitReason === 'string' ? r.fitReason : '',
+      strengths: Array.isArray(r.strengths) ? r.strengths.filter(isNonEmptyString) : [],
+      weaknesses: Array.isArray(r.weaknesses) ? r.weaknesses.filter(isNonEmptyString) : [],
+    }));
+
+  const excluded = (Array.isArray(data.excluded) ? data.excluded : [])
+    .filter(isObject)
+    .filter((e) => isNonEmptyString(e.id) && isNonEmptyString(e.name))
+    .map((e) => ({
+      id: e.id as string,
+      name: e.name as string,
+      reason: typeof e.reason === 'string' ? e.reason : '',
+    }));
+
+  return {
+    recommendations,
+    excluded,
+    considered: typeof data.considered === 'number' ? data.considered : recommendations.length + excluded.length,
+    scoring: validateScoring(data.scoring),
+  };
+}
+
+/**
+ * Validates a SavedComparison from the API.
+ */
+export function validateSavedComparison(data: unknown): SavedComparison {
+  if (!isObject(data)) {
+    throw new ValidationError('Invalid saved comparison format', 'savedComparison');
+  }
+
+  if (!isNonEmptyString(data.id)) {
+    throw new ValidationError('Missing saved comparison ID', 'id');
+  }
+
+  return {
+    id: data.id,
+    request: validateSavedCompareRequest(data.request),
+    response: validateCompareResponse(data.response),
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+  };
+}
+
+/**
+ * Validates a participant's ratings in a decision session.
+ */
+export function validateSessionParticipant(data: unknown): SessionParticipant {
+  if (!isObject(data) || !isNonEmptyString(data.id) || !isNonEmptyString(data.name)) {
+    throw new ValidationError('Invalid session participant format', 'participant');
+  }
+
+  const weights = isObject(data.attributeWeights) ? data.attributeWeights : {};
+
+  return {
+    id: data.id,
+    name: data.name,
+    attributeWeights: Object.fromEntries(
+      Object.entries(weights).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+    ),
+    scalabilityPriority: isValidRating(data.scalabilityPriority) ? data.scalabilityPriority : null,
+    updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : '',
+  };
+}
+
+/**
+ * Validates a DecisionSession from the API, skipping malformed participants.
+ */
+export function validateDecisionSession(data: unknown): DecisionSession {
+  if (!isObject(data)) {
+    throw new ValidationError('Invalid decision session format', 'session');
+  }
+
+  if (!isNonEmptyString(data.id)) {
+    throw new ValidationError('Missing decision session ID', 'id');
+  }
+
+  const participants = (Array.isArray(data.participants) ? data.participants : [])
+    .map((p) => safeValidate(validateSessionParticipant, p))
+    .filter((p): p is SessionParticipant => p !== null);
+
+  return {
+    id: data.id,
+    title: typeof data.title === 'string' ? data.title : '',
+    optionIds: Array.isArray(data.optionIds) ? data.optionIds.filter(isNonEmptyString) : [],
+    constraints: validateConstraints(data.constraints),
+    participants,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+  };
+}
+
+/**
+ * Validates a GroupDecisionResult from the API, skipping malformed entries.
+ */
+export function validateGroupDecisionResult(data: unknown): GroupDecisionResult {
+  if (!isObject(data)) {
+    throw new ValidationError('Invalid group decision format', 'groupDecision');
+  }
+
+  const disagreements = (Array.isArray(data.disagreements) ? data.disagreements : [])
+    .filter(isObject)
+    .filter((d) => isNonEmptyString(d.attributeType) && isObject(d.ratings))
+    .map((d) => ({
+      attributeType: d.attributeType as string,
+      name: isNonEmptyString(d.name) ? d.name : (d.attributeType as string),
+      min: typeof d.min === 'number' ? d.min : 0,
+      max: typeof d.max === 'number' ? d.max : 0,
+      spread: typeof d.spread === 'number' ? d.spread : 0,
+      ratings: Object.fromEntries(
+        Object.entries(d.ratings as Record<string, unknown>).filter(
+          (entry): entry is [string, number] => typeof entry[1] === 'number'
+        )
+      ),
+    }));
+
+  const participants = (Array.isArray(data.participants) ? data.participants : [])
+    .filter(isObject)
+    .filter((p) => isNonEmptyString(p.name))
+    .map((p) => ({
+      name: p.name as string,
+      winner: isNonEmptyString(p.winner) ? p.winner : null,
+      agreesWithGroup: p.agreesWithGroup === true,
+    }));
+
+  return {
+    sessionId: typeof data.sessionId === 'string' ? data.sessionId : '',
+    constraints: validateConstraints(data.constraints),
+    comparison: validateComparisonResult(data.comparison),
+    winner: isNonEmptyString(data.winner) ? data.winner : null,
+    disagreements,
+    participants,
+    winnerChangesPerParticipant: participants.some((p) => !p.agreesWithGroup),
+  };
+}
+
+/**
+ * Validates the score grid from a scenario comparison.
+ */
+export function validateScenarioCompareResponse(data: unknown): ScenarioCompareResponse {
+  if (!isObject(data) || !Array.isArray(data.scenarios)) {
+    throw new ValidationError('Invalid scenario comparison format', 'scenarios');
+  }
+
+  const options = (Array.isArray(data.options) ? data.options : [])
+    .filter(isObject)
+    .filter((o) => isNonEmptyString(o.id))
+    .map((o) => ({
+      id: o.id as string,
+      name: isNonEmptyString(o.name) ? o.name : (o.id as string),
+    }));
+
+  const scenarios = data.scenarios
+    .filter(isObject)
+    .filter((s) => isNonEmptyString(s.name))
+    .map((s) => ({
+      name: s.name as string,
+      constraints: validateConstraints(s.constraints),
+      winner: isNonEmptyString(s.winner) ? s.winner : null,
+      scores: isObject(s.scores)
+        ? Object.fromEntries(
+            Object.entries(s.scores).filter(
+              (entry): entry is [string, number] => typeof entry[1] === 'number'
+            )
+          )
+        : {},
+      disqualified: Array.isArray(s.disqualified) ? s.disqualified.filter(isNonEmptyString) : [],
+      winnerChanged: s.winnerChanged === true,
+      pivot: validatePivotResult(s.pivot),
+    }));
+
+  return {
+    options,
+    scenarios,
+    winnerChanges: new Set(scenarios.map((s) => s.winner)).size > 1,
+  };
+}
+
 /**
  * Safe wrapper that validates data and returns null on failure.
  * Useful for graceful degradation.
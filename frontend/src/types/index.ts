@@ -1,15 +1,84 @@
 // Constraint types
+// 'strict' rejects options lacking a required integration; 'lenient' compares them anyway
+export type IntegrationMode = 'strict' | 'lenient';
+
+export type RuleOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte';
+
+// A deal-breaker: field is an attribute type key or 'category'. Attribute rules
+// compare ratings (low < medium < high), or measured values when value is a number
+export interface HardRule {
+  field: string;
+  operator: RuleOperator;
+  value: string | number;
+}
+
+// Multi-criteria decision method used to score options
+export type ScoringMethod = 'weighted_sum' | 'topsis' | 'ahp';
+
 export interface Constraints {
   budgetMin: number;
   budgetMax: number;
   scalabilityPriority: 'low' | 'medium' | 'high';
   requiredIntegrations: string[];
+  integrationMode?: IntegrationMode;
+  // Options breaking any of these are disqualified regardless of score
+  rules?: HardRule[];
+  // Defaults to 'weighted_sum'
+  scoringMethod?: ScoringMethod;
+  // Named weight profile to score with instead of the default weights
+  weightProfileId?: string;
+  // Importance per attribute type on a 0-10 scale; unset attributes use the default weight
+  attributeWeights?: Record<string, number>;
+  // Expected usage; options with pricing formulas are budget-checked on what it costs
+  usage?: UsageProfile;
+  // Assumptions behind the total cost of ownership projection; unset ones use the API defaults
+  tco?: TcoSettings;
+}
+
+// Monthly usage to price options against; missing amounts count as 0
+export interface UsageProfile {
+  requestsPerMonth?: number;
+  storageGb?: number;
+  hoursPerMonth?: number;
+  seats?: number;
+}
+
+export interface TcoSettings {
+  // Cost of one engineering hour, in USD
+  hourlyRate?: number;
+  // Yearly change in infrastructure cost as a fraction (0.1 = 10% growth)
+  annualGrowthRate?: number;
 }
 
 // Attribute types
+export type AttributeDirection = 'higher_is_better' | 'lower_is_better';
+
+export interface AttributeType {
+  key: string;
+  name: string;
+  description: string | null;
+  icon: string;
+  direction: AttributeDirection;
+  // Unit of measured values (ms, $/month, ...); null for rating-only attributes
+  unit: string | null;
+}
+
+// How a rating reads once the attribute's direction is applied
+export type RatingSentiment = 'favorable' | 'neutral' | 'unfavorable';
+
+export interface Measurement {
+  value: number;
+  unit: string | null;
+}
+
 export interface AttributeValue {
   value: string;
   rating: 'low' | 'medium' | 'high';
+  // Raw number, when the option has one for a measured attribute
+  measurement: Measurement | null;
+  // Derived 0-100 score, oriented so higher is always better
+  score: number;
+  sentiment: RatingSentiment;
   icon: string;
 }
 
@@ -21,17 +90,62 @@ export interface Option {
   category: string;
 }
 
+// Budget fit types
+export interface CostEstimate {
+  min: number;
+  typical: number;
+  max: number;
+  // 'usage' when priced on the constraints' usage profile (min = typical = max)
+  basis: 'catalog' | 'usage';
+}
+
+export type BudgetFitStatus = 'within' | 'under' | 'stretch' | 'over' | 'exceeds' | 'unknown';
+
+export interface BudgetFit {
+  status: BudgetFitStatus;
+  estimate: CostEstimate | null;
+  penalty: number;
+  reason: string;
+}
+
+// Integration fit types
+export type IntegrationSupportLevel = 'native' | 'plugin' | 'custom' | 'unknown';
+
+export interface IntegrationSupport {
+  integrationId: string;
+  name: string;
+  supportLevel: IntegrationSupportLevel;
+}
+
+export interface IntegrationFit {
+  score: number | null;
+  integrations: IntegrationSupport[];
+}
+
+export interface ScoreContribution {
+  // Attribute type key, or 'integrations' for integration fit
+  attributeType: string;
+  name: string;
+  // Effective weight the criterion was scored with
+  weight: number;
+  points: number;
+}
+
 export interface OptionComparison {
   id: string;
   name: string;
   description: string;
   attributes: {
-    costModel: AttributeValue;
-    scalability: AttributeValue;
-    complexity: AttributeValue;
-    maintenance: AttributeValue;
+    [attributeType: string]: AttributeValue;
   };
+  budgetFit: BudgetFit;
+  integrationFit: IntegrationFit;
+  disqualified: boolean;
+  disqualifications: string[];
   score: number;
+  // Points each criterion adds to the score, before the budget penalty
+  contributions: ScoreContribution[];
+  rank: number;
 }
 
 // Comparison types
@@ -41,9 +155,21 @@ export interface AttributeMatrix {
   };
 }
 
+export interface ScoringMetadata {
+  method: ScoringMethod;
+  label: string;
+  // Top qualified option under each method (null if every option is disqualified)
+  winners: Record<ScoringMethod, string | null>;
+}
+
 export interface ComparisonResult {
   options: OptionComparison[];
   matrix: AttributeMatrix;
+  attributeTypes: AttributeType[];
+  // Missing on comparisons saved before scoring methods existed
+  scoring?: ScoringMetadata;
+  // Profile the weights came from; null with the default weights
+  weightProfile?: WeightProfileSummary | null;
 }
 
 // Trade-off explanation types
@@ -68,12 +194,26 @@ export interface TradeOffExplanation {
 }
 
 // Pivot types
+export interface FactorWinner {
+  attributeType: string;
+  factor: string;
+  winners: string[];
+}
+
+export interface PairwisePivot {
+  optionA: string;
+  optionB: string;
+  statement: string;
+}
+
 export interface PivotResult {
   statement: string;
   primaryFactor: string;
   secondaryFactor: string;
   optionA: string;
   optionB: string;
+  factorWinners: FactorWinner[];
+  pairwise: PairwisePivot[];
 }
 
 // Integration types
@@ -83,6 +223,16 @@ export interface Integration {
   category: string;
 }
 
+// Weight profile types
+export interface WeightProfileSummary {
+  id: string;
+  name: string;
+}
+
+export interface WeightProfile extends WeightProfileSummary {
+  description: string | null;
+}
+
 // AI Comparison types
 export interface AIDetailedAnalysis {
   optionName: string;
@@ -104,7 +254,7 @@ export interface AIComparisonResult {
 // API Request/Response types
 export interface CompareRequest {
   constraints: Constraints;
-  optionIds: [string, string];
+  optionIds: string[];
 }
 
 export interface CompareResponse {
@@ -113,6 +263,218 @@ export interface CompareResponse {
   pivot: PivotResult;
   aiEnhanced?: boolean;
   aiAnalysis?: AIComparisonResult;
+  // Present when the comparison was simulated
+  uncertainty?: UncertaintyResult;
+  // Missing on comparisons saved before cost of ownership was projected
+  tco?: TcoProjection;
+}
+
+// Total cost of ownership types
+export interface TcoOptionProjection {
+  optionId: string;
+  name: string;
+  setupCost: number;
+  // null when the option has no cost data
+  monthlyInfrastructure: number | null;
+  maintenanceHoursPerMonth: number;
+  // Cumulative cost at the end of each year; index 0 is setup alone
+  cumulative: number[];
+  totals: { year1: number; year3: number; year5: number };
+}
+
+export interface TcoCrossover {
+  year: number;
+  cheaperBefore: string;
+  cheaperAfter: string;
+}
+
+export interface TcoProjection {
+  hourlyRate: number;
+  annualGrowthRate: number;
+  years: number;
+  options: TcoOptionProjection[];
+  crossovers: TcoCrossover[];
+}
+
+// Layouts a comparison can be exported as
+export type ExportFormat = 'adr' | 'markdown';
+
+// Saved comparison types
+export interface RecommendRequest {
+  constraints: Constraints;
+  // Limits the catalog to one option category
+  category?: string;
+  // Shortlist length; the API defaults to 5
+  limit?: number;
+}
+
+export interface RecommendedOption {
+  id: string;
+  name: string;
+  category: string;
+  score: number;
+  // Position in the shortlist
+  rank: number;
+  fitReason: string;
+  strengths: string[];
+  weaknesses: string[];
+}
+
+// A catalog option left off the shortlist, and why
+export interface ExcludedOption {
+  id: string;
+  name: string;
+  reason: string;
+}
+
+export interface RecommendResponse {
+  recommendations: RecommendedOption[];
+  excluded: ExcludedOption[];
+  // Number of catalog options scored
+  considered: number;
+  scoring?: ScoringMetadata;
+}
+
+export interface SavedCompareRequest extends CompareRequest {
+  additionalContext?: string;
+  useAI?: boolean;
+}
+
+export interface SavedComparison {
+  id: string;
+  request: SavedCompareRequest;
+  response: CompareResponse;
+  createdAt: string;
+}
+
+// Group decision types
+export interface SessionParticipant {
+  id: string;
+  name: string;
+  // Importance per attribute type on a 0-10 scale
+  attributeWeights: Record<string, number>;
+  // null means the participant goes with the session's priority
+  scalabilityPriority: Constraints['scalabilityPriority'] | null;
+  updatedAt: string;
+}
+
+export interface DecisionSession {
+  id: string;
+  title: string;
+  optionIds: string[];
+  constraints: Constraints;
+  participants: SessionParticipant[];
+  createdAt: string;
+}
+
+export interface CreateSessionRequest extends CompareRequest {
+  title: string;
+}
+
+export interface SessionParticipantRequest {
+  name: string;
+  attributeWeights: Record<string, number>;
+  scalabilityPriority?: Constraints['scalabilityPriority'];
+}
+
+// A participant's replacement ratings; the name is fixed when they join
+export type SessionRatingsRequest = Omit<SessionParticipantRequest, 'name'>;
+
+export interface AttributeDisagreement {
+  attributeType: string;
+  name: string;
+  min: number;
+  max: number;
+  spread: number;
+  // Keyed by participant name
+  ratings: Record<string, number>;
+}
+
+export interface ParticipantOutcome {
+  name: string;
+  winner: string | null;
+  agreesWithGroup: boolean;
+}
+
+export interface GroupDecisionResult {
+  sessionId: string;
+  constraints: Constraints;
+  comparison: ComparisonResult;
+  winner: string | null;
+  disagreements: AttributeDisagreement[];
+  participants: ParticipantOutcome[];
+  winnerChangesPerParticipant: boolean;
+}
+
+// Scenario comparison types
+export interface NamedScenario {
+  name: string;
+  constraints: Constraints;
+}
+
+export interface ScenarioCompareRequest {
+  optionIds: string[];
+  scenarios: NamedScenario[];
+}
+
+export interface ScenarioResult extends NamedScenario {
+  // Top qualified option (null if every option is disqualified)
+  winner: string | null;
+  // Score per option ID
+  scores: Record<string, number>;
+  // IDs of the options disqualified under this scenario
+  disqualified: string[];
+  // Whether the winner differs from the previous scenario's
+  winnerChanged: boolean;
+  pivot: PivotResult;
+}
+
+export interface ScenarioCompareResponse {
+  options: Array<{ id: string; name: string }>;
+  scenarios: ScenarioResult[];
+  winnerChanges: boolean;
+}
+
+// Sensitivity analysis types
+export interface TippingPoint {
+  weight: number;
+  newWinner: string;
+}
+
+export interface AttributeSensitivity {
+  attributeType: string;
+  factor: string;
+  baselineWeight: number;
+  holdsFrom: number;
+  holdsTo: number;
+  lowerTip: TippingPoint | null;
+  upperTip: TippingPoint | null;
+  statement: string;
+}
+
+export interface SensitivityResult {
+  winner: string;
+  weightRange: { min: number; max: number };
+  attributes: AttributeSensitivity[];
+}
+
+// Monte Carlo types
+export interface ScoreDistribution {
+  optionId: string;
+  name: string;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  // Share of runs (0-1) in which the option came first and was qualified
+  winProbability: number;
+}
+
+export interface UncertaintyResult {
+  iterations: number;
+  options: ScoreDistribution[];
+  // Chance (0-100) that the current leader stays on top
+  confidence: number;
 }
 
 export interface OptionsResponse {
@@ -123,12 +485,35 @@ export interface IntegrationsResponse {
   integrations: Integration[];
 }
 
+export interface AttributeTypesResponse {
+  attributeTypes: AttributeType[];
+}
+
+export interface WeightProfilesResponse {
+  weightProfiles: WeightProfile[];
+}
+
 export interface HealthResponse {
   status: 'healthy' | 'degraded' | 'unhealthy';
   database: 'connected' | 'disconnected';
   timestamp: string;
 }
 
+// Admin authentication types
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
 export interface ErrorResponse {
   error: string;
   code: string;
@@ -150,7 +535,7 @@ export interface AppState {
   constraints: Constraints;
   availableOptions: Option[];
   availableIntegrations: Integration[];
-  selectedOptions: [string, string] | null;
+  selectedOptions: string[] | null;
   comparison: ComparisonResult | null;
   explanation: TradeOffExplanation | null;
   pivot: PivotResult | null;